@@ -1,15 +1,30 @@
-import type { DetailedIssue, FilteredResult, FiltererResult, FindResult } from '../types'
-import fs from 'node:fs'
+import type { HeuristicOptions } from '../heuristics'
+import type { LlmOptions, LlmProvider } from '../llm'
+import type { CiLogDigest, DetailedIssue, FilteredResult, FiltererResult, FindResult, LinkedPullRequest, TestIdentification } from '../types'
+import type { Cassette, CassetteOptions, CassetteSession } from '../utils/cassette'
+import type { ResultWriter } from '../utils/checkpoint'
+import type { OutputFormat } from '../utils/records'
+import type { AgentBudget } from './runtime'
+import { posix } from 'node:path'
 import process from 'node:process'
-import { text } from 'node:stream/consumers'
-import { setTimeout } from 'node:timers/promises'
 import * as z from 'zod'
-import { genAI, octokit } from '../clients'
+import { forgeOf, getForge } from '../forges'
+import { heuristicAnalysis, triageIssue } from '../heuristics'
+import { createLlmProvider } from '../llm'
 import { getLogger } from '../logger'
+import { classifyRootCause, countRootCauses, describeCategories } from '../taxonomy'
+import { createCiLogFunctions, fetchCiLogDigests } from '../tools/ci-logs'
 import { createExploreFunctions } from '../tools/explore'
-import { defineAiFunction, runAiFunction } from '../utils/defineAiFunction'
-
-const analyzeIssue = defineAiFunction({
+import { FindResultSchema, FlakinessCategorySchema } from '../types'
+import { createCassette, resolveLlmProvider, withCassetteTools } from '../utils/cassette'
+import { createResultWriter } from '../utils/checkpoint'
+import { extractFailingTests, extractLogExcerpt, findActionsUrls } from '../utils/logs'
+import { readRecords } from '../utils/records'
+import { mapConcurrent } from '../utils/scheduler'
+import { onShutdown } from '../utils/shutdown'
+import { runAgent } from './runtime'
+
+const analyzeIssue = {
   name: 'analyzeIssue',
   description: 'Analyze the GitHub issue to determine if it describes a genuine flaky test problem. Provide a structured assessment with confidence level and detailed reasoning.',
   parameters: z.object({
@@ -22,119 +37,161 @@ const analyzeIssue = defineAiFunction({
       framework: z.string().optional().describe('Test framework used'),
       ci: z.string().optional().describe('CI/CD system mentioned'),
       os: z.string().optional().describe('Operating system mentioned'),
+      testCommand: z.string().optional().describe('Command that runs the failing tests, if mentioned or found in the repository'),
     }).optional().describe('Extracted technical environment details'),
+    tests: z.array(z.object({
+      name: z.string().describe('Full name of the failing test as the test runner reports it'),
+      file: z.string().optional().describe('Path of the file declaring the test, relative to the repository root'),
+    })).optional().describe('The failing tests, as precisely as the issue allows'),
+    testFiles: z.array(z.string()).optional().describe('Other test files involved, relative to the repository root'),
+    errorSignature: z.string().optional().describe('The failing assertion or error message, without run-specific values such as timestamps or ids'),
+    failingRuns: z.array(z.string()).optional().describe('Links to CI runs or jobs where the test failed'),
+    suspectedCommit: z.string().optional().describe('SHA of the commit the failure was observed on or introduced by'),
+    rootCause: z.object({
+      category: FlakinessCategorySchema.describe('Suspected cause of the flakiness, unknown when the issue does not tell'),
+      quote: z.string().describe('Verbatim text from the issue, its comments or CI logs supporting the category'),
+    }).optional().describe('Root cause classification (only if it is a flaky test issue)'),
   }),
-  implementation: () => {
-    /* dummy implementation */
-  },
-})
+}
 
-// ---- Fetch detailed issue data ----
-async function fetchDetailedIssue({ url, stars }: FindResult): Promise<DetailedIssue | null> {
-  try {
-    // Extract owner, repo, and issue number from URL
-    const urlMatch = url.match(/github\.com\/([^/]+)\/([^/]+)\/issues\/(\d+)/)
-    if (!urlMatch) {
-      console.error(`Invalid GitHub issue URL: ${url}`)
-      return null
+const COMMIT_SHA = /^[\da-f]{7,40}$/i
+
+// ---- Validate the extracted test identification ----
+async function identifyTests(analysis: z.infer<typeof analyzeIssue.parameters>, listDir: ReturnType<typeof createExploreFunctions>['listDir']): Promise<TestIdentification | undefined> {
+  const { tests = [], testFiles = [], errorSignature, failingRuns = [], suspectedCommit } = analysis
+  const listings = new Map<string, Promise<string[]>>()
+  // Models readily make up plausible paths, so only paths found in their directory listing are kept
+  async function verify(path: string): Promise<string | undefined> {
+    const normalized = posix.normalize(path.replace(/^\/+/, ''))
+    const dir = posix.dirname(normalized)
+    let listing = listings.get(dir)
+    if (!listing) {
+      listing = Promise.resolve(listDir.implementation({ path: dir })).catch(() => [])
+      listings.set(dir, listing)
     }
+    return (await listing).includes(posix.basename(normalized)) ? normalized : undefined
+  }
 
-    const [, owner, repo, issueNumber] = urlMatch
-
-    // Fetch issue details
-    const issueResponse = await octokit.rest.issues.get({
-      owner,
-      repo,
-      issue_number: +issueNumber,
-    })
-
-    const issue = issueResponse.data
-
-    // Fetch comments
-    const commentsResponse = await octokit.rest.issues.listComments({
-      owner,
-      repo,
-      issue_number: +issueNumber,
-      per_page: 100,
-    })
+  const verifiedTests = []
+  for (const { name, file } of tests)
+    verifiedTests.push({ name, file: file && await verify(file) })
+  const files = new Set(verifiedTests.flatMap(test => test.file ?? []))
+  for (const file of testFiles) {
+    const verified = await verify(file)
+    if (verified)
+      files.add(verified)
+  }
 
-    // Fetch linked PRs (if any mentioned in the issue)
-    const linkedPRs: { title: string, url: string, merged: boolean }[] = []
+  const identification = {
+    tests: verifiedTests,
+    testFiles: [...files],
+    errorSignature: errorSignature || undefined,
+    failingRuns: failingRuns.filter(url => URL.canParse(url) && /^https?:/.test(url)),
+    suspectedCommit: suspectedCommit && COMMIT_SHA.test(suspectedCommit) ? suspectedCommit : undefined,
+  }
+  const empty = !identification.tests.length && !identification.testFiles.length && !identification.errorSignature
+    && !identification.failingRuns.length && !identification.suspectedCommit
+  return empty ? undefined : identification
+}
 
-    // Check for PR references in body and comments
-    const prReferences = new Set<string>()
-    if (issue.body) {
-      const prMatches = issue.body.match(/#(\d+)/g) || []
-      prMatches.forEach(match => prReferences.add(match.slice(1)))
-    }
+// ---- Describe a workflow job that failed and passed on the same commit ----
+function describeWorkflowJob(result: FindResult): DetailedIssue {
+  const sections = [
+    `This GitHub Actions job failed on commit ${result.commit}, and the same job passed on another attempt at the same commit: ${result.passedRunUrl}`,
+  ]
+  if (result.failingTests?.length)
+    sections.push(`Failing tests:\n${result.failingTests.map(test => `- ${test}`).join('\n')}`)
+  if (result.logExcerpt)
+    sections.push(`Log excerpt of the failed job:\n\`\`\`\n${result.logExcerpt}\n\`\`\``)
+  return { ...result, body: sections.join('\n\n'), commentsList: [], linkedPRs: [] }
+}
 
-    commentsResponse.data.forEach((comment) => {
-      if (comment.body) {
-        const prMatches = comment.body.match(/#(\d+)/g) || []
-        prMatches.forEach(match => prReferences.add(match.slice(1)))
-      }
-    })
+// ---- Describe a test that both passed and failed in local test reports ----
+function describeReportedTest(result: FindResult): DetailedIssue {
+  const { runs = 0, failures = 0 } = result.testStats ?? {}
+  const sections = [
+    `The test "${result.testId}"${result.file ? ` in ${result.file}` : ''} failed in ${failures} of ${runs} repeated runs${result.commit ? ` of commit ${result.commit}` : ''} and passed in the others, according to the project's test reports.`,
+  ]
+  for (const [i, message] of (result.failureMessages ?? []).entries())
+    sections.push(`Failure message ${i + 1}:\n\`\`\`\n${message}\n\`\`\``)
+  return { ...result, body: sections.join('\n\n'), commentsList: [], linkedPRs: [] }
+}
 
-    // Fetch PR details for referenced numbers
-    for (const prNumber of prReferences) {
-      try {
-        const prResponse = await octokit.rest.pulls.get({
-          owner,
-          repo,
-          pull_number: Number.parseInt(prNumber, 10),
-        })
-        linkedPRs.push({
-          title: prResponse.data.title,
-          url: prResponse.data.html_url,
-          merged: prResponse.data.merged || false,
-        })
-      }
-      catch {
-        // PR might not exist or be inaccessible, skip
-      }
-    }
+// ---- Fetch detailed issue data ----
+export async function fetchDetailedIssue(result: FindResult): Promise<DetailedIssue | null> {
+  // Workflow job and test report records already carry everything known about the failure
+  if (result.source === 'actions')
+    return describeWorkflowJob(result)
+  if (result.source === 'reports')
+    return describeReportedTest(result)
 
-    return {
-      title: issue.title,
-      url: issue.html_url,
-      repo: `${owner}/${repo}`,
-      stars,
-      comments: issue.comments,
-      reactions: issue.reactions?.total_count || 0,
-      created: issue.created_at,
-      body: issue.body || undefined,
-      commentsList: commentsResponse.data.map(comment => ({
-        body: comment.body || '',
-        author: comment.user?.login || 'unknown',
-        createdAt: comment.created_at,
-      })),
-      linkedPRs,
-    }
+  try {
+    const forge = await getForge(forgeOf(result))
+    const issue = await forge.fetchIssue(result)
+    return { ...issue, ciLogs: await fetchLinkedCiLogs(issue) }
   }
   catch (error) {
-    console.error(`Failed to fetch detailed issue data for ${url}:`, error)
+    console.error(`Failed to fetch detailed issue data for ${result.url}:`, error)
     return null
   }
 }
 
-// ---- Analyze issue with Gemini ----
-async function analyzeIssueWithGemini(detailedIssue: DetailedIssue): Promise<FiltererResult> {
+const MAX_LINKED_CI_LOGS = 3
+
+// Linked runs and jobs are evidence the model would otherwise only know from the reporter's summary
+async function fetchLinkedCiLogs(issue: DetailedIssue): Promise<CiLogDigest[] | undefined> {
   const logger = getLogger()
-  // Extract repo information for explore tools
-  const repoMatch = detailedIssue.url.match(/github\.com\/([^/]+)\/([^/]+)\/issues/)
-  if (!repoMatch) {
-    throw new Error(`Invalid GitHub URL: ${detailedIssue.url}`)
+  const text = [issue.body ?? '', ...issue.commentsList?.map(comment => comment.body) ?? []].join('\n')
+  const urls = findActionsUrls(text).slice(0, MAX_LINKED_CI_LOGS)
+  if (urls.length === 0)
+    return undefined
+
+  const digests: CiLogDigest[] = []
+  for (const url of urls) {
+    try {
+      digests.push(...await fetchCiLogDigests(url, forgeOf(issue)))
+    }
+    catch (error) {
+      // Logs expire after the repository's retention period
+      logger.debug(`Failed to fetch CI logs of ${url}: ${(error as Error).message}`)
+    }
   }
-  const [, owner, repo] = repoMatch
-  const repoName = `${owner}/${repo}`
+  return digests
+}
 
-  // Create explore functions for this repository
-  const { listDir, readFile } = createExploreFunctions(repoName)
+const MAX_COMMENT_LENGTH = 500
 
-  // AI functions available to the agent
-  const aiFunctions = [readFile, listDir, analyzeIssue]
-  const aiFunctionsMap = Object.fromEntries(aiFunctions.map(f => [f.declaration.name, f]))
-  const functionDeclarations = aiFunctions.map(f => f.declaration)
+function describeComment({ author, body }: { author: string, body: string }): string {
+  if (body.length <= MAX_COMMENT_LENGTH)
+    return `- **${author}**: ${body}`
+  // Pasted logs are cut off long before their failure, so show where the failure is instead
+  const failure = extractFailingTests(body).length ? `\n  Failure in the pasted log:\n\`\`\`\n${extractLogExcerpt(body, 20)}\n\`\`\`` : ''
+  return `- **${author}**: ${body.slice(0, MAX_COMMENT_LENGTH)}...${failure}`
+}
+
+function describeCiLog({ job, url, conclusion, failingTests, excerpt }: CiLogDigest): string {
+  const tests = failingTests.length ? `\nFailing tests: ${failingTests.join(', ')}` : ''
+  return `#### ${job} (${conclusion ?? 'unknown'}): ${url}${tests}\n\`\`\`\n${excerpt}\n\`\`\``
+}
+
+function describeLinkedPR(pr: LinkedPullRequest): string {
+  const facts: string[] = [pr.state]
+  if (pr.closes)
+    facts.push('closes this issue')
+  if (pr.mergeCommit)
+    facts.push(`merge commit ${pr.mergeCommit.slice(0, 7)}`)
+  const line = `- **${pr.title}** (${facts.join(', ')}): ${pr.url}`
+  return pr.changedTestFiles.length ? `${line}\n  Changed test files: ${pr.changedTestFiles.join(', ')}` : line
+}
+
+// ---- Analyze issue with the configured LLM ----
+async function analyzeIssueWithLlm(provider: LlmProvider, detailedIssue: DetailedIssue, budget: AgentBudget, session?: CassetteSession): Promise<FiltererResult> {
+  // Pull request and workflow job URLs don't follow the issue URL layout, so use the recorded repo
+  const repoName = detailedIssue.repo
+
+  // Create explore functions for this repository
+  const { listDir, readFile } = createExploreFunctions(repoName, forgeOf(detailedIssue))
+  const { readCiLog } = createCiLogFunctions(forgeOf(detailedIssue))
 
   const systemInstruction = `# Flaky Test Issue Analysis Agent
 
@@ -187,9 +244,16 @@ Use this systematic evaluation process:
   - Configuration problems (environment setup)
   - Performance issues (slow tests, not random failures)
 
+## Root Cause Taxonomy
+Classify the suspected cause of a flaky test into exactly one of these categories:
+${describeCategories()}
+
+Support the category with a verbatim quote, such as an error message, a reporter's observation or a maintainer's diagnosis. Choose unknown rather than guessing when nothing in the issue points to a cause.
+
 ## Available Tools
 - **readFile**: Read repository files to understand the project structure and test configuration
 - **listDir**: Explore directory structure to understand the project layout
+- **readCiLog**: Read the failure window of a linked CI run or job log, optionally around a specific test name
 - **analyzeIssue**: Finalize your analysis with a structured assessment
 
 ## Important Notes
@@ -207,194 +271,310 @@ ${detailedIssue.title}
 ${detailedIssue.body || 'No description provided'}
 
 ### Comments (${detailedIssue.commentsList?.length || 0})
-${detailedIssue.commentsList?.map(comment =>
-  `- **${comment.author}**: ${comment.body.slice(0, 500)}${comment.body.length > 500 ? '...' : ''}`,
-).join('\n') || 'No comments'}
+${detailedIssue.commentsList?.map(describeComment).join('\n') || 'No comments'}
+
+### CI Logs (${detailedIssue.ciLogs?.length || 0})
+${detailedIssue.ciLogs?.map(describeCiLog).join('\n\n') || 'No linked CI runs'}
 
 ### Linked Pull Requests (${detailedIssue.linkedPRs?.length || 0})
-${detailedIssue.linkedPRs?.map(pr =>
-  `- **${pr.title}** (${pr.merged ? 'merged' : 'open'})`,
-).join('\n') || 'No linked PRs'}
+${detailedIssue.linkedPRs?.map(describeLinkedPR).join('\n') || 'No linked PRs'}
 
 ## Instructions
 Analyze this GitHub issue to determine if it describes a genuine flaky test problem. You can use the readFile and listDir tools to explore the repository if you need more context about the project structure, test configuration, or CI setup.
 
 Work through the evaluation checklist systematically and use the analyzeIssue tool when you have completed your assessment.
 
+If it is a flaky test issue, report the failing tests, their files, the error signature, failing CI runs and the suspected commit as precisely as the issue allows, and classify its root cause. Look up test files with listDir when the issue only names a test, paths that don't exist in the repository are discarded.
+
 Begin by examining the issue content and determining if you need additional repository information.`
 
-  const contents = [{ role: 'user', parts: [{ text: initialPrompt }] }] as any[]
-
-  // Multiple interactions - allow AI to make multiple rounds of tool calls
-  const maxIterations = 10
-  for (let i = 0; i < maxIterations; i++) {
-    const response = await genAI.models.generateContent({
-      model: 'gemini-2.5-pro',
-      contents,
-      config: {
-        tools: [{ functionDeclarations }],
-        systemInstruction,
-      },
-    })
+  const { result, stopReason, iterations } = await runAgent({
+    provider,
+    system: systemInstruction,
+    prompt: initialPrompt,
+    tools: [readFile, listDir, readCiLog],
+    finalAnswer: analyzeIssue,
+    budget,
+    session,
+  })
+
+  if (!result) {
+    throw new Error(`AI completed analysis without calling analyzeIssue (${stopReason} after ${iterations} iterations)`)
+  }
 
-    const functionCalls = response.functionCalls || []
-    if (functionCalls.length === 0) {
-      logger.debug('Agent responded without making a function call:', response.text)
-      break
-    }
+  return {
+    isFlakyTestIssue: result.isFlakyTestIssue,
+    confidence: result.confidence,
+    summary: result.summary,
+    reasoning: result.reasoning,
+    environment: result.environment,
+    // Verified like the model's own exploration, so replays see the same listings
+    identification: await identifyTests(result, withCassetteTools({ listDir }, session).listDir),
+    rootCause: result.isFlakyTestIssue ? result.rootCause : undefined,
+  }
+}
 
-    // Process function calls until analyzeIssue is called
-    for (const call of functionCalls) {
-      const { name, args } = call
-
-      if (name === 'analyzeIssue') {
-        // This is the final result
-        const resultArgs = args as {
-          isFlakyTestIssue: boolean
-          confidence: number
-          summary?: string
-          reasoning: string
-          environment?: {
-            language?: string
-            framework?: string
-            ci?: string
-            os?: string
-          }
-        }
-        return {
-          isFlakyTestIssue: resultArgs.isFlakyTestIssue,
-          confidence: resultArgs.confidence,
-          summary: resultArgs.summary,
-          reasoning: resultArgs.reasoning,
-          environment: resultArgs.environment,
-        }
-      }
+// ---- Self-consistency voting ----
+export interface VotingOptions {
+  /** Classifications per issue */
+  votes: number
+  /** Providers and models taking turns across the votes, the configured provider when empty */
+  models?: Pick<LlmOptions, 'provider' | 'model'>[]
+  /** Sampling temperatures taking turns across the votes */
+  temperatures?: number[]
+}
 
-      // Execute other tools
-      logger.debug(`🔧 Agent calling tool: ${name} with args:`, args)
-      let result: any
-      try {
-        if (!name) {
-          throw new Error('Function call missing name')
-        }
-        result = await runAiFunction(aiFunctionsMap, name, args)
-        logger.debug(`✅ Tool ${name} completed successfully`)
-      }
-      catch (error) {
-        result = `Error: ${(error as Error).message}`
-        logger.debug(`❌ Tool ${name} failed: ${(error as Error).message}`)
-      }
+interface Ballot {
+  voter: LlmProvider
+  analysis: FiltererResult
+}
 
-      // Add the tool call and result to conversation
-      contents.push(
-        { role: 'model', parts: [{ functionCall: { name, args } }] },
-        { role: 'user', parts: [{ functionResponse: { name, response: { output: result } } }] },
-      )
-    }
+type VotedResult = FiltererResult & Pick<FilteredResult, 'votes' | 'needsReview'>
+
+function resolveVoters(llm: LlmOptions, { votes, models = [], temperatures = [] }: VotingOptions, cassette?: Cassette): LlmProvider[] {
+  return Array.from({ length: votes }, (_, i) => {
+    const voter = { ...models[i % models.length], temperature: temperatures[i % temperatures.length] }
+    // Only the configured provider is stored in cassettes, so replayed votes are told who cast them
+    return cassette?.mode === 'replay' ? cassette.replayProvider(voter) : createLlmProvider({ ...llm, ...voter })
+  })
+}
+
+/** The majority decision, with the share of votes agreeing with it as confidence */
+function tallyVotes(ballots: Ballot[]): VotedResult {
+  const flaky = ballots.filter(ballot => ballot.analysis.isFlakyTestIssue).length
+  // Ties are resolved conservatively, like the model is asked to classify
+  const isFlakyTestIssue = flaky > ballots.length - flaky
+  const majority = ballots.filter(ballot => ballot.analysis.isFlakyTestIssue === isFlakyTestIssue)
+  // The most confident agreeing vote explains the decision
+  const { analysis } = majority.reduce((best, ballot) => ballot.analysis.confidence > best.analysis.confidence ? ballot : best)
+  return {
+    ...analysis,
+    confidence: Math.round(100 * majority.length / ballots.length),
+    votes: ballots.map(({ voter, analysis }) => ({
+      provider: voter.name,
+      model: voter.model,
+      temperature: voter.temperature,
+      isFlakyTestIssue: analysis.isFlakyTestIssue,
+      confidence: analysis.confidence,
+      reasoning: analysis.reasoning,
+    })),
+    needsReview: majority.length < ballots.length,
   }
+}
 
-  // If we get here, analyzeIssue was never called within max iterations
-  throw new Error(`AI completed analysis without calling analyzeIssue after ${maxIterations} iterations`)
+// Votes are cast one after another, so cassettes record them in a stable order
+async function voteOnIssue(voters: LlmProvider[], detailedIssue: DetailedIssue, tag: string, budget: AgentBudget, session?: CassetteSession): Promise<VotedResult> {
+  const logger = getLogger()
+  const ballots: Ballot[] = []
+  for (const [i, voter] of voters.entries()) {
+    const temperature = voter.temperature === undefined ? '' : `, temperature ${voter.temperature}`
+    logger.info(`${tag} 🗳️  Vote ${i + 1}/${voters.length} with ${voter.name} (${voter.model}${temperature})...`)
+    try {
+      const analysis = await analyzeIssueWithLlm(voter, detailedIssue, budget, session)
+      logger.info(`${tag} ${analysis.isFlakyTestIssue ? '✅' : '❌'} Vote ${i + 1}: ${analysis.isFlakyTestIssue ? 'flaky' : 'not flaky'} (${analysis.confidence}% confidence)`)
+      ballots.push({ voter, analysis })
+    }
+    catch (error) {
+      logger.warn(`${tag} ⚠️  Vote ${i + 1} failed: ${(error as Error).message}`)
+    }
+  }
+  if (ballots.length === 0) {
+    throw new Error(`All ${voters.length} votes failed`)
+  }
+  return tallyVotes(ballots)
 }
 
 // ---- Main filter function ----
-export async function filterFlakyTestIssues(results: FindResult[]): Promise<FilteredResult[]> {
+export interface FilterOptions {
+  budget?: AgentBudget
+  cassette?: Cassette
+  /** Number of issues analyzed in parallel */
+  concurrency?: number
+  heuristics?: HeuristicOptions
+  /** Providers casting one vote each on every issue, instead of a single analysis by the provider */
+  voters?: LlmProvider[]
+  /** Looks up the details of an issue instead of fetching them, e.g. from saved fixtures */
+  fetchIssue?: (result: FindResult) => Promise<DetailedIssue | null>
+}
+
+async function filterIssue(result: FindResult, tag: string, provider: LlmProvider | undefined, options: FilterOptions & { budget: AgentBudget }): Promise<FilteredResult | null> {
   const logger = getLogger()
-  const filteredResults: FilteredResult[] = []
+  const { budget, cassette, heuristics, voters, fetchIssue = fetchDetailedIssue } = options
+  logger.info(`\n${tag} Analyzing: ${result.title}`)
+  logger.info(`${tag} URL: ${result.url}`)
 
-  logger.info(`\n🔍 Starting to filter ${results.length} issues with AI analysis...`)
+  // Conversations are recorded per issue so replays don't depend on processing order
+  const session = cassette?.session(result.url)
 
-  for (let i = 0; i < results.length; i++) {
-    const result = results[i]
+  // Fetch detailed issue data
+  const detailedIssue = session
+    ? await session.intercept('fixture', 'fetchDetailedIssue', result, () => fetchIssue(result))
+    : await fetchIssue(result)
 
-    logger.info(`\n[${i + 1}/${results.length}] Analyzing: ${result.title}`)
-    logger.info(`URL: ${result.url}`)
+  if (!detailedIssue) {
+    logger.warn(`${tag} ❌ Failed to fetch detailed issue data, skipping...`)
+    return null
+  }
 
-    // Fetch detailed issue data
-    const detailedIssue = await fetchDetailedIssue(result)
+  // Obvious false positives and, when configured, obvious flaky tests don't need the LLM
+  const heuristicOptions = { ...heuristics, only: heuristics?.only || !provider }
+  const heuristic = triageIssue(detailedIssue, heuristicOptions)
+  logger.info(`${tag} 🧮 Heuristic score ${heuristic.score}: ${heuristic.reasons.join(', ') || 'no signals'}`)
+
+  let analysis: VotedResult
+  if (!provider || heuristic.decision !== 'undecided') {
+    analysis = heuristicAnalysis(heuristic, heuristicOptions)
+    // Without the model's reading of the issue, its wording is the best hint at the cause
+    if (analysis.isFlakyTestIssue)
+      analysis.rootCause = classifyRootCause(detailedIssue)
+  }
+  else if (voters && voters.length > 1) {
+    analysis = await voteOnIssue(voters, detailedIssue, tag, budget, session)
+    cassette?.save()
+  }
+  else {
+    // Analyze with the configured LLM
+    logger.info(`${tag} 🤖 Analyzing with ${provider.name} (${provider.model})...`)
+    analysis = await analyzeIssueWithLlm(provider, detailedIssue, budget, session)
+    cassette?.save()
+  }
 
-    if (!detailedIssue) {
-      logger.warn('❌ Failed to fetch detailed issue data, skipping...')
-      continue
-    }
+  const status = analysis.isFlakyTestIssue ? '✅' : '❌'
+  logger.info(`${tag} ${status} ${analysis.isFlakyTestIssue ? 'Flaky test issue' : 'Not a flaky test issue'} (${analysis.confidence}% confidence)`)
+  logger.info(`${tag} Reasoning: ${analysis.reasoning}`)
+  if (analysis.summary) {
+    logger.info(`${tag} Summary: ${analysis.summary}`)
+  }
+  if (analysis.rootCause) {
+    logger.info(`${tag} Suspected cause: ${analysis.rootCause.category} ("${analysis.rootCause.quote}")`)
+  }
+  if (analysis.needsReview) {
+    logger.warn(`${tag} 👀 The votes disagree, flagged for human review`)
+  }
 
-    // Analyze with Gemini
-    logger.info('🤖 Analyzing with Gemini AI...')
+  return {
+    ...result,
+    isFlakyTestIssue: analysis.isFlakyTestIssue,
+    confidence: analysis.confidence,
+    summary: analysis.summary,
+    reasoning: analysis.reasoning,
+    environment: analysis.environment,
+    identification: analysis.identification,
+    rootCause: analysis.rootCause,
+    heuristic,
+    votes: analysis.votes,
+    needsReview: analysis.needsReview,
+  }
+}
 
-    const analysis = await analyzeIssueWithGemini(detailedIssue)
+// Yields each result as soon as its issue has been analyzed, so callers can stream or checkpoint
+// results while other issues are still running. Without a provider every issue is decided by its heuristic score
+export async function* filterFlakyTestIssues(results: Iterable<FindResult> | AsyncIterable<FindResult>, provider: LlmProvider | undefined, options: FilterOptions = {}): AsyncGenerator<FilteredResult> {
+  const logger = getLogger()
+  const { budget = { maxIterations: 10 }, cassette, concurrency = 1 } = options
+  const filteredResults: FilteredResult[] = []
+  const total = Array.isArray(results) ? results.length : undefined
 
-    const filteredResult: FilteredResult = {
-      ...result,
-      isFlakyTestIssue: analysis.isFlakyTestIssue,
-      confidence: analysis.confidence,
-      summary: analysis.summary,
-      reasoning: analysis.reasoning,
-      environment: analysis.environment,
-    }
+  logger.info(`\n🔍 Starting to filter ${total ?? 'incoming'} issues with ${provider ? 'AI analysis' : 'heuristics only'}...`)
 
+  const analyzed = mapConcurrent(results, concurrency, (result, i) => {
+    const tag = `[${total ? `${i + 1}/${total}` : i + 1}]`
+    return filterIssue(result, tag, provider, { ...options, budget })
+  })
+  for await (const filteredResult of analyzed) {
+    if (!filteredResult)
+      continue
     filteredResults.push(filteredResult)
-
-    const status = analysis.isFlakyTestIssue ? '✅' : '❌'
-    logger.info(`${status} ${analysis.isFlakyTestIssue ? 'Flaky test issue' : 'Not a flaky test issue'} (${analysis.confidence}% confidence)`)
-    logger.info(`Reasoning: ${analysis.reasoning}`)
-    if (analysis.summary) {
-      logger.info(`Summary: ${analysis.summary}`)
-    }
-
-    await setTimeout(1000)
+    yield filteredResult
   }
 
+  cassette?.save()
+
   const genuineFlakyIssues = filteredResults.filter(r => r.isFlakyTestIssue)
   logger.info(`\n📊 Filter Results:`)
   logger.info(`Total issues analyzed: ${filteredResults.length}`)
   logger.info(`Genuine flaky test issues: ${genuineFlakyIssues.length}`)
   logger.info(`False positives: ${filteredResults.length - genuineFlakyIssues.length}`)
-
-  return filteredResults
+  const decided = filteredResults.filter(r => r.heuristic?.decision !== 'undecided').length
+  logger.info(`Decided by heuristics without the LLM: ${decided}`)
+  if (filteredResults.some(r => r.votes)) {
+    logger.info(`Flagged for human review: ${filteredResults.filter(r => r.needsReview).length}`)
+  }
 }
 
 // ---- CLI integration ----
-export async function runFilterAgent(inputFile?: string, outputFile?: string): Promise<void> {
-  const logger = getLogger()
-  try {
-    // Read input data
-    let rawData: string
-    if (inputFile) {
-      rawData = fs.readFileSync(inputFile, 'utf-8')
-    }
-    else {
-      // Read from stdin
-      rawData = await text(process.stdin)
-    }
-
-    const results: FindResult[] = JSON.parse(rawData)
+export interface FilterAgentOptions {
+  llm?: LlmOptions
+  budget?: AgentBudget
+  cassette?: CassetteOptions
+  /** Skip issues already present in the output file */
+  resume?: boolean
+  /** Output format, `ndjson` streams one result per line as soon as it is ready */
+  format?: OutputFormat
+  /** Number of issues analyzed in parallel */
+  concurrency?: number
+  heuristics?: HeuristicOptions
+  voting?: VotingOptions
+}
 
-    if (results.length === 0) {
-      logger.info('No issues to filter.')
-      return
-    }
+/** The cassette, provider and voters configured by the options, no provider when deciding by heuristics only */
+export function resolveFilterProviders(options: Pick<FilterAgentOptions, 'llm' | 'cassette' | 'heuristics' | 'voting'>): { cassette?: Cassette, provider?: LlmProvider, voters?: LlmProvider[] } {
+  const { llm = { provider: 'gemini' } } = options
+  const cassette = options.cassette && createCassette(options.cassette)
+  const provider = options.heuristics?.only ? undefined : resolveLlmProvider(llm, cassette)
+  const voters = provider && options.voting && options.voting.votes > 1 ? resolveVoters(llm, options.voting, cassette) : undefined
+  return { cassette, provider, voters }
+}
 
-    if (inputFile && outputFile) {
-      logger.info(`Loaded ${results.length} issues from ${inputFile}`)
-    }
-    else if (!inputFile && outputFile) {
-      // Only show stdin message when writing to file (not when piping)
-      logger.info(`Loaded ${results.length} issues from stdin`)
+/** Filters the issues of the input file into the output file, rethrowing failures after flushing the results so far */
+export async function runFilter(inputFile?: string, outputFile?: string, options: FilterAgentOptions = {}): Promise<void> {
+  const logger = getLogger()
+  let writer: ResultWriter<FilteredResult> | undefined
+  let disposeShutdown: (() => void) | undefined
+  try {
+    // Every analyzed issue is written out immediately so an interrupted run only loses the issues still being analyzed
+    const resultWriter = writer = createResultWriter<FilteredResult>({ outputFile, keyOf: r => r.url, resume: options.resume, format: options.format })
+
+    const { cassette, provider, voters } = resolveFilterProviders(options)
+
+    // Issues are consumed as they arrive, e.g. while `flaki find` is still searching
+    let skipped = 0
+    async function* pendingIssues(): AsyncGenerator<FindResult> {
+      for await (const result of readRecords<FindResult>(inputFile)) {
+        const validation = FindResultSchema.safeParse(result)
+        if (!validation.success) {
+          throw new Error(`Invalid FindResult: ${validation.error.message}`)
+        }
+        if (resultWriter.has(result.url)) {
+          skipped++
+          continue
+        }
+        // Issues finish out of order when analyzed concurrently, the output keeps the input order
+        resultWriter.reserve(result.url)
+        yield result
+      }
     }
 
-    const filteredResults = await filterFlakyTestIssues(results)
+    disposeShutdown = onShutdown(() => {
+      resultWriter.close()
+      cassette?.save()
+    })
+    for await (const filteredResult of filterFlakyTestIssues(pendingIssues(), provider, { budget: options.budget, cassette, concurrency: options.concurrency, heuristics: options.heuristics, voters }))
+      resultWriter.write(filteredResult)
+    disposeShutdown()
 
     // Output filtered results
-    const outputData = JSON.stringify(filteredResults, null, 2)
-    const outputStream = outputFile ? fs.createWriteStream(outputFile) : process.stdout
-
-    outputStream.write(outputData)
+    resultWriter.close()
+    if (skipped > 0) {
+      logger.info(`⏭️  Resumed: skipped ${skipped} already analyzed issues`)
+    }
     if (outputFile) {
-      outputStream.end()
       logger.info(`\n✅ Filtered results saved to ${outputFile}`)
     }
-    else {
-      outputStream.write('\n')
+    const filteredResults = resultWriter.results
+    if (filteredResults.length === 0) {
+      logger.info('No issues to filter.')
+      return
     }
 
     // Display summary to stderr when outputting JSON to stdout
@@ -404,6 +584,12 @@ export async function runFilterAgent(inputFile?: string, outputFile?: string): P
     logger.info(`- Total issues analyzed: ${filteredResults.length}`)
     logger.info(`- Genuine flaky test issues: ${genuineIssues.length}`)
     logger.info(`- Filtered out: ${filteredResults.length - genuineIssues.length}`)
+    const causes = countRootCauses(genuineIssues)
+    if (causes.length > 0) {
+      logger.info(`\n🧬 Suspected causes:`)
+      for (const [category, count] of causes)
+        logger.info(`- ${category}: ${count}`)
+    }
 
     if (genuineIssues.length > 0) {
       logger.info(`\n🎯 Top genuine flaky test issues:`)
@@ -420,7 +606,18 @@ export async function runFilterAgent(inputFile?: string, outputFile?: string): P
     }
   }
   catch (error) {
-    logger.error('Failed to run filter agent:', error)
+    disposeShutdown?.()
+    writer?.close()
+    throw error
+  }
+}
+
+export async function runFilterAgent(inputFile?: string, outputFile?: string, options: FilterAgentOptions = {}): Promise<void> {
+  try {
+    await runFilter(inputFile, outputFile, options)
+  }
+  catch (error) {
+    getLogger().error('Failed to run filter agent:', error)
     process.exit(1)
   }
 }
@@ -1,15 +1,24 @@
-import type { ContentListUnion, FunctionDeclaration } from '@google/genai'
-import type { FilteredResult } from '../types'
-import fs from 'node:fs'
-import process, { stdin } from 'node:process'
-import { text } from 'node:stream/consumers'
+import type { LlmOptions, LlmProvider } from '../llm'
+import type { ContainerConstraints, FilteredResult, PolluterSearch, RepeatedRunStats, ShuffledRuns } from '../types'
+import type { Cassette, CassetteOptions } from '../utils/cassette'
+import type { OutputFormat } from '../utils/records'
+import type { Verification, VerifyOptions } from '../verify'
+import type { AgentBudget, AgentStopReason, AgentTranscript, ToolCallRecord } from './runtime'
 import z from 'zod'
-import { genAI } from '../clients'
+import { forgeOf } from '../forges'
 import { getLogger } from '../logger'
-import { createDockerFunctions } from '../tools/docker'
+import { FLAKINESS_CATEGORIES } from '../taxonomy'
+import { createDockerFunctions, describeConstraints } from '../tools/docker'
 import { createExploreFunctions } from '../tools/explore'
+import { createOrderFunctions } from '../tools/order'
 import { FilteredResultSchema } from '../types'
-import { defineAiFunction, runAiFunction } from '../utils/defineAiFunction'
+import { createCassette, resolveLlmProvider, withCassetteTools } from '../utils/cassette'
+import { createResultWriter } from '../utils/checkpoint'
+import { readRecords } from '../utils/records'
+import { mapConcurrent } from '../utils/scheduler'
+import { onShutdown } from '../utils/shutdown'
+import { verifyReproduction } from '../verify'
+import { runAgent } from './runtime'
 
 const reproductionResultSchema = z.object({
   status: z.enum(['success', 'failure']).describe('The status of the reproduction attempt.'),
@@ -18,104 +27,188 @@ const reproductionResultSchema = z.object({
   reproductionSteps: z.string().array().optional().describe('A list of commands that reliably reproduce the flaky test behavior.'),
 })
 
-type ReproductionResult = z.infer<typeof reproductionResultSchema>
+type ReproductionResult = z.infer<typeof reproductionResultSchema> & {
+  /** The measurement backing the result, the last one that saw the test both pass and fail if any */
+  statistics?: RepeatedRunStats
+  /** Constraints of the container the backing measurement was taken in */
+  constraints?: ContainerConstraints
+}
+
+export interface ReproductionOutput {
+  issue: FilteredResult
+  maxIterations: number
+  reproductionResult: ReproductionResult | null
+  /** Every runRepeated measurement of the attempt, in order */
+  measurements: RepeatedRunStats[]
+  /** Every runShuffled experiment, with the seeds of the failing orders */
+  shuffles: ShuffledRuns[]
+  /** Every findPolluter search */
+  polluterSearches: PolluterSearch[]
+  /** Replay of a successful reproduction without the LLM */
+  verification?: Verification
+  stopReason: AgentStopReason
+  usage: AgentTranscript<ReproductionResult>['usage']
+  functionCallHistory: ToolCallRecord[]
+  agentResponses: { iteration: number, text: string }[]
+}
 
-const report = defineAiFunction({
+const report = {
   name: 'report',
   description: 'Report the status and findings of the reproduction attempt, you should NOT call this function until you have concluded that the reproduction process have succeeded or failed. The reason field should include a detailed explanation of the findings, including steps taken, observations, and any relevant logs or error messages. If you were able to create a Dockerfile that reliably reproduces the flaky test behavior, include it in the dockerFile field. If you have identified specific commands that can reproduce the flaky behavior, list them in the reproductionSteps field. If the reproduction was unsuccessful, clearly state the reasons and any obstacles encountered.',
   parameters: reproductionResultSchema,
-  implementation: () => {
-    /* dummy implementation */
-  },
-})
+}
 
-export async function runReproducerAgent(inputFile?: string, maxIterations: number = 50, outputFile?: string, force: boolean = false): Promise<void> {
-  const logger = getLogger()
-  // Read and validate input data
-  let rawData: string
-  if (inputFile) {
-    rawData = fs.readFileSync(inputFile, 'utf-8')
-  }
-  else {
-    rawData = await text(stdin)
-  }
+export interface ReproducerAgentOptions {
+  llm?: LlmOptions
+  budget?: Omit<AgentBudget, 'maxIterations'>
+  cassette?: CassetteOptions
+  /** Skip issues already present in the output file */
+  resume?: boolean
+  /** Output format, `ndjson` streams one result per line as soon as it is ready */
+  format?: OutputFormat
+  /** Number of issues reproduced in parallel */
+  concurrency?: number
+  /** Replay successful reproductions to verify them, false to skip */
+  verify?: VerifyOptions | false
+  /** Constraints of every reproduction container, unless the agent requests others */
+  constraints?: ContainerConstraints
+}
 
-  const parsedData = JSON.parse(rawData)
+export async function runReproducerAgent(inputFile?: string, maxIterations: number = 50, outputFile?: string, force: boolean = false, options: ReproducerAgentOptions = {}): Promise<void> {
+  const logger = getLogger()
+  const { llm = { provider: 'gemini' } } = options
+  const cassette = options.cassette && createCassette(options.cassette)
+  const provider = resolveLlmProvider(llm, cassette)
+  // Replayed reproductions never built their image, so they are verified separately with `flaki verify`
+  const verify = options.verify === false || cassette?.mode === 'replay' ? undefined : options.verify ?? {}
+
+  // Every reproduction is written out immediately so an interrupted run keeps finished issues
+  const writer = createResultWriter<ReproductionOutput>({ outputFile, keyOf: r => r.issue.url, resume: options.resume, format: options.format })
+  const disposeShutdown = onShutdown(() => {
+    writer.close()
+    cassette?.save()
+  })
+
+  // Skipped issues are filtered out up front so they don't take up a concurrency slot
+  async function* candidates(): AsyncGenerator<{ result: FilteredResult, index: number }> {
+    let index = 0
+    for await (const result of readRecords<FilteredResult>(inputFile)) {
+      index++
+      const validation = FilteredResultSchema.safeParse(result)
+      if (!validation.success) {
+        throw new Error(`Invalid FilteredResult: ${validation.error.message}`)
+      }
 
-  // Handle both single FilteredResult and array of FilteredResult
-  const filteredResults: FilteredResult[] = Array.isArray(parsedData) ? parsedData : [parsedData]
+      if (writer.has(result.url)) {
+        logger.info(`⏭️  Skipping issue ${index}: ${result.title} (already reproduced)`)
+        continue
+      }
 
-  const finalOutput: {
-    issue: FilteredResult
-    maxIterations: number
-    reproductionResult: ReproductionResult | null
-    functionCallHistory: { name: string, args: any, result: any, key: 'error' | 'output' }[]
-    agentResponses: { iteration: number, text: string }[]
-  }[] = []
+      // Skip issues that were determined not to be flaky tests unless force is enabled
+      if (!result.isFlakyTestIssue && !force) {
+        logger.info(`⏭️  Skipping issue ${index}: ${result.title} (not determined to be a flaky test)`)
+        continue
+      }
 
-  // Validate each result using the schema
-  for (const result of filteredResults) {
-    const validation = FilteredResultSchema.safeParse(result)
-    if (!validation.success) {
-      throw new Error(`Invalid FilteredResult: ${validation.error.message}`)
+      writer.reserve(result.url)
+      yield { result, index }
     }
   }
 
-  // Process each issue one by one
-  for (let i = 0; i < filteredResults.length; i++) {
-    const result = filteredResults[i]
-
-    // Skip issues that were determined not to be flaky tests unless force is enabled
-    if (!result.isFlakyTestIssue && !force) {
-      logger.info(`⏭️  Skipping issue ${i + 1}/${filteredResults.length}: ${result.title} (not determined to be a flaky test)`)
-      continue
-    }
-
-    if (filteredResults.length > 1) {
-      logger.info(`\n🔄 Processing issue ${i + 1}/${filteredResults.length}: ${result.title}`)
-    }
-
-    const { finalResult, functionCallHistory, agentResponses } = await reproduceWithGemini(result, maxIterations)
-
-    const output = {
-      issue: result,
-      maxIterations,
-      reproductionResult: finalResult,
-      functionCallHistory,
-      agentResponses,
-    }
-    finalOutput.push(output)
+  try {
+    // Issues are reproduced as they are read, results are written as they finish and put back in input order on close
+    const reproductions = mapConcurrent(candidates(), options.concurrency ?? 1, async ({ result, index }) => {
+      logger.info(`\n🔄 Processing issue ${index}: ${result.title}`)
+      const output = await reproduceIssue(provider, result, { ...options.budget, maxIterations }, cassette, verify, options.constraints)
+      cassette?.save()
+      return output
+    })
+    for await (const output of reproductions)
+      writer.write(output)
+  }
+  finally {
+    // Also flushes partial results when a reproduction throws
+    disposeShutdown()
+    writer.close()
   }
 
-  // Output the result as JSON
-  const outputStream = outputFile ? fs.createWriteStream(outputFile) : process.stdout
-
-  outputStream.write(JSON.stringify(finalOutput, null, 2))
   if (outputFile) {
-    outputStream.end()
     logger.info(`\n✅ Reproduction results saved to ${outputFile}`)
   }
-  else {
-    outputStream.write('\n')
+}
+
+/** Success stands only when a measurement saw the test both pass and fail, rather than on the model's word */
+export function confirmReproduction(result: ReproductionResult | null, measurements: RepeatedRunStats[]): ReproductionResult | null {
+  if (!result)
+    return null
+  const flaky = measurements.filter(stats => stats.passed > 0 && stats.failed > 0)
+  const statistics = flaky.at(-1) ?? measurements.at(-1)
+  const constraints = statistics?.constraints
+  if (result.status === 'success' && flaky.length === 0) {
+    getLogger().warn(`⚠️  Reported success is not backed by a measurement that saw the test both pass and fail`)
+    return { ...result, status: 'failure', reason: `Unconfirmed: no runRepeated measurement saw the test both pass and fail. ${result.reason}`, statistics, constraints }
   }
+  return { ...result, statistics, constraints }
 }
 
-export async function reproduceWithGemini(filteredResult: FilteredResult, maxIterations: number = 50): Promise<{
-  finalResult: {
-    status: 'success' | 'failure'
-    reason: string
-    dockerFile?: string
-    reproductionSteps?: string[]
-  } | null
-  functionCallHistory: { name: string, args: any, result: any, key: 'error' | 'output' }[]
-  agentResponses: { iteration: number, text: string }[]
-}> {
+export async function reproduceIssue(provider: LlmProvider, issue: FilteredResult, budget: AgentBudget, cassette?: Cassette, verify?: VerifyOptions, constraints?: ContainerConstraints): Promise<ReproductionOutput> {
+  const transcript = await reproduceWithLlm(provider, issue, budget, cassette, constraints)
+  const outputsOf = (name: string) => transcript.toolCalls
+    .filter(call => call.name === name && call.key === 'output')
+    .map(call => call.result)
+  const measurements = outputsOf('runRepeated') as RepeatedRunStats[]
+  const output: ReproductionOutput = {
+    issue,
+    maxIterations: budget.maxIterations,
+    reproductionResult: confirmReproduction(transcript.result, measurements),
+    measurements,
+    shuffles: outputsOf('runShuffled') as ShuffledRuns[],
+    polluterSearches: outputsOf('findPolluter') as PolluterSearch[],
+    stopReason: transcript.stopReason,
+    usage: transcript.usage,
+    functionCallHistory: transcript.toolCalls,
+    agentResponses: transcript.responses,
+  }
+  if (verify && output.reproductionResult?.status === 'success') {
+    output.verification = await verifyReproduction(output, verify)
+  }
+  return output
+}
+
+// Workflow job records know the exact commit and tests that failed
+function describeFailure({ commit, failingTests, identification, rootCause }: FilteredResult): string {
+  const lines = []
+  if (commit)
+    lines.push(`**Failing commit**: ${commit} (check it out before running the tests)`)
+  else if (identification?.suspectedCommit)
+    lines.push(`**Suspected commit**: ${identification.suspectedCommit}`)
+  // Tests identified by the filter have their files verified to exist, so target them directly
+  const tests = failingTests?.length
+    ? failingTests
+    : identification?.tests.map(({ name, file }) => file ? `${name} (in ${file})` : name) ?? []
+  if (tests.length)
+    lines.push(`**Failing tests** (run these specifically rather than the whole suite):\n${tests.map(test => `- ${test}`).join('\n')}`)
+  if (identification?.testFiles.length)
+    lines.push(`**Test files**: ${identification.testFiles.join(', ')}`)
+  if (identification?.errorSignature)
+    lines.push(`**Error signature**: ${identification.errorSignature}`)
+  if (identification?.failingRuns.length)
+    lines.push(`**Failing runs**:\n${identification.failingRuns.map(url => `- ${url}`).join('\n')}`)
+  // The suspected cause decides how to provoke the failure, rather than rerunning the test as is
+  if (rootCause) {
+    lines.push(`**Suspected cause**: ${rootCause.category} ("${rootCause.quote}")`)
+    lines.push(`**Reproduction strategy**: ${FLAKINESS_CATEGORIES[rootCause.category].strategy}`)
+  }
+  return lines.length > 0 ? `${lines.join('\n')}\n` : ''
+}
+
+export async function reproduceWithLlm(provider: LlmProvider, filteredResult: FilteredResult, budget: AgentBudget = { maxIterations: 50 }, cassette?: Cassette, constraints?: ContainerConstraints): Promise<AgentTranscript<ReproductionResult>> {
   const logger = getLogger()
-  const { listDir, readFile } = createExploreFunctions(filteredResult.repo)
-  const { buildImage, createContainer, executeCommand } = createDockerFunctions(filteredResult.repo)
-  const aiFunctions = [readFile, listDir, buildImage, createContainer, executeCommand, report]
-  const aiFunctionsMap = Object.fromEntries(aiFunctions.map(f => [f.declaration.name, f]))
-  const functionDeclarations: FunctionDeclaration[] = aiFunctions.map(f => f.declaration)
+  const session = cassette?.session(filteredResult.url)
+  const forge = forgeOf(filteredResult)
+  const { listDir, readFile } = createExploreFunctions(filteredResult.repo, forge)
+  const { buildImage, createContainer, executeCommand, runRepeated, runCommand, cleanup } = createDockerFunctions(filteredResult.repo, forge, constraints)
+  const { runShuffled, findPolluter } = createOrderFunctions(runCommand)
 
   const systemInstruction = `# Flaky Test Reproducer Agent
 
@@ -134,8 +227,11 @@ Given a GitHub issue about flaky tests, you need to:
 - **readFile**: Read repository files to understand build configuration, test setup, and dependencies
 - **listDir**: Explore directory structure to understand project layout
 - **buildImage**: Create Docker images with proper Node.js/Python/Java environments
-- **createContainer**: Set up containers with the repository already cloned and ready for testing
-- **executeCommand**: Run build commands, test suites, and debugging operations
+- **createContainer**: Set up containers with the repository already cloned and ready for testing, optionally with limited CPUs, memory, processes or network and with background CPU/IO stress
+- **executeCommand**: Run build commands, test suites, and debugging operations, returning the exit code, stdout and stderr; pass a timeout when a test may hang
+- **runRepeated**: Run the flaky test command many times and measure its flake rate, durations and distinct failures
+- **runShuffled**: Run the tests in random orders with the framework's shuffling and record the seeds of the failing orders
+- **findPolluter**: Narrow down the tests that make a test fail when they run before it, down to a polluting test or the smallest set of them
 - **report**: Finalize the reproduction attempt with status, findings, and reproduction details (call this only when reproduction is complete)
 
 ## Step-by-Step Process
@@ -157,12 +253,14 @@ Follow this systematic approach:
 ### Phase 3: Test Execution
 1. **Build the project**: Run build commands (npm install, pip install, mvn compile, etc.)
 2. **Run tests**: Execute the specific test or test suite mentioned in the issue
-3. **Observe behavior**: Look for the flaky patterns described (timing issues, race conditions, etc.)
-4. **Document reproduction**: Note exact steps that trigger the flaky behavior
+3. **Measure flakiness**: Run the flaky test with runRepeated, enough times to see it fail, and vary the conditions (timing, load, parallelism) when it never fails, e.g. by recreating the container with constraints
+4. **Probe the test order**: When the test may depend on other tests, run its suite with runShuffled, then pass the tests preceding it in a failing order to findPolluter and compare running it alone with running it after the polluter using runRepeated
+5. **Document reproduction**: Note exact steps that trigger the flaky behavior
 
 ### Phase 4: Final Report
 When you have successfully reproduced the flaky behavior OR determined that reproduction is not possible:
 - Use the **report** tool to document your findings
+- Only report success when runRepeated saw the test both pass and fail, its measurements are attached to the report
 - Include detailed reproduction steps if successful
 - Provide the Dockerfile content if you created a reliable reproduction environment
 - Clearly explain any obstacles or reasons for failure
@@ -174,7 +272,7 @@ When you have successfully reproduced the flaky behavior OR determined that repr
 
   try {
     // Get root directory listing
-    const rootContents = await listDir.implementation({ path: '.' })
+    const rootContents = await withCassetteTools({ listDir }, session).listDir.implementation({ path: '.' })
     repoStructure += `Root directory contents:\n\`\`\`json\n${JSON.stringify(rootContents, null, 2)}\n\`\`\`\n\n`
   }
   catch (error) {
@@ -186,7 +284,7 @@ When you have successfully reproduced the flaky behavior OR determined that repr
 **Summary**: ${filteredResult.summary || 'No summary available'}
 **Environment**: ${JSON.stringify(filteredResult.environment || {}, null, 2)}
 **Reasoning**: ${filteredResult.reasoning}
-
+${describeFailure(filteredResult)}${constraints ? `**Container constraints**: ${describeConstraints(constraints)}, applied to every container unless you request others\n` : ''}
 ${repoStructure}
 
 ## Instructions
@@ -200,91 +298,36 @@ Once you understand the project, create a Docker-based reproduction environment:
 1. Use buildImage to create a Docker image - the repository is already cloned and available in the build context
 2. Create a container from this image
 3. Install dependencies and run the build/test commands
-4. Attempt to reproduce the flaky test behavior described in the issue
+4. Attempt to reproduce the flaky test behavior described in the issue, following the reproduction strategy of its suspected cause when there is one
 
 The buildImage function provides the GitHub repository already cloned and ready in the Docker build context. You do not need to manually clone the repository or use COPY commands in your Dockerfile.
 
 Begin by telling me what files you want to examine first.`
 
-  const contents: ContentListUnion = [{ role: 'user', parts: [{ text: initialPrompt }] }]
-
-  const functionCallHistory: { name: string, args: any, result: any, key: 'error' | 'output' }[] = []
-  const agentResponses: { iteration: number, text: string }[] = []
-  let finalResult: {
-    status: 'success' | 'failure'
-    reason: string
-    dockerFile?: string
-    reproductionSteps?: string[]
-  } | null = null
-
-  for (let i = 0; i < maxIterations; i++) {
-    const remainingIterations = maxIterations - i - 1
-
-    // Update system instruction with current iteration info
-    const currentSystemInstruction = systemInstruction.replace('{remainingIterations}', remainingIterations.toString()).replace('{maxIterations}', maxIterations.toString())
-
-    const response = await genAI.models.generateContent({
-      model: 'gemini-2.5-pro',
-      contents,
-      config: {
-        tools: [{ functionDeclarations }],
-        systemInstruction: currentSystemInstruction,
-      },
-    })
-
-    if (response.text) {
-      logger.debug(`💬 Agent response (iteration ${i + 1}): ${response.text}`)
-      agentResponses.push({ iteration: i + 1, text: response.text })
-    }
-
-    const functionCalls = response.functionCalls || []
-    if (functionCalls.length === 0) {
-      logger.debug('Agent responded without making a function call:', response.text)
-      break
-    }
-
-    for (const call of functionCalls) {
-      const { name, args } = call
-
-      logger.debug(`🔧 Agent calling tool: ${name} with args:`, args)
-      let key: 'error' | 'output' = 'output'
-      let result: any
-      try {
-        if (!name)
-          throw new Error(`Function call missing name`)
-        result = await runAiFunction(aiFunctionsMap, name, args)
-        logger.debug(`✅ Tool ${name} completed successfully`)
-      }
-      catch (error) {
-        key = 'error'
-        result = `Error: ${(error as Error).message}`
-        logger.debug(`❌ Tool ${name} failed: ${(error as Error).message}`)
-      }
-      finally {
-        functionCallHistory.push({ name: name || 'unknown', args, result, key })
-      }
-
-      // Check if this is a report call
-      if (name === 'report') {
-        finalResult = args as {
-          status: 'success' | 'failure'
-          reason: string
-          dockerFile?: string
-          reproductionSteps?: string[]
-        }
-        logger.debug(`Report called with status: ${finalResult.status}`)
-        // End the loop when report is called
-        return { finalResult, functionCallHistory, agentResponses }
-      }
-
-      contents.push(
-        { role: 'model', parts: [{ functionCall: { name, args } }] },
-        { role: 'user', parts: [{ functionResponse: { name, response: { [key]: result } } }] },
-      )
-    }
+  // Don't leave the reproduction container running when the run is interrupted
+  const disposeShutdown = onShutdown(cleanup)
+  const transcript = await runAgent({
+    provider,
+    // Keep the model aware of how many iterations it has left
+    system: ({ remainingIterations, maxIterations }) => systemInstruction
+      .replace('{remainingIterations}', remainingIterations.toString())
+      .replace('{maxIterations}', maxIterations.toString()),
+    prompt: initialPrompt,
+    tools: [readFile, listDir, buildImage, createContainer, executeCommand, runRepeated, runShuffled, findPolluter],
+    finalAnswer: report,
+    budget,
+    session,
+  }).finally(async () => {
+    disposeShutdown()
+    await cleanup()
+  })
+
+  if (transcript.result) {
+    logger.debug(`Report called with status: ${transcript.result.status}`)
+  }
+  else {
+    logger.warn(`Reproducer agent stopped (${transcript.stopReason}) without reporting a final result.`)
   }
 
-  logger.warn('Reproducer agent exceeded max iterations without reporting a final result.')
-
-  return { finalResult, functionCallHistory, agentResponses }
+  return transcript
 }
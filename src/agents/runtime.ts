@@ -0,0 +1,197 @@
+import type { ChatMessage, ChatResponse, ChatUsage, LlmProvider, ToolCall, ToolResult } from '../llm'
+import type { CassetteSession } from '../utils/cassette'
+import type { AiFunction } from '../utils/defineAiFunction'
+import * as z from 'zod'
+import { getLogger } from '../logger'
+import { withCassetteProvider, withCassetteTools } from '../utils/cassette'
+import { defineAiFunction, runAiFunction } from '../utils/defineAiFunction'
+
+export interface AgentBudget {
+  maxIterations: number
+  /** Wall-clock limit, checked before every model call */
+  maxDurationMs?: number
+  /** Limit on input + output tokens across the whole conversation */
+  maxTokens?: number
+}
+
+export interface AgentIterationInfo {
+  iteration: number
+  remainingIterations: number
+  maxIterations: number
+}
+
+export interface ToolCallRecord {
+  iteration: number
+  name: string
+  args: any
+  result: any
+  key: 'error' | 'output'
+}
+
+export type AgentStopReason = 'final' | 'no-tool-call' | 'max-iterations' | 'timeout' | 'token-budget'
+
+export interface AgentTranscript<Result> {
+  result: Result | null
+  stopReason: AgentStopReason
+  iterations: number
+  durationMs: number
+  usage: ChatUsage
+  toolCalls: ToolCallRecord[]
+  responses: { iteration: number, text: string }[]
+}
+
+type Awaitable<T> = T | Promise<T>
+
+export interface AgentHooks<Result> {
+  onModelResponse?: (response: ChatResponse, info: AgentIterationInfo) => Awaitable<void>
+  onToolCall?: (call: ToolCall, info: AgentIterationInfo) => Awaitable<void>
+  onToolResult?: (record: ToolCallRecord, info: AgentIterationInfo) => Awaitable<void>
+  onFinish?: (transcript: AgentTranscript<Result>) => Awaitable<void>
+}
+
+export interface FinalAnswerTool<Schema extends z.ZodType> {
+  name: string
+  description: string
+  parameters: Schema
+}
+
+export interface AgentOptions<Schema extends z.ZodType> {
+  provider: LlmProvider
+  system: string | ((info: AgentIterationInfo) => string)
+  prompt: string
+  tools: AiFunction[]
+  /** Terminal tool, the conversation ends once the model calls it with valid arguments */
+  finalAnswer: FinalAnswerTool<Schema>
+  budget: AgentBudget
+  hooks?: AgentHooks<z.infer<Schema>>
+  session?: CassetteSession
+}
+
+export async function runAgent<Schema extends z.ZodType>({
+  provider,
+  system,
+  prompt,
+  tools,
+  finalAnswer,
+  budget,
+  hooks = {},
+  session,
+}: AgentOptions<Schema>): Promise<AgentTranscript<z.infer<Schema>>> {
+  const logger = getLogger()
+  const { maxIterations, maxDurationMs, maxTokens } = budget
+  const startedAt = Date.now()
+
+  const finalAnswerFunction = defineAiFunction({
+    name: finalAnswer.name,
+    description: finalAnswer.description,
+    parameters: finalAnswer.parameters,
+    implementation: () => {
+      /* handled by the runtime */
+    },
+  })
+  const functionsMap = withCassetteTools(Object.fromEntries(tools.map(f => [f.declaration.name, f])), session)
+  const functionDeclarations = [...tools, finalAnswerFunction].map(f => f.declaration)
+  const chatProvider = withCassetteProvider(provider, session)
+
+  const messages: ChatMessage[] = [{ role: 'user', text: prompt }]
+  const transcript: AgentTranscript<z.infer<Schema>> = {
+    result: null,
+    stopReason: 'max-iterations',
+    iterations: 0,
+    durationMs: 0,
+    usage: { inputTokens: 0, outputTokens: 0 },
+    toolCalls: [],
+    responses: [],
+  }
+
+  const finish = async (stopReason: AgentStopReason) => {
+    transcript.stopReason = stopReason
+    transcript.durationMs = Date.now() - startedAt
+    await hooks.onFinish?.(transcript)
+    return transcript
+  }
+
+  for (let i = 0; i < maxIterations; i++) {
+    if (maxDurationMs !== undefined && Date.now() - startedAt >= maxDurationMs) {
+      logger.warn(`⏱️  Agent exceeded its time budget of ${Math.round(maxDurationMs / 1000)}s`)
+      return finish('timeout')
+    }
+    if (maxTokens !== undefined && transcript.usage.inputTokens + transcript.usage.outputTokens >= maxTokens) {
+      logger.warn(`🪙 Agent exceeded its token budget of ${maxTokens} tokens`)
+      return finish('token-budget')
+    }
+
+    const info: AgentIterationInfo = { iteration: i + 1, remainingIterations: maxIterations - i - 1, maxIterations }
+    transcript.iterations = info.iteration
+
+    const response = await chatProvider.chat({
+      system: typeof system === 'function' ? system(info) : system,
+      messages,
+      tools: functionDeclarations,
+    })
+    if (response.usage) {
+      transcript.usage.inputTokens += response.usage.inputTokens
+      transcript.usage.outputTokens += response.usage.outputTokens
+    }
+    if (response.text) {
+      logger.debug(`💬 Agent response (iteration ${info.iteration}): ${response.text}`)
+      transcript.responses.push({ iteration: info.iteration, text: response.text })
+    }
+    await hooks.onModelResponse?.(response, info)
+
+    if (response.toolCalls.length === 0) {
+      logger.debug('Agent responded without making a function call:', response.text)
+      return finish('no-tool-call')
+    }
+
+    const toolResults: ToolResult[] = []
+
+    for (const call of response.toolCalls) {
+      const { id, name, args } = call
+      await hooks.onToolCall?.(call, info)
+
+      logger.debug(`🔧 Agent calling tool: ${name} with args:`, args)
+      const record: ToolCallRecord = { iteration: info.iteration, name: name || 'unknown', args, result: undefined, key: 'output' }
+
+      if (name === finalAnswer.name) {
+        const parsed = finalAnswer.parameters.safeParse(args)
+        if (parsed.success) {
+          record.result = parsed.data
+          transcript.toolCalls.push(record)
+          await hooks.onToolResult?.(record, info)
+          transcript.result = parsed.data
+          logger.debug(`🏁 Agent called ${name}`)
+          return finish('final')
+        }
+        // Let the model fix its final answer instead of failing the whole session
+        record.key = 'error'
+        record.result = `Error: Invalid arguments for ${name}: ${z.prettifyError(parsed.error)}`
+        logger.debug(`❌ Tool ${name} rejected invalid arguments`)
+      }
+      else {
+        try {
+          if (!name)
+            throw new Error('Function call missing name')
+          record.result = await runAiFunction(functionsMap, name, args)
+          logger.debug(`✅ Tool ${name} completed successfully`)
+        }
+        catch (error) {
+          record.key = 'error'
+          record.result = `Error: ${(error as Error).message}`
+          logger.debug(`❌ Tool ${name} failed: ${(error as Error).message}`)
+        }
+      }
+
+      transcript.toolCalls.push(record)
+      await hooks.onToolResult?.(record, info)
+      toolResults.push({ id, name, response: { [record.key]: record.result } })
+    }
+
+    messages.push(
+      { role: 'assistant', text: response.text, toolCalls: response.toolCalls },
+      { role: 'tool', results: toolResults },
+    )
+  }
+
+  return finish('max-iterations')
+}
@@ -1,69 +1,320 @@
+import type { FindSource } from './constants'
+import type { ProviderName } from './llm/types'
+import type { ContainerConstraints } from './types'
+import type { CassetteOptions } from './utils/cassette'
 import process from 'node:process'
-import { Command } from '@commander-js/extra-typings'
+import { Command, InvalidArgumentError, Option } from '@commander-js/extra-typings'
 import { version } from '../package.json'
-import { createLogger } from './logger'
+import { DEFAULT_REJECT_BELOW, FIND_SOURCES, FORGES, FORMATS, ISSUE_STATES, ISSUE_TYPES, PROVIDERS, SEARCH_PRESETS, STAGES } from './constants'
+import { createLogger, getLogger } from './logger'
+import { ContainerConstraintsSchema } from './types'
+import { createHttpCache } from './utils/http-cache'
 
-function main(): void {
+function cassetteOptions(record?: string, replay?: string): CassetteOptions | undefined {
+  if (record)
+    return { mode: 'record', file: record }
+  if (replay)
+    return { mode: 'replay', file: replay }
+}
+
+function commaList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean)
+}
+
+function sourceList(value: string): FindSource[] {
+  const sources = commaList(value)
+  const unknown = sources.filter(source => !(FIND_SOURCES as readonly string[]).includes(source))
+  if (unknown.length > 0)
+    throw new InvalidArgumentError(`Unknown sources: ${unknown.join(', ')}. Allowed: ${FIND_SOURCES.join(', ')}`)
+  return sources as FindSource[]
+}
+
+// "provider" or "provider:model", models may contain colons themselves (e.g. qwen3:8b)
+function modelList(value: string): { provider: ProviderName, model?: string }[] {
+  return commaList(value).map((entry) => {
+    const [provider, ...model] = entry.split(':')
+    if (!(PROVIDERS as readonly string[]).includes(provider))
+      throw new InvalidArgumentError(`Unknown provider in ${entry}. Allowed: ${PROVIDERS.join(', ')}`)
+    return { provider: provider as ProviderName, model: model.join(':') || undefined }
+  })
+}
+
+function numberList(value: string): number[] {
+  const numbers = commaList(value).map(Number)
+  if (numbers.some(Number.isNaN))
+    throw new InvalidArgumentError(`Not a comma-separated list of numbers: ${value}`)
+  return numbers
+}
+
+function cpuList(value: string): string {
+  if (!ContainerConstraintsSchema.shape.cpuset.safeParse(value).success)
+    throw new InvalidArgumentError(`Not a list or range of CPUs, e.g. 0-1,3: ${value}`)
+  return value
+}
+
+function containerConstraints(options: { cpus?: number, cpuset?: string, memory?: number, pidsLimit?: number, network: boolean, stressCpu?: number, stressIo?: number }): ContainerConstraints | undefined {
+  const { cpus, cpuset, memory, pidsLimit, network, stressCpu, stressIo } = options
+  const stress = stressCpu || stressIo ? { cpu: stressCpu, io: stressIo } : undefined
+  const constraints = { cpus, cpuset, memoryMb: memory, pidsLimit, network: network ? undefined : false, stress }
+  const set = Object.entries(constraints).filter(([, value]) => value !== undefined)
+  return set.length ? Object.fromEntries(set) : undefined
+}
+
+function minutesToMs(minutes?: number): number | undefined {
+  return minutes === undefined ? undefined : minutes * 60 * 1000
+}
+
+async function main(): Promise<void> {
   const program = new Command()
 
   program
     .name('flaki')
     .description('Find and filter flaky test issues on GitHub')
     .version(version)
+    .option('--no-cache', 'Disable the on-disk cache of GitHub responses')
+    .option('--cache-dir <dir>', 'Directory of the GitHub response cache (default: ~/.cache/flaki/http)')
+    .option('--cache-ttl <minutes>', 'Serve cached GitHub responses younger than this without revalidating them', (value: string) => +value, 60)
+    .hook('preAction', (command) => {
+      const { cache, cacheDir, cacheTtl } = command.opts()
+      if (cache)
+        createHttpCache({ dir: cacheDir, ttlMs: minutesToMs(cacheTtl) })
+    })
 
   program
     .command('find')
     .description('Find flaky test issues on GitHub')
-    .requiredOption('--repo-query <query>', 'GitHub repo search query')
+    .option('--repo-query <query>', 'GitHub repo search query, issues are searched in the top matching repos')
+    .option('--repos-file <file>', 'File with repositories to search, one owner/repo per line')
+    .option('--org <org>', 'Search issues across all repositories of an organization (or GitLab group)')
+    .addOption(new Option('--forge <type>', 'Forge to search').choices(FORGES).default('github' as const))
+    .option('--forge-url <url>', 'Web URL of a self-hosted forge instance, e.g. https://gitlab.example.com')
+    .option('--sources <list>', `Comma-separated discovery sources (${FIND_SOURCES.join(', ')})`, sourceList, ['issues'] as FindSource[])
+    .addOption(new Option('--from-reports <globs...>', 'Find flaky tests in local JUnit XML or jest/vitest JSON reports of repeated runs instead of GitHub').conflicts(['repoQuery', 'reposFile', 'org']))
+    .option('--repo <owner/repo>', 'Repository the test reports were produced from (with --from-reports)')
+    .option('--commit <sha>', 'Commit the test reports were produced from (with --from-reports)')
+    .addOption(new Option('--preset <name>', 'Keyword preset').choices(Object.keys(SEARCH_PRESETS)).default('default'))
+    .option('--keywords <list>', 'Comma-separated search keywords, replaces the preset keywords', commaList)
+    .option('--labels <list>', 'Comma-separated issue labels to search for in addition to the keywords', commaList)
+    .option('--exclude <list>', 'Comma-separated terms that must not appear in the issue', commaList)
+    .addOption(new Option('--state <state>', 'Issue state').choices(ISSUE_STATES).default('open' as const))
+    .addOption(new Option('--type <type>', 'Search issues, pull requests or both').choices(ISSUE_TYPES).default('issue' as const))
     .option('--months <num>', 'Look back this many months', (value: string) => +value, 6)
     .option('--repo-pages <num>', 'Number of repo search pages', (value: string) => +value, 1)
     .option('--repo-per-page <num>', 'Number of repos per page', (value: string) => +value, 100)
     .option('--issue-pages <num>', 'Number of issue search pages per repo', (value: string) => +value, 1)
     .option('--issue-per-page <num>', 'Number of issues per page', (value: string) => +value, 100)
+    .option('--max-runs <num>', 'Number of recent workflow runs scanned per repo by the actions source', (value: string) => +value, 100)
     .option('--output <file>', 'Output file for results (JSON)')
     .option('--cache-file <file>', 'Cache file for repo data (JSON)')
+    .addOption(new Option('--format <format>', 'Output format, ndjson writes one result per line as soon as it is ready').choices(FORMATS).default('json' as const))
     .option('--verbose', 'Enable verbose logging')
-    .action(async (options) => {
-      const { repoQuery, months, repoPages, repoPerPage, issuePages, issuePerPage, output: outputFile, cacheFile, verbose } = options
-      createLogger({ verbose, outputStream: process.stderr })
+    .action(async (options, command) => {
+      const { output: outputFile, fromReports, repo, commit, ...findOptions } = options
+      createLogger({ verbose: findOptions.verbose, outputStream: process.stderr })
+      if (fromReports) {
+        if (!repo)
+          return command.error('error: --repo is required with --from-reports')
+        // Reports are read locally, so this doesn't need a GitHub token
+        const { runReportsFind } = await import('./sources/reports')
+        await runReportsFind({ patterns: fromReports, repo, commit, forge: { type: findOptions.forge, baseUrl: findOptions.forgeUrl }, outputFile, format: findOptions.format, verbose: findOptions.verbose })
+        return
+      }
+      if (!findOptions.repoQuery && !findOptions.reposFile && !findOptions.org)
+        return command.error('error: one of --repo-query, --repos-file or --org is required')
       const { runFindAgent } = await import('./find')
-      await runFindAgent(repoQuery, months, repoPages, repoPerPage, issuePages, issuePerPage, outputFile, cacheFile, verbose)
+      await runFindAgent({ ...findOptions, outputFile })
     })
 
   program
     .command('filter')
     .description('Filter issues using AI to identify genuine flaky test issues')
-    .option('--input <file>', 'Input file with issues (JSON). If not provided, reads from stdin')
+    .option('--input <file>', 'Input file with issues (JSON or NDJSON). If not provided, reads from stdin')
     .option('--output <file>', 'Output file for filtered results (JSON). If not provided, writes to stdout')
+    .option('--resume', 'Skip issues already present in the output file')
+    .addOption(new Option('--format <format>', 'Output format, ndjson writes one result per line as soon as it is ready').choices(FORMATS).default('json' as const))
+    .option('--max-iterations <num>', 'Maximum number of AI iterations per issue', (value: string) => +value, 10)
+    .option('--max-minutes <num>', 'Time budget per issue in minutes', (value: string) => +value)
+    .option('--max-tokens <num>', 'Token budget per issue (input + output)', (value: string) => +value)
+    .option('--concurrency <num>', 'Number of issues to process in parallel', (value: string) => +value, 1)
+    .option('--reject-below <score>', 'Reject issues with a heuristic score below this without asking the LLM', (value: string) => +value, DEFAULT_REJECT_BELOW)
+    .option('--accept-at <score>', 'Accept issues with a heuristic score of at least this without asking the LLM', (value: string) => +value)
+    .option('--heuristic-only', 'Decide every issue by its heuristic score, issues that aren\'t rejected are accepted')
+    .option('--votes <num>', 'Classify each issue this many times and decide by majority, disagreeing votes are flagged for review', (value: string) => +value, 1)
+    .option('--vote-models <list>', 'Comma-separated provider or provider:model entries taking turns across the votes', modelList)
+    .option('--vote-temperatures <list>', 'Comma-separated sampling temperatures taking turns across the votes', numberList)
+    .addOption(new Option('--provider <name>', 'LLM provider to use').choices(PROVIDERS).default('gemini' as const))
+    .option('--model <name>', 'Model name (defaults to the provider\'s recommended model)')
+    .option('--base-url <url>', 'Custom API base URL, e.g. for OpenAI-compatible local servers')
+    .addOption(new Option('--record <file>', 'Record LLM conversations and tool results to a cassette file').conflicts('replay'))
+    .option('--replay <file>', 'Replay LLM conversations and tool results from a cassette file without network access')
     .option('--verbose', 'Enable verbose logging')
     .action(async (options) => {
-      const { input, output, verbose } = options
+      const { input, output, resume, format, maxIterations, maxMinutes, maxTokens, concurrency, rejectBelow, acceptAt, heuristicOnly, votes, voteModels, voteTemperatures, provider, model, baseUrl, record, replay, verbose } = options
       createLogger({ verbose, outputStream: process.stderr })
       const { runFilterAgent } = await import('./agents/filterer')
-      await runFilterAgent(input, output)
+      await runFilterAgent(input, output, {
+        llm: { provider, model, baseUrl },
+        budget: { maxIterations, maxDurationMs: minutesToMs(maxMinutes), maxTokens },
+        cassette: cassetteOptions(record, replay),
+        resume,
+        format,
+        concurrency,
+        heuristics: { rejectBelow, acceptAt, only: heuristicOnly },
+        voting: { votes, models: voteModels, temperatures: voteTemperatures },
+      })
+    })
+
+  program
+    .command('eval')
+    .description('Measure the accuracy of filter against a dataset of labeled issues')
+    .requiredOption('--dataset <file>', 'Labeled issues (JSON or NDJSON) with url, isFlakyTestIssue and optionally rootCause')
+    .option('--predictions <file>', 'Score these filter results instead of running the filter')
+    .option('--fixtures <file>', 'Issue data by URL, issues missing from it are fetched and added so later runs analyze the same data')
+    .option('--compare <file>', 'Earlier evaluation report to show the changed predictions against')
+    .option('--output <file>', 'Output file for the evaluation report (JSON). If not provided, writes to stdout')
+    .option('--max-iterations <num>', 'Maximum number of AI iterations per issue', (value: string) => +value, 10)
+    .option('--max-minutes <num>', 'Time budget per issue in minutes', (value: string) => +value)
+    .option('--max-tokens <num>', 'Token budget per issue (input + output)', (value: string) => +value)
+    .option('--concurrency <num>', 'Number of issues to process in parallel', (value: string) => +value, 1)
+    .option('--reject-below <score>', 'Reject issues with a heuristic score below this without asking the LLM', (value: string) => +value, DEFAULT_REJECT_BELOW)
+    .option('--accept-at <score>', 'Accept issues with a heuristic score of at least this without asking the LLM', (value: string) => +value)
+    .option('--heuristic-only', 'Decide every issue by its heuristic score, issues that aren\'t rejected are accepted')
+    .option('--votes <num>', 'Classify each issue this many times and decide by majority', (value: string) => +value, 1)
+    .option('--vote-models <list>', 'Comma-separated provider or provider:model entries taking turns across the votes', modelList)
+    .option('--vote-temperatures <list>', 'Comma-separated sampling temperatures taking turns across the votes', numberList)
+    .addOption(new Option('--provider <name>', 'LLM provider to use').choices(PROVIDERS).default('gemini' as const))
+    .option('--model <name>', 'Model name (defaults to the provider\'s recommended model)')
+    .option('--base-url <url>', 'Custom API base URL, e.g. for OpenAI-compatible local servers')
+    .addOption(new Option('--record <file>', 'Record issue data, LLM conversations and tool results to a cassette file').conflicts('replay'))
+    .option('--replay <file>', 'Replay issue data, LLM conversations and tool results from a cassette file for reproducible runs')
+    .option('--verbose', 'Enable verbose logging')
+    .action(async (options) => {
+      const { dataset, predictions, fixtures, compare, output, maxIterations, maxMinutes, maxTokens, concurrency, rejectBelow, acceptAt, heuristicOnly, votes, voteModels, voteTemperatures, provider, model, baseUrl, record, replay, verbose } = options
+      createLogger({ verbose, outputStream: process.stderr })
+      const { runEval } = await import('./eval')
+      await runEval({
+        datasetFile: dataset,
+        predictionsFile: predictions,
+        fixturesFile: fixtures,
+        compareFile: compare,
+        outputFile: output,
+        llm: { provider, model, baseUrl },
+        budget: { maxIterations, maxDurationMs: minutesToMs(maxMinutes), maxTokens },
+        cassette: cassetteOptions(record, replay),
+        concurrency,
+        heuristics: { rejectBelow, acceptAt, only: heuristicOnly },
+        voting: { votes, models: voteModels, temperatures: voteTemperatures },
+      })
     })
 
   program
     .command('reproduce')
     .description('Reproduce flaky test issues using AI and Docker environments')
-    .option('--input <file>', 'Input file with filtered issue(s) (JSON). If not provided, reads from stdin')
+    .option('--input <file>', 'Input file with filtered issue(s) (JSON or NDJSON). If not provided, reads from stdin')
     .option('--output <file>', 'Output file for reproduction results (JSON). If not provided, writes to stdout')
+    .option('--resume', 'Skip issues already present in the output file')
+    .addOption(new Option('--format <format>', 'Output format, ndjson writes one result per line as soon as it is ready').choices(FORMATS).default('json' as const))
     .option('--max-iterations <num>', 'Maximum number of AI iterations', (value: string) => +value, 50)
+    .option('--max-minutes <num>', 'Time budget per issue in minutes', (value: string) => +value)
+    .option('--max-tokens <num>', 'Token budget per issue (input + output)', (value: string) => +value)
+    .option('--concurrency <num>', 'Number of issues to process in parallel', (value: string) => +value, 1)
     .option('--force', 'Force reproduction of issues even if they were determined not to be flaky tests')
+    .addOption(new Option('--provider <name>', 'LLM provider to use').choices(PROVIDERS).default('gemini' as const))
+    .option('--model <name>', 'Model name (defaults to the provider\'s recommended model)')
+    .option('--base-url <url>', 'Custom API base URL, e.g. for OpenAI-compatible local servers')
+    .addOption(new Option('--record <file>', 'Record LLM conversations and tool results to a cassette file').conflicts('replay'))
+    .option('--replay <file>', 'Replay LLM conversations and tool results from a cassette file without network access')
+    .option('--no-verify', 'Skip replaying successful reproductions in a fresh container')
+    .option('--cpus <num>', 'CPU quota of reproduction containers, e.g. 0.5', (value: string) => +value)
+    .option('--cpuset <cpus>', 'CPUs reproduction containers may run on, e.g. 0 or 0-1,3', cpuList)
+    .option('--memory <mb>', 'Memory limit of reproduction containers in MiB, swap included', (value: string) => +value)
+    .option('--pids-limit <num>', 'Maximum number of processes and threads in reproduction containers', (value: string) => +value)
+    .option('--no-network', 'Start reproduction containers without network access')
+    .option('--stress-cpu <workers>', 'Number of busy-looping processes competing for the CPU in reproduction containers', (value: string) => +value)
+    .option('--stress-io <workers>', 'Number of processes writing and syncing files in reproduction containers', (value: string) => +value)
     .option('--verbose', 'Enable verbose logging')
     .action(async (options) => {
-      const { input, output, maxIterations, force, verbose } = options
+      const { input, output, resume, format, maxIterations, maxMinutes, maxTokens, concurrency, force, provider, model, baseUrl, record, replay, verify, verbose } = options
       createLogger({ verbose, outputStream: process.stderr })
       const { runReproducerAgent: processReproducerInput } = await import('./agents/reproducer')
-      await processReproducerInput(input, maxIterations, output, force)
+      await processReproducerInput(input, maxIterations, output, force, {
+        llm: { provider, model, baseUrl },
+        budget: { maxDurationMs: minutesToMs(maxMinutes), maxTokens },
+        cassette: cassetteOptions(record, replay),
+        resume,
+        format,
+        concurrency,
+        verify: verify && {},
+        constraints: containerConstraints(options),
+      })
     })
 
-  program.parse()
-}
+  program
+    .command('verify')
+    .description('Verify reproduction results by replaying them in a fresh container without the LLM')
+    .argument('<reproduction>', 'Reproduction results (JSON or NDJSON) written by reproduce')
+    .option('--output <file>', 'Output file for the verified results. If not provided, writes to stdout')
+    .addOption(new Option('--format <format>', 'Output format, ndjson writes one result per line as soon as it is ready').choices(FORMATS).default('json' as const))
+    .option('--runs <num>', 'Number of times the failing step is run', (value: string) => +value, 20)
+    .option('--concurrency <num>', 'Number of reproductions to verify in parallel', (value: string) => +value, 1)
+    .option('--verbose', 'Enable verbose logging')
+    .action(async (reproduction, options) => {
+      const { output, format, runs, concurrency, verbose } = options
+      createLogger({ verbose, outputStream: process.stderr })
+      const { runVerify } = await import('./verify')
+      await runVerify(reproduction, output, { format, runs, concurrency })
+    })
 
-try {
-  main()
-}
-catch (error) {
-  console.error(error)
+  program
+    .command('run')
+    .description('Run find, filter and reproduce into a workspace directory')
+    .requiredOption('--workspace <dir>', 'Workspace directory for results, logs and the run manifest')
+    .addOption(new Option('--from <stage>', 'First stage to run').choices(STAGES).default('find' as const))
+    .addOption(new Option('--to <stage>', 'Last stage to run').choices(STAGES).default('reproduce' as const))
+    .option('--repo-query <query>', 'GitHub repo search query, issues are searched in the top matching repos')
+    .option('--repos-file <file>', 'File with repositories to search, one owner/repo per line')
+    .option('--org <org>', 'Search issues across all repositories of an organization (or GitLab group)')
+    .addOption(new Option('--forge <type>', 'Forge to search').choices(FORGES).default('github' as const))
+    .option('--forge-url <url>', 'Web URL of a self-hosted forge instance, e.g. https://gitlab.example.com')
+    .option('--sources <list>', `Comma-separated discovery sources (${FIND_SOURCES.join(', ')})`, sourceList, ['issues'] as FindSource[])
+    .addOption(new Option('--preset <name>', 'Keyword preset').choices(Object.keys(SEARCH_PRESETS)).default('default'))
+    .option('--keywords <list>', 'Comma-separated search keywords, replaces the preset keywords', commaList)
+    .option('--labels <list>', 'Comma-separated issue labels to search for in addition to the keywords', commaList)
+    .option('--exclude <list>', 'Comma-separated terms that must not appear in the issue', commaList)
+    .addOption(new Option('--state <state>', 'Issue state').choices(ISSUE_STATES).default('open' as const))
+    .addOption(new Option('--type <type>', 'Search issues, pull requests or both').choices(ISSUE_TYPES).default('issue' as const))
+    .option('--months <num>', 'Look back this many months', (value: string) => +value, 6)
+    .option('--repo-pages <num>', 'Number of repo search pages', (value: string) => +value, 1)
+    .option('--repo-per-page <num>', 'Number of repos per page', (value: string) => +value, 100)
+    .option('--issue-pages <num>', 'Number of issue search pages per repo', (value: string) => +value, 1)
+    .option('--issue-per-page <num>', 'Number of issues per page', (value: string) => +value, 100)
+    .option('--max-runs <num>', 'Number of recent workflow runs scanned per repo by the actions source', (value: string) => +value, 100)
+    .option('--filter-max-iterations <num>', 'Maximum number of AI iterations per issue when filtering', (value: string) => +value, 10)
+    .option('--reproduce-max-iterations <num>', 'Maximum number of AI iterations per issue when reproducing', (value: string) => +value, 50)
+    .option('--max-minutes <num>', 'Time budget per issue in minutes', (value: string) => +value)
+    .option('--max-tokens <num>', 'Token budget per issue (input + output)', (value: string) => +value)
+    .option('--concurrency <num>', 'Number of issues to process in parallel', (value: string) => +value, 1)
+    .option('--min-confidence <num>', 'Only reproduce flaky issues with at least this confidence (0-100)', (value: string) => +value, 70)
+    .addOption(new Option('--provider <name>', 'LLM provider to use').choices(PROVIDERS).default('gemini' as const))
+    .option('--model <name>', 'Model name (defaults to the provider\'s recommended model)')
+    .option('--base-url <url>', 'Custom API base URL, e.g. for OpenAI-compatible local servers')
+    .option('--verbose', 'Enable verbose logging')
+    .action(async (options, command) => {
+      const { workspace, from, to, verbose, ...runOptions } = options
+      const { runLogFile, runPipeline } = await import('./pipeline')
+      const logFile = runLogFile(workspace)
+      createLogger({ verbose, outputStream: process.stderr, logFile })
+      // Options that weren't given fall back to the ones saved in the workspace manifest
+      const explicit = (Object.keys(runOptions) as (keyof typeof runOptions)[])
+        .filter(key => command.getOptionValueSource(key) === 'cli')
+      await runPipeline({ workspace, from, to, options: runOptions, explicit, logFile, verbose })
+    })
+
+  await program.parseAsync()
 }
+
+// Failed commands, e.g. a pipeline stage, end here instead of as unhandled rejections
+main().catch((error) => {
+  getLogger().error(`Error: ${(error as Error).message}`)
+  process.exitCode = 1
+})
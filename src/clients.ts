@@ -1,17 +1,144 @@
+import type { LimiterName } from './utils/scheduler'
 import process from 'node:process'
-import { GoogleGenAI } from '@google/genai'
+import { setTimeout } from 'node:timers/promises'
 import { Octokit } from 'octokit'
+import { getLogger } from './logger'
+import { getHttpCache } from './utils/http-cache'
+import { getScheduler, rateLimitDelay } from './utils/scheduler'
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY
 const GITHUB_TOKEN = process.env.GITHUB_TOKEN
 
-if (!GEMINI_API_KEY) {
-  throw new Error('GEMINI_API_KEY environment variable is required')
-}
-
 if (!GITHUB_TOKEN) {
   throw new Error('GITHUB_TOKEN environment variable is required')
 }
 
-export const genAI = new GoogleGenAI({ apiKey: GEMINI_API_KEY })
-export const octokit = new Octokit({ auth: GITHUB_TOKEN })
+/** Attempts after the first one for rate limited requests and for transient 5xx/network errors */
+const MAX_RATE_LIMIT_RETRIES = 5
+const MAX_TRANSIENT_RETRIES = 4
+
+function limiterFor(url: string): LimiterName {
+  return url.startsWith('/graphql') ? 'github-graphql' : 'github-rest'
+}
+
+function onRateLimit(kind: 'Primary' | 'Secondary') {
+  return (retryAfter: number, options: { method: string, url: string }, _octokit: unknown, retryCount: number): boolean => {
+    const logger = getLogger()
+    // Hold back the other requests to the same API while waiting for the reset
+    getScheduler().limiter(limiterFor(options.url)).backoff(retryAfter * 1000)
+    if (retryCount >= MAX_RATE_LIMIT_RETRIES) {
+      logger.error(`❌ ${kind} rate limit for ${options.method} ${options.url} persists after ${retryCount} retries, giving up`)
+      return false
+    }
+    logger.warn(`⏳ ${kind} rate limit hit for ${options.method} ${options.url}, waiting ${retryAfter}s until reset (retry ${retryCount + 1}/${MAX_RATE_LIMIT_RETRIES})`)
+    return true
+  }
+}
+
+export const octokit = new Octokit({
+  auth: GITHUB_TOKEN,
+  // GitHub Enterprise Server, e.g. https://github.example.com/api/v3
+  baseUrl: process.env.GITHUB_API_URL,
+  throttle: {
+    onRateLimit: onRateLimit('Primary'),
+    onSecondaryRateLimit: onRateLimit('Secondary'),
+  },
+  // Transient errors are retried with exponential backoff by the hook below instead
+  retry: { enabled: false },
+})
+
+// Server errors and dropped connections (which octokit reports as status 500)
+function isTransientError(error: any): boolean {
+  return error?.status >= 500
+}
+
+// Exhausted quotas and secondary rate limits are already retried by the throttling plugin
+function isThrottled(error: any): boolean {
+  return /\bsecondary rate\b/i.test(error?.message ?? '') || error?.response?.headers?.['x-ratelimit-remaining'] === '0'
+}
+
+function logQuota(url: string, headers: Record<string, string | number | undefined>): void {
+  const remaining = Number(headers['x-ratelimit-remaining'])
+  const limit = Number(headers['x-ratelimit-limit'])
+  if (!Number.isFinite(remaining) || !Number.isFinite(limit))
+    return
+  // Report every 50 requests, and on every request once the quota runs low
+  if (remaining % 50 === 0 || remaining < limit / 10) {
+    const reset = new Date(Number(headers['x-ratelimit-reset']) * 1000).toLocaleTimeString()
+    getLogger().debug(`📊 GitHub ${headers['x-ratelimit-resource'] ?? limiterFor(url)} quota: ${remaining}/${limit} remaining, resets at ${reset}`)
+  }
+}
+
+type RequestHook = Parameters<typeof octokit.hook.wrap<'request'>>[1]
+type Request = Parameters<RequestHook>[0]
+type RequestOptions = Parameters<RequestHook>[1]
+
+// REST and GraphQL have separate quotas on GitHub's side, so they are limited separately
+async function sendWithRetries(request: Request, options: RequestOptions) {
+  const logger = getLogger()
+  const limiter = getScheduler().limiter(limiterFor(options.url))
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await limiter.run(async () => request(options))
+      logQuota(options.url, response.headers)
+      return response
+    }
+    catch (error) {
+      // Rate limits the throttling plugin doesn't recognize, e.g. a bare 429
+      const delay = isThrottled(error) ? undefined : rateLimitDelay(error, 60_000)
+      if (delay !== undefined && attempt < MAX_RATE_LIMIT_RETRIES) {
+        limiter.backoff(delay)
+        continue
+      }
+      if (isTransientError(error) && attempt < MAX_TRANSIENT_RETRIES) {
+        const backoff = 1000 * 2 ** attempt
+        logger.warn(`🔁 ${options.method} ${options.url} failed (${(error as Error).message}), retrying in ${backoff / 1000}s (${attempt + 1}/${MAX_TRANSIENT_RETRIES})`)
+        await setTimeout(backoff)
+        continue
+      }
+      throw error
+    }
+  }
+}
+
+// Reads and GraphQL queries are cached, quota checks always go to GitHub
+function cacheKey(options: RequestOptions): string | undefined {
+  const { method, url, body } = octokit.request.endpoint.parse(options)
+  if (url.endsWith('/rate_limit'))
+    return undefined
+  if (method === 'GET')
+    return `GET ${url}`
+  if (method === 'POST' && url.endsWith('/graphql'))
+    return `POST ${url} ${JSON.stringify(body)}`
+  return undefined
+}
+
+octokit.hook.wrap('request', async (request, options) => {
+  const cache = getHttpCache()
+  const key = cache && cacheKey(options)
+  if (!cache || !key)
+    return sendWithRetries(request, options)
+
+  const entry = cache.get(key)
+  if (entry && cache.isFresh(entry))
+    return entry.response
+  // Conditional requests answered with 304 don't count against the rate limit. The inner hooks
+  // are bound to this options object rather than to what is passed on, so it is changed in place
+  if (entry?.etag)
+    options.headers['if-none-match'] = entry.etag
+  else if (entry?.lastModified)
+    options.headers['if-modified-since'] = entry.lastModified
+
+  try {
+    const response = await sendWithRetries(request, options)
+    cache.set(key, { status: response.status, url: response.url, headers: response.headers, data: response.data })
+    return response
+  }
+  catch (error) {
+    if (entry && (error as { status?: number }).status === 304) {
+      getLogger().debug(`💾 ${options.method} ${options.url} is unchanged, using the cached response`)
+      cache.touch(key, entry)
+      return entry.response as Awaited<ReturnType<Request>>
+    }
+    throw error
+  }
+})
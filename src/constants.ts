@@ -0,0 +1,73 @@
+import type { ProviderName } from './llm/types'
+import type { OutputFormat } from './utils/records'
+
+export const PROVIDERS = ['gemini', 'openai', 'anthropic'] as const satisfies readonly ProviderName[]
+
+export const FORMATS = ['json', 'ndjson'] as const satisfies readonly OutputFormat[]
+
+export const STAGES = ['find', 'filter', 'reproduce'] as const
+
+export type Stage = typeof STAGES[number]
+
+export const FORGES = ['github', 'gitlab'] as const
+
+export type ForgeType = typeof FORGES[number]
+
+export const FIND_SOURCES = ['issues', 'actions'] as const
+
+export type FindSource = typeof FIND_SOURCES[number]
+
+export const ISSUE_STATES = ['open', 'closed', 'all'] as const
+
+export type IssueState = typeof ISSUE_STATES[number]
+
+export const ISSUE_TYPES = ['issue', 'pr', 'all'] as const
+
+export type IssueType = typeof ISSUE_TYPES[number]
+
+export interface SearchPreset {
+  keywords: string[]
+  labels?: string[]
+}
+
+/** Keyword sets for `flaki find --preset`, tuned for how different ecosystems talk about flaky tests */
+export const SEARCH_PRESETS: Record<string, SearchPreset> = {
+  default: {
+    keywords: ['flaky', 'flakey', 'intermittent'],
+  },
+  broad: {
+    keywords: ['flaky', 'flakey', 'flakiness', 'intermittent', 'intermittently', 'sporadic', 'nondeterministic', 'non-deterministic', 'randomly fails', 'sometimes fails'],
+    labels: ['flaky', 'flaky-test', 'flaky test', 'test flake', 'flake'],
+  },
+  labels: {
+    keywords: [],
+    labels: ['flaky', 'flaky-test', 'flaky test', 'flaky-tests', 'test flake', 'flake', 'type: flaky test'],
+  },
+  javascript: {
+    keywords: ['flaky', 'intermittent', 'timeout exceeded', 'jest.retryTimes', 'test retry'],
+  },
+  python: {
+    keywords: ['flaky', 'intermittent', 'pytest-rerunfailures', 'pytest-flakefinder', 'nondeterministic'],
+  },
+  jvm: {
+    keywords: ['flaky', 'intermittent', 'rerunFailingTestsCount', '@RepeatedTest', 'nondeterministic'],
+  },
+}
+
+/** Issues scoring below this in the heuristic pre-filter are rejected without asking the LLM */
+export const DEFAULT_REJECT_BELOW = 1
+
+export const DEFAULT_MODELS: Record<ProviderName, string> = {
+  gemini: 'gemini-2.5-pro',
+  openai: 'gpt-4.1',
+  anthropic: 'claude-sonnet-4-5',
+}
+
+/** Default number of concurrent requests (or containers) per rate-limited resource */
+export const DEFAULT_LIMITS = {
+  'github-rest': 8,
+  'github-graphql': 2,
+  'gitlab': 4,
+  'llm': 4,
+  'docker': 2,
+}
@@ -0,0 +1,320 @@
+import type { FilterAgentOptions } from './agents/filterer'
+import type { DetailedIssue, FilteredResult, FindResult, FlakinessCategory, LabeledIssue } from './types'
+import fs from 'node:fs'
+import process from 'node:process'
+import { fetchDetailedIssue, filterFlakyTestIssues, resolveFilterProviders } from './agents/filterer'
+import { getLogger } from './logger'
+import { LabeledIssueSchema } from './types'
+import { writeFileAtomic } from './utils/checkpoint'
+import { parseRecords, readRecords } from './utils/records'
+
+export interface ClassificationMetrics {
+  /** Confusion matrix, flaky is the positive class */
+  tp: number
+  fp: number
+  fn: number
+  tn: number
+  precision: number
+  recall: number
+  f1: number
+  accuracy: number
+}
+
+/** Metrics when only results with at least this flaky score count as flaky */
+export interface ThresholdPoint {
+  threshold: number
+  precision: number
+  recall: number
+  f1: number
+}
+
+export interface EvalItem {
+  url: string
+  title: string
+  expected: boolean
+  /** Missing when the issue couldn't be analyzed */
+  predicted?: boolean
+  confidence?: number
+  expectedCause?: FlakinessCategory
+  predictedCause?: FlakinessCategory
+  needsReview?: boolean
+}
+
+export interface EvalReport {
+  createdAt: string
+  items: EvalItem[]
+  /** Labeled issues without a prediction, left out of the metrics */
+  missing: number
+  metrics: ClassificationMetrics
+  thresholds: ThresholdPoint[]
+  /** Root causes of the flaky issues labeled with one, as predicted (`none` when not predicted) */
+  causes?: {
+    labeled: number
+    accuracy: number
+    matrix: Record<string, Record<string, number>>
+  }
+}
+
+export interface EvalItemDiff {
+  url: string
+  title: string
+  expected: boolean
+  before?: EvalItem
+  after?: EvalItem
+}
+
+export interface EvalOptions extends Pick<FilterAgentOptions, 'llm' | 'budget' | 'cassette' | 'concurrency' | 'heuristics' | 'voting'> {
+  /** Labeled issues, JSON or NDJSON */
+  datasetFile: string
+  /** Score these filter results instead of running the filter */
+  predictionsFile?: string
+  /**
+   * Issue data by URL. Issues missing from it are fetched and added, so later runs with other
+   * prompts or models analyze the same data
+   */
+  fixturesFile?: string
+  /** Earlier report to show the changed predictions against */
+  compareFile?: string
+  /** The report goes to stdout when not given */
+  outputFile?: string
+}
+
+const THRESHOLDS = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100]
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator
+}
+
+function metricsOf(pairs: { expected: boolean, predicted: boolean }[]): ClassificationMetrics {
+  const count = (expected: boolean, predicted: boolean) => pairs.filter(pair => pair.expected === expected && pair.predicted === predicted).length
+  const tp = count(true, true)
+  const fp = count(false, true)
+  const fn = count(true, false)
+  const tn = count(false, false)
+  const precision = ratio(tp, tp + fp)
+  const recall = ratio(tp, tp + fn)
+  return { tp, fp, fn, tn, precision, recall, f1: ratio(2 * precision * recall, precision + recall), accuracy: ratio(tp + tn, pairs.length) }
+}
+
+// Confidence is in the decision, so confidently not flaky results score close to 0
+function flakyScore({ predicted, confidence = 50 }: EvalItem): number {
+  return predicted ? confidence : 100 - confidence
+}
+
+// Labels only need a URL, the rest of a find result is filled in by the forge
+function labeledResult({ isFlakyTestIssue: _, rootCause: __, ...label }: LabeledIssue): FindResult {
+  const path = new URL(label.url).pathname
+  return {
+    title: label.url,
+    repo: path.includes('/-/') ? path.slice(1, path.indexOf('/-/')) : path.split('/').slice(1, 3).join('/'),
+    stars: 0,
+    comments: 0,
+    reactions: 0,
+    created: '',
+    ...label,
+  }
+}
+
+/** Scores filter results against the labels they were produced for, matched by URL */
+export function evaluate(labels: LabeledIssue[], predictions: FilteredResult[]): EvalReport {
+  const byUrl = new Map(predictions.map(prediction => [prediction.url, prediction]))
+  const items: EvalItem[] = labels.map((label) => {
+    const prediction = byUrl.get(label.url)
+    return {
+      url: label.url,
+      title: label.title ?? prediction?.title ?? label.url,
+      expected: label.isFlakyTestIssue,
+      predicted: prediction?.isFlakyTestIssue,
+      confidence: prediction?.confidence,
+      expectedCause: label.rootCause,
+      predictedCause: prediction?.rootCause?.category,
+      needsReview: prediction?.needsReview,
+    }
+  })
+  const scored = items.filter(item => item.predicted !== undefined)
+
+  const thresholds = THRESHOLDS.map((threshold) => {
+    const { precision, recall, f1 } = metricsOf(scored.map(item => ({ expected: item.expected, predicted: flakyScore(item) >= threshold })))
+    return { threshold, precision, recall, f1 }
+  })
+
+  const withCause = scored.filter(item => item.expected && item.expectedCause)
+  const matrix: Record<string, Record<string, number>> = {}
+  for (const { expectedCause, predictedCause = 'none' } of withCause) {
+    const row = matrix[expectedCause!] ??= {}
+    row[predictedCause] = (row[predictedCause] ?? 0) + 1
+  }
+
+  return {
+    createdAt: new Date().toISOString(),
+    items,
+    missing: items.length - scored.length,
+    metrics: metricsOf(scored.map(item => ({ expected: item.expected, predicted: item.predicted! }))),
+    thresholds,
+    causes: withCause.length > 0
+      ? { labeled: withCause.length, accuracy: ratio(withCause.filter(item => item.predictedCause === item.expectedCause).length, withCause.length), matrix }
+      : undefined,
+  }
+}
+
+/** Items whose decision or root cause differs between two reports, or that only one of them has */
+export function diffEvalReports(before: EvalReport, after: EvalReport): EvalItemDiff[] {
+  const previous = new Map(before.items.map(item => [item.url, item]))
+  const diffs: EvalItemDiff[] = []
+  for (const item of after.items) {
+    const old = previous.get(item.url)
+    previous.delete(item.url)
+    if (old && old.predicted === item.predicted && old.predictedCause === item.predictedCause)
+      continue
+    diffs.push({ url: item.url, title: item.title, expected: item.expected, before: old, after: item })
+  }
+  for (const old of previous.values())
+    diffs.push({ url: old.url, title: old.title, expected: old.expected, before: old })
+  return diffs
+}
+
+// ---- Output report ----
+function formatTable(rows: (string | number)[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => String(row[column]).length)))
+  return rows
+    .map(row => row.map((cell, column) => column === 0 ? String(cell).padEnd(widths[column]) : String(cell).padStart(widths[column])).join('  '))
+    .join('\n')
+}
+
+const percent = (value: number) => `${(100 * value).toFixed(1)}%`
+
+function describePrediction(item?: EvalItem): string {
+  if (!item)
+    return 'not in the dataset'
+  if (item.predicted === undefined)
+    return 'not analyzed'
+  const cause = item.predictedCause ? `, ${item.predictedCause}` : ''
+  return `${item.predicted ? 'flaky' : 'not flaky'} (${item.confidence}%${cause})`
+}
+
+function logReport({ items, missing, metrics, thresholds, causes }: EvalReport): void {
+  const logger = getLogger()
+  logger.info(`\n📏 Evaluated ${items.length - missing}/${items.length} labeled issues${missing ? ` (${missing} couldn't be analyzed)` : ''}`)
+  logger.info(`Precision ${percent(metrics.precision)}, recall ${percent(metrics.recall)}, F1 ${percent(metrics.f1)}, accuracy ${percent(metrics.accuracy)}`)
+
+  logger.info('\nConfusion matrix (rows are labels, columns predictions):')
+  logger.info(formatTable([
+    ['', 'flaky', 'not flaky'],
+    ['flaky', metrics.tp, metrics.fn],
+    ['not flaky', metrics.fp, metrics.tn],
+  ]))
+
+  logger.info('\nConfidence threshold curve (flaky when the flaky score is at least the threshold):')
+  logger.info(formatTable([
+    ['threshold', 'precision', 'recall', 'F1'],
+    ...thresholds.map(({ threshold, precision, recall, f1 }) => [threshold, percent(precision), percent(recall), percent(f1)]),
+  ]))
+
+  if (causes) {
+    const predicted = [...new Set(Object.values(causes.matrix).flatMap(row => Object.keys(row)))].sort()
+    logger.info(`\nRoot causes of ${causes.labeled} labeled flaky issues, ${percent(causes.accuracy)} correct (rows are labels, columns predictions):`)
+    logger.info(formatTable([
+      ['', ...predicted],
+      ...Object.entries(causes.matrix).sort(([a], [b]) => a.localeCompare(b)).map(([expected, row]) => [expected, ...predicted.map(cause => row[cause] ?? 0)]),
+    ]))
+  }
+}
+
+function logDiffs(before: EvalReport, after: EvalReport): void {
+  const logger = getLogger()
+  const diffs = diffEvalReports(before, after)
+  const change = (name: keyof ClassificationMetrics) => {
+    const delta = after.metrics[name] - before.metrics[name]
+    return `${name} ${percent(before.metrics[name])} → ${percent(after.metrics[name])} (${delta >= 0 ? '+' : ''}${(100 * delta).toFixed(1)})`
+  }
+  logger.info(`\n🔀 Compared with the report of ${before.createdAt}: ${change('precision')}, ${change('recall')}, ${change('f1')}`)
+  if (diffs.length === 0) {
+    logger.info('No predictions changed.')
+    return
+  }
+  for (const { url, title, expected, before, after } of diffs) {
+    // Fixed and broken are judged by the decision, cause changes are neutral
+    const fixed = after?.predicted === expected && before?.predicted !== expected
+    const broken = before?.predicted === expected && after?.predicted !== expected
+    logger.info(`${fixed ? '✅' : broken ? '❌' : '🔁'} ${title} (labeled ${expected ? 'flaky' : 'not flaky'})`)
+    logger.info(`   ${url}`)
+    logger.info(`   ${describePrediction(before)} → ${describePrediction(after)}`)
+  }
+}
+
+// Checks the fields the comparison reads, so another file fails up front rather than after the filter ran
+function readEvalReport(file: string): EvalReport {
+  let report: Partial<EvalReport> | null
+  try {
+    report = JSON.parse(fs.readFileSync(file, 'utf-8'))
+  }
+  catch (error) {
+    throw new Error(`Cannot read the report to compare with from ${file}: ${(error as Error).message}`)
+  }
+  if (typeof report?.createdAt !== 'string' || !Array.isArray(report.items) || typeof report.metrics !== 'object' || report.metrics === null)
+    throw new Error(`${file} is not an evaluation report, pass a report written by flaki eval --output to --compare`)
+  return report as EvalReport
+}
+
+// ---- CLI integration ----
+export async function runEval(options: EvalOptions): Promise<EvalReport> {
+  const logger = getLogger()
+  const { datasetFile, predictionsFile, fixturesFile, compareFile, outputFile } = options
+
+  const labels: LabeledIssue[] = []
+  for await (const record of readRecords(datasetFile)) {
+    const validation = LabeledIssueSchema.safeParse(record)
+    if (!validation.success) {
+      throw new Error(`Invalid labeled issue ${labels.length + 1} in ${datasetFile}: ${validation.error.message}`)
+    }
+    labels.push(validation.data)
+  }
+  logger.info(`Loaded ${labels.length} labeled issues (${labels.filter(label => label.isFlakyTestIssue).length} flaky) from ${datasetFile}`)
+  const before = compareFile ? readEvalReport(compareFile) : undefined
+
+  let predictions: FilteredResult[]
+  if (predictionsFile) {
+    predictions = parseRecords<FilteredResult>(fs.readFileSync(predictionsFile, 'utf-8'))
+  }
+  else {
+    const fixtures: Record<string, DetailedIssue> = fixturesFile && fs.existsSync(fixturesFile) ? JSON.parse(fs.readFileSync(fixturesFile, 'utf-8')) : {}
+    // Fetched issues are saved right away, so an interrupted run doesn't fetch them again
+    async function fetchIssue(result: FindResult): Promise<DetailedIssue | null> {
+      if (fixtures[result.url])
+        return fixtures[result.url]
+      const issue = await fetchDetailedIssue(result)
+      if (issue) {
+        fixtures[result.url] = issue
+        writeFileAtomic(fixturesFile!, JSON.stringify(fixtures, null, 2))
+      }
+      return issue
+    }
+
+    const { cassette, provider, voters } = resolveFilterProviders(options)
+    predictions = []
+    const filtered = filterFlakyTestIssues(labels.map(labeledResult), provider, {
+      budget: options.budget,
+      cassette,
+      concurrency: options.concurrency,
+      heuristics: options.heuristics,
+      voters,
+      fetchIssue: fixturesFile ? fetchIssue : undefined,
+    })
+    for await (const prediction of filtered)
+      predictions.push(prediction)
+  }
+
+  const report = evaluate(labels, predictions)
+  logReport(report)
+  if (before)
+    logDiffs(before, report)
+
+  if (outputFile) {
+    writeFileAtomic(outputFile, JSON.stringify(report, null, 2))
+    logger.info(`\n✅ Evaluation report saved to ${outputFile}`)
+  }
+  else {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`)
+  }
+  return report
+}
@@ -1,17 +1,22 @@
-import type { FindResult, GraphQLIssueResponse, Repo } from './types'
+import type { FindSource, ForgeType, IssueState, IssueType } from './constants'
+import type { Forge, SearchScope } from './forges'
+import type { FindResult, Repo } from './types'
+import type { OutputFormat } from './utils/records'
 import * as fs from 'node:fs'
-import { setTimeout } from 'node:timers/promises'
 
-import { octokit } from './clients'
+import { SEARCH_PRESETS } from './constants'
+import { getForge } from './forges'
 import { getLogger } from './logger'
+import { classifyRootCause, countRootCauses } from './taxonomy'
+import { createResultWriter } from './utils/checkpoint'
 
 // ---- Fetch repos (with cache) ----
-async function fetchRepos(repoQuery: string, repoPages: number, repoPerPage: number, cacheFile: string | undefined, verbose = false): Promise<Repo[]> {
+async function fetchRepos(forge: Forge, repoQuery: string, repoPages: number, repoPerPage: number, cacheFile: string | undefined, verbose = false): Promise<Repo[]> {
   const logger = getLogger()
 
   if (cacheFile && fs.existsSync(cacheFile)) {
     const cache = JSON.parse(fs.readFileSync(cacheFile, 'utf-8'))
-    if (cache.query === repoQuery && cache.pages >= repoPages && cache.perPage === repoPerPage) {
+    if (cache.query === repoQuery && cache.forge === forge.type && cache.pages >= repoPages && cache.perPage === repoPerPage) {
       if (verbose)
         logger.info(`Using cached repos for query: ${repoQuery}`)
       return cache.repos
@@ -20,113 +25,98 @@ async function fetchRepos(repoQuery: string, repoPages: number, repoPerPage: num
 
   if (verbose)
     logger.info(`Fetching repos with query: ${repoQuery}, pages: ${repoPages}, per page: ${repoPerPage}`)
-  const repos: Repo[] = []
-  for (let page = 1; page <= repoPages; page++) {
-    if (verbose)
-      logger.info(`Fetching repo page ${page}/${repoPages}...`)
-    const data = await octokit.rest.search.repos({
-      q: repoQuery,
-      sort: 'stars',
-      order: 'desc',
-      per_page: repoPerPage,
-      page,
-    })
-    repos.push(...data.data.items)
-    await setTimeout(1000)
-  }
+  const repos = await forge.searchRepos(repoQuery, repoPages, repoPerPage, verbose)
 
   if (cacheFile) {
-    fs.writeFileSync(cacheFile, JSON.stringify({ query: repoQuery, pages: repoPages, perPage: repoPerPage, repos }))
+    fs.writeFileSync(cacheFile, JSON.stringify({ query: repoQuery, forge: forge.type, pages: repoPages, perPage: repoPerPage, repos }))
   }
   if (verbose)
     logger.info(`Fetched ${repos.length} repos`)
   return repos
 }
 
-async function fetchIssues(repos: Repo[], cutoff: string, issuePages: number, issuePerPage: number, verbose = false): Promise<FindResult[]> {
-  const logger = getLogger()
-  const results: FindResult[] = []
-  const seen = new Set<string>()
-
-  const query = `
-    query($searchQuery: String!, $first: Int!, $after: String) {
-      search(query: $searchQuery, type: ISSUE, first: $first, after: $after) {
-        edges {
-          node {
-            ... on Issue {
-              title
-              url
-              createdAt
-              comments {
-                totalCount
-              }
-              reactions {
-                totalCount
-              }
-            }
-          }
-        }
-        pageInfo {
-          endCursor
-          hasNextPage
-        }
-      }
-    }
-  `
+// ---- Build search queries ----
+export interface SearchStrategy {
+  /** Name of a keyword preset from SEARCH_PRESETS */
+  preset?: string
+  /** Replaces the preset keywords */
+  keywords?: string[]
+  /** Labels searched in addition to the preset labels, each label is a separate query */
+  labels?: string[]
+  exclude?: string[]
+  state?: IssueState
+  type?: IssueType
+}
 
-  if (verbose)
-    logger.info(`Processing ${repos.length} repos for issues...`)
-  for (let i = 0; i < repos.length; i++) {
-    const repo = repos[i]
-    if (verbose)
-      logger.info(`[${i + 1}/${repos.length}] Processing repo: ${repo.full_name}`)
-    const fullName = repo.full_name
-    const stars = repo.stargazers_count
-    const searchQuery = `repo:${fullName} ("flaky" OR "flakey" OR "intermittent") created:>${cutoff} is:issue is:open`
-    let after: string | null = null
-    for (let page = 1; page <= issuePages; page++) {
-      if (verbose)
-        logger.info(`  Fetching issues page ${page} for ${fullName}...`)
-      const variables: { searchQuery: string, first: number, after: string | null } = {
-        searchQuery,
-        first: issuePerPage,
-        after,
-      }
-      const data = await octokit.graphql<GraphQLIssueResponse>(query, variables)
-      const edges = data.search.edges
-      if (verbose)
-        logger.info(`  Found ${edges.length} issues on this page`)
-      for (const edge of edges) {
-        const issue = edge.node
-        const entry: FindResult = {
-          title: issue.title,
-          url: issue.url,
-          repo: fullName,
-          stars,
-          comments: issue.comments.totalCount,
-          reactions: issue.reactions.totalCount,
-          created: issue.createdAt.slice(0, 10),
-        }
-        if (!seen.has(entry.url)) {
-          results.push(entry)
-          seen.add(entry.url)
-        }
-      }
-      if (!data.search.pageInfo.hasNextPage)
-        break
-      after = data.search.pageInfo.endCursor
-      await setTimeout(1000) // throttle
-    }
+// GitHub rejects search queries with more than five AND/OR/NOT operators
+const MAX_SEARCH_OPERATORS = 5
+
+function quote(term: string): string {
+  return /[\s:"]/.test(term) ? `"${term.replaceAll('"', '')}"` : term
+}
+
+/** Keywords and labels to search for, from the preset and the explicit options */
+export function resolveSearchTerms(strategy: SearchStrategy): { keywords: string[], labels: string[] } {
+  const { preset = 'default' } = strategy
+  const presetTerms = SEARCH_PRESETS[preset]
+  if (!presetTerms) {
+    throw new Error(`Unknown search preset: ${preset}. Available presets: ${Object.keys(SEARCH_PRESETS).join(', ')}`)
+  }
+  return {
+    keywords: strategy.keywords ?? presetTerms.keywords,
+    labels: [...new Set([...presetTerms.labels ?? [], ...strategy.labels ?? []])],
   }
-  if (verbose)
-    console.log(`Total issues collected: ${results.length}`)
-  return results
+}
+
+export function buildSearchQueries(scope: string, cutoff: string, strategy: SearchStrategy = {}): string[] {
+  const { exclude = [], state = 'open', type = 'issue' } = strategy
+  const { keywords, labels } = resolveSearchTerms(strategy)
+
+  if (exclude.length > MAX_SEARCH_OPERATORS) {
+    throw new Error(`Too many exclusion terms (${exclude.length}), GitHub allows at most ${MAX_SEARCH_OPERATORS} operators per query`)
+  }
+  const keywordsPerQuery = MAX_SEARCH_OPERATORS - exclude.length + 1
+
+  const qualifiers = [
+    scope,
+    `created:>${cutoff}`,
+    type === 'all' ? '' : `is:${type}`,
+    state === 'all' ? '' : `is:${state}`,
+    ...exclude.map(term => `NOT ${quote(term)}`),
+  ].filter(Boolean).join(' ')
+
+  const queries: string[] = []
+  // Long keyword lists are split over several queries to stay within the operator limit
+  for (let i = 0; i < keywords.length; i += keywordsPerQuery) {
+    const terms = keywords.slice(i, i + keywordsPerQuery).map(term => `"${term.replaceAll('"', '')}"`)
+    queries.push(`${terms.length > 1 ? `(${terms.join(' OR ')})` : terms[0]} ${qualifiers}`)
+  }
+  for (const label of labels)
+    queries.push(`label:${quote(label)} ${qualifiers}`)
+  return queries
+}
+
+// ---- Resolve search scopes ----
+function readReposFile(reposFile: string): string[] {
+  return fs.readFileSync(reposFile, 'utf-8')
+    .split('\n')
+    .map(line => line.replace(/#.*/, '').trim())
+    .filter(Boolean)
+    .map((repo) => {
+      // GitLab projects may be nested in subgroups
+      if (!/^[\w.-]+(?:\/[\w.-]+)+$/.test(repo)) {
+        throw new Error(`Invalid repository '${repo}' in ${reposFile}, expected 'owner/repo'`)
+      }
+      return repo
+    })
 }
 
 // ---- Output results ----
+// Logged to stderr so stdout stays clean for piping into `flaki filter`
 function outputResults(results: FindResult[]): void {
+  const logger = getLogger()
   if (!results.length) {
-    console.log('No issues found.')
+    logger.info('No issues found.')
     return
   }
 
@@ -142,40 +132,105 @@ function outputResults(results: FindResult[]): void {
   for (const issue of results) {
     counts[issue.repo] = (counts[issue.repo] || 0) + 1
   }
-  console.log('\n## Analysis: Repos with most flaky test issues')
+  logger.info('\n## Analysis: Repos with most flaky test issues')
   Object.entries(counts)
     .sort(([, a], [, b]) => b - a)
     .slice(0, 10)
     .forEach(([repo, count]) => {
-      console.log(`- ${repo}: ${count} issues`)
+      logger.info(`- ${repo}: ${count} issues`)
     })
+
+  // Find results only carry titles and log excerpts, so these are rough hints until `flaki filter` reads the issues
+  const causes = countRootCauses(results.map(result => ({ rootCause: classifyRootCause(result) })))
+  if (causes.length > 0) {
+    logger.info('\n## Analysis: Suspected causes by wording')
+    for (const [category, count] of causes)
+      logger.info(`- ${category}: ${count} issues`)
+  }
+}
+
+export interface FindAgentOptions extends SearchStrategy {
+  /** Search issues in the top repos matching this GitHub repo search query */
+  repoQuery?: string
+  /** Search issues in the repos listed in this file, one `owner/repo` per line */
+  reposFile?: string
+  /** Search issues across all repos of this organization (or GitLab group) */
+  org?: string
+  /** Forge to search, github by default */
+  forge?: ForgeType
+  /** Web URL of a self-hosted forge instance */
+  forgeUrl?: string
+  months: number
+  repoPages: number
+  repoPerPage: number
+  issuePages: number
+  issuePerPage: number
+  /** Where to look for flaky tests, issues by default */
+  sources?: FindSource[]
+  /** Maximum number of workflow runs scanned per repo by the actions source */
+  maxRuns?: number
+  outputFile?: string
+  cacheFile?: string
+  verbose?: boolean
+  format?: OutputFormat
+}
+
+async function* fetchWorkflowFindings(repos: string[], cutoff: string, maxRuns: number, verbose: boolean): AsyncGenerator<FindResult> {
+  const logger = getLogger()
+  if (verbose)
+    logger.info(`Scanning GitHub Actions runs of ${repos.length} repos...`)
+  for (const [i, repo] of repos.entries()) {
+    if (verbose)
+      logger.info(`[${i + 1}/${repos.length}] Scanning workflow runs of ${repo}`)
+    try {
+      const { fetchFlakyWorkflowJobs } = await import('./sources/actions')
+      yield* fetchFlakyWorkflowJobs(repo, { cutoff, maxRuns, verbose })
+    }
+    catch (error) {
+      logger.error(`❌ Failed to scan workflow runs of ${repo}: ${(error as Error).message}`)
+    }
+  }
 }
 
-export async function runFindAgent(
-  repoQuery: string,
-  months: number,
-  repoPages: number,
-  repoPerPage: number,
-  issuePages: number,
-  issuePerPage: number,
-  outputFile?: string,
-  cacheFile?: string,
-  verbose = false,
-): Promise<void> {
+export async function runFindAgent(options: FindAgentOptions): Promise<void> {
   const logger = getLogger()
+  const { repoQuery, reposFile, org, months, repoPages, repoPerPage, issuePages, issuePerPage, sources = ['issues'], maxRuns = 100, outputFile, cacheFile, verbose = false } = options
+  if (!repoQuery && !reposFile && !org) {
+    throw new Error('One of --repo-query, --repos-file or --org is required')
+  }
+  const forge = await getForge({ type: options.forge ?? 'github', baseUrl: options.forgeUrl })
+  if (sources.includes('actions') && forge.type !== 'github') {
+    throw new Error('The actions source is only available on GitHub')
+  }
   const cutoff = new Date(Date.now() - months * 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
-  const repos = await fetchRepos(repoQuery, repoPages, repoPerPage, cacheFile, verbose)
-  const results = await fetchIssues(repos, cutoff, issuePages, issuePerPage, verbose)
 
-  const resultStr = JSON.stringify(results, null, 2)
-  if (outputFile) {
-    fs.writeFileSync(outputFile, resultStr)
-    if (verbose)
-      logger.info(`Results saved to ${outputFile}`)
+  const repos: string[] = []
+  if (repoQuery)
+    repos.push(...(await fetchRepos(forge, repoQuery, repoPages, repoPerPage, cacheFile, verbose)).map(repo => repo.full_name))
+  if (reposFile)
+    repos.push(...readReposFile(reposFile))
+
+  // Find results are cheap to recreate, so JSON output is only written once at the end
+  const writer = createResultWriter<FindResult>({ outputFile, keyOf: r => r.url, format: options.format, checkpoint: false })
+  if (sources.includes('issues')) {
+    const scopes: SearchScope[] = [...new Set(repos)].map(name => ({ kind: 'repo', name }))
+    if (org)
+      scopes.push({ kind: 'group', name: org })
+    for await (const result of forge.searchIssues(scopes, { cutoff, pages: issuePages, perPage: issuePerPage, strategy: options, verbose }))
+      writer.write(result)
   }
-  else {
-    console.log(resultStr)
+  if (sources.includes('actions')) {
+    // Workflow runs belong to repos, so organizations are expanded into their most recently pushed repos
+    const actionRepos = org ? [...repos, ...await forge.listGroupRepos(org, repoPages, repoPerPage)] : repos
+    for await (const result of fetchWorkflowFindings([...new Set(actionRepos)], cutoff, maxRuns, verbose))
+      writer.write(result)
   }
+  writer.close()
+
+  if (outputFile && verbose)
+    logger.info(`Results saved to ${outputFile}`)
+  if (verbose)
+    await forge.logQuota?.()
 
-  outputResults(results)
+  outputResults(writer.results)
 }
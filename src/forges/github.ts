@@ -0,0 +1,370 @@
+import type { DetailedIssue, FindResult, GraphQLIssueResponse, GraphQLPullRequestNode, GraphQLReferenceNode, GraphQLTimelineResponse, LinkedPullRequest, Repo } from '../types'
+import type { CiJobLog, Forge, IssueSearchOptions, SearchScope } from './index'
+import { Buffer } from 'node:buffer'
+import process from 'node:process'
+import { octokit } from '../clients'
+import { buildSearchQueries } from '../find'
+import { getLogger } from '../logger'
+import { parseActionsUrl } from '../utils/logs'
+import { isTestFile } from './index'
+
+function splitRepo(repoFullName: string): [owner: string, repo: string] {
+  const [owner, repo] = repoFullName.split('/')
+  return [owner, repo]
+}
+
+// ---- Search repos ----
+async function searchRepos(query: string, pages: number, perPage: number, verbose = false): Promise<Repo[]> {
+  const logger = getLogger()
+  const repos: Repo[] = []
+  for (let page = 1; page <= pages; page++) {
+    if (verbose)
+      logger.info(`Fetching repo page ${page}/${pages}...`)
+    const data = await octokit.rest.search.repos({
+      q: query,
+      sort: 'stars',
+      order: 'desc',
+      per_page: perPage,
+      page,
+    })
+    repos.push(...data.data.items)
+  }
+  return repos
+}
+
+async function listGroupRepos(org: string, pages: number, perPage: number): Promise<string[]> {
+  const repos: string[] = []
+  for (let page = 1; page <= pages; page++) {
+    const { data } = await octokit.rest.repos.listForOrg({ org, type: 'public', sort: 'pushed', per_page: perPage, page })
+    repos.push(...data.map(repo => repo.full_name))
+    if (data.length < perPage)
+      break
+  }
+  return repos
+}
+
+// ---- Search issues ----
+const fields = `
+  title
+  url
+  createdAt
+  comments {
+    totalCount
+  }
+  reactions {
+    totalCount
+  }
+  repository {
+    nameWithOwner
+    stargazerCount
+  }
+`
+
+const searchQuery = `
+  query($searchQuery: String!, $first: Int!, $after: String) {
+    search(query: $searchQuery, type: ISSUE, first: $first, after: $after) {
+      edges {
+        node {
+          ... on Issue {
+            ${fields}
+          }
+          ... on PullRequest {
+            ${fields}
+          }
+        }
+      }
+      pageInfo {
+        endCursor
+        hasNextPage
+      }
+    }
+  }
+`
+
+async function* searchIssues(scopes: SearchScope[], { cutoff, pages, perPage, strategy, verbose = false }: IssueSearchOptions): AsyncGenerator<FindResult> {
+  const logger = getLogger()
+  const seen = new Set<string>()
+
+  if (verbose)
+    logger.info(`Processing ${scopes.length} search scopes for issues...`)
+  for (const [i, { kind, name }] of scopes.entries()) {
+    const scope = `${kind === 'repo' ? 'repo' : 'org'}:${name}`
+    if (verbose)
+      logger.info(`[${i + 1}/${scopes.length}] Processing ${scope}`)
+    for (const query of buildSearchQueries(scope, cutoff, strategy)) {
+      if (verbose)
+        logger.info(`  Searching: ${query}`)
+      let after: string | null = null
+      try {
+        for (let page = 1; page <= pages; page++) {
+          if (verbose)
+            logger.info(`  Fetching issues page ${page}...`)
+          const variables: { searchQuery: string, first: number, after: string | null } = {
+            searchQuery: query,
+            first: perPage,
+            after,
+          }
+          const data = await octokit.graphql<GraphQLIssueResponse>(searchQuery, variables)
+          const edges = data.search.edges
+          if (verbose)
+            logger.info(`  Found ${edges.length} issues on this page`)
+          for (const edge of edges) {
+            const issue = edge.node
+            // Issues found by several queries are only reported once
+            if (!issue.url || seen.has(issue.url))
+              continue
+            seen.add(issue.url)
+            yield {
+              title: issue.title,
+              url: issue.url,
+              repo: issue.repository.nameWithOwner,
+              stars: issue.repository.stargazerCount,
+              comments: issue.comments.totalCount,
+              reactions: issue.reactions.totalCount,
+              created: issue.createdAt.slice(0, 10),
+            }
+          }
+          if (!data.search.pageInfo.hasNextPage)
+            break
+          after = data.search.pageInfo.endCursor
+        }
+      }
+      catch (error) {
+        // Requests are already retried, so skip the query instead of losing the whole sweep
+        logger.error(`❌ Failed to search ${scope}: ${(error as Error).message}`)
+      }
+    }
+  }
+  if (verbose)
+    logger.info(`Total issues collected: ${seen.size}`)
+}
+
+// ---- Fetch detailed issue data ----
+const pullRequestFields = `
+  ... on PullRequest {
+    __typename
+    title
+    url
+    state
+    merged
+    mergeCommit {
+      oid
+    }
+    files(first: 100) {
+      nodes {
+        path
+      }
+    }
+  }
+`
+
+const timelineFields = `
+  timelineItems(first: 50, after: $after, itemTypes: [CROSS_REFERENCED_EVENT, CONNECTED_EVENT, CLOSED_EVENT]) {
+    nodes {
+      __typename
+      ... on CrossReferencedEvent {
+        willCloseTarget
+        source {
+          __typename
+          ${pullRequestFields}
+        }
+      }
+      ... on ConnectedEvent {
+        subject {
+          __typename
+          ${pullRequestFields}
+        }
+      }
+      ... on ClosedEvent {
+        closer {
+          __typename
+          ${pullRequestFields}
+        }
+      }
+    }
+    pageInfo {
+      endCursor
+      hasNextPage
+    }
+  }
+`
+
+const timelineQuery = `
+  query($owner: String!, $repo: String!, $number: Int!, $after: String) {
+    repository(owner: $owner, name: $repo) {
+      issueOrPullRequest(number: $number) {
+        ... on Issue {
+          ${timelineFields}
+        }
+        ... on PullRequest {
+          ${timelineFields}
+        }
+      }
+    }
+  }
+`
+
+function linkedPullRequest(pr: GraphQLPullRequestNode, closes: boolean): LinkedPullRequest {
+  return {
+    title: pr.title,
+    url: pr.url,
+    merged: pr.merged,
+    state: pr.state.toLowerCase() as LinkedPullRequest['state'],
+    closes,
+    mergeCommit: pr.mergeCommit?.oid,
+    changedTestFiles: pr.files?.nodes.map(file => file.path).filter(isTestFile) ?? [],
+  }
+}
+
+// Pull requests that mention, close or were manually linked to the issue, including ones from other repositories
+async function fetchLinkedPullRequests(owner: string, repo: string, number: number): Promise<LinkedPullRequest[]> {
+  const linked = new Map<string, LinkedPullRequest>()
+  const add = (node: GraphQLReferenceNode | null, closes: boolean) => {
+    if (node?.__typename !== 'PullRequest')
+      return
+    const existing = linked.get(node.url)
+    if (existing)
+      existing.closes ||= closes
+    else
+      linked.set(node.url, linkedPullRequest(node, closes))
+  }
+
+  let after: string | null = null
+  do {
+    const data: GraphQLTimelineResponse = await octokit.graphql<GraphQLTimelineResponse>(timelineQuery, { owner, repo, number, after })
+    const timeline = data.repository.issueOrPullRequest?.timelineItems
+    if (!timeline)
+      break
+    for (const event of timeline.nodes) {
+      if (event.__typename === 'CrossReferencedEvent')
+        add(event.source, event.willCloseTarget)
+      else if (event.__typename === 'ConnectedEvent')
+        add(event.subject, true)
+      else
+        add(event.closer, true)
+    }
+    after = timeline.pageInfo.hasNextPage ? timeline.pageInfo.endCursor : null
+  } while (after)
+  return [...linked.values()]
+}
+
+async function fetchIssue({ url, stars }: FindResult): Promise<DetailedIssue> {
+  // Extract owner, repo, and issue number from URL
+  const urlMatch = new URL(url).pathname.match(/^\/([^/]+)\/([^/]+)\/(?:issues|pull)\/(\d+)/)
+  if (!urlMatch) {
+    throw new Error(`Invalid GitHub issue URL: ${url}`)
+  }
+
+  const [, owner, repo, issueNumber] = urlMatch
+  const issue_number = +issueNumber
+
+  const { data: issue } = await octokit.rest.issues.get({ owner, repo, issue_number })
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, { owner, repo, issue_number, per_page: 100 })
+  const linkedPRs = await fetchLinkedPullRequests(owner, repo, issue_number)
+
+  return {
+    title: issue.title,
+    url: issue.html_url,
+    repo: `${owner}/${repo}`,
+    stars,
+    comments: issue.comments,
+    reactions: issue.reactions?.total_count || 0,
+    created: issue.created_at,
+    body: issue.body || undefined,
+    labels: issue.labels.map(label => typeof label === 'string' ? label : label.name ?? '').filter(Boolean),
+    commentsList: comments.map(comment => ({
+      body: comment.body || '',
+      author: comment.user?.login || 'unknown',
+      createdAt: comment.created_at,
+    })),
+    linkedPRs,
+  }
+}
+
+// ---- Read repository contents ----
+async function readFile(repoFullName: string, path: string): Promise<string> {
+  const [owner, repo] = splitRepo(repoFullName)
+  const response = await octokit.rest.repos.getContent({
+    owner,
+    repo,
+    path,
+  })
+
+  // GitHub API returns different formats for files vs directories
+  if (Array.isArray(response.data)) {
+    throw new TypeError(`${path} is a directory, not a file`)
+  }
+
+  if ('content' in response.data && response.data.type === 'file') {
+    // Decode base64 content
+    return Buffer.from(response.data.content, 'base64').toString('utf-8')
+  }
+
+  throw new Error(`Unable to read file: ${path}`)
+}
+
+async function listDir(repoFullName: string, path: string): Promise<string[]> {
+  const [owner, repo] = splitRepo(repoFullName)
+  const response = await octokit.rest.repos.getContent({
+    owner,
+    repo,
+    path: path === '.' ? '' : path,
+  })
+
+  if (!Array.isArray(response.data)) {
+    throw new TypeError(`${path} is a file, not a directory`)
+  }
+  return response.data.map(item => item.name)
+}
+
+// ---- Download CI logs ----
+const MAX_CI_JOBS = 3
+
+async function fetchCiLogs(url: string): Promise<CiJobLog[]> {
+  const parsed = parseActionsUrl(url)
+  if (!parsed) {
+    throw new Error(`Not a GitHub Actions run or job URL: ${url}`)
+  }
+  const { owner, repo, runId, jobId } = parsed
+  let jobs
+  if (jobId) {
+    jobs = [(await octokit.rest.actions.getJobForWorkflowRun({ owner, repo, job_id: jobId })).data]
+  }
+  else {
+    // A run links to all of its jobs, the failed ones of its latest attempt are the interesting ones
+    const { data } = await octokit.rest.actions.listJobsForWorkflowRun({ owner, repo, run_id: runId, filter: 'latest', per_page: 100 })
+    jobs = data.jobs.filter(job => job.conclusion === 'failure')
+  }
+
+  const logs: CiJobLog[] = []
+  for (const job of jobs.slice(0, MAX_CI_JOBS)) {
+    const { data } = await octokit.rest.actions.downloadJobLogsForWorkflowRun({ owner, repo, job_id: job.id })
+    logs.push({ name: job.name, url: job.html_url ?? `${url}/job/${job.id}`, conclusion: job.conclusion, log: String(data) })
+  }
+  return logs
+}
+
+// ---- Report remaining quota ----
+async function logQuota(): Promise<void> {
+  const logger = getLogger()
+  try {
+    // Checking the rate limit doesn't count against it
+    const { data } = await octokit.rest.rateLimit.get()
+    for (const [name, resource] of Object.entries(data.resources)) {
+      if (resource && ['core', 'search', 'graphql'].includes(name)) {
+        const reset = new Date(resource.reset * 1000).toLocaleTimeString()
+        logger.info(`GitHub ${name} quota: ${resource.remaining}/${resource.limit} remaining, resets at ${reset}`)
+      }
+    }
+  }
+  catch (error) {
+    logger.warn(`Failed to fetch GitHub rate limits: ${(error as Error).message}`)
+  }
+}
+
+export function createGitHubForge(webUrl = 'https://github.com'): Forge {
+  // The client sends API requests to GITHUB_API_URL, a self-hosted web URL alone would send them to github.com
+  if (webUrl !== 'https://github.com' && !process.env.GITHUB_API_URL)
+    throw new Error(`GITHUB_API_URL must be set to the API of ${webUrl}, e.g. ${webUrl}/api/v3`)
+  return { type: 'github', searchRepos, listGroupRepos, searchIssues, fetchIssue, readFile, listDir, logQuota, fetchCiLogs }
+}
@@ -0,0 +1,276 @@
+import type { DetailedIssue, FindResult, LinkedPullRequest, Repo } from '../types'
+import type { Forge, IssueSearchOptions, SearchScope } from './index'
+import process from 'node:process'
+import { setTimeout } from 'node:timers/promises'
+import { resolveSearchTerms } from '../find'
+import { getLogger } from '../logger'
+import { getScheduler, rateLimitDelay } from '../utils/scheduler'
+import { isTestFile } from './index'
+
+const MAX_RATE_LIMIT_RETRIES = 5
+const MAX_TRANSIENT_RETRIES = 4
+
+interface GitLabProject {
+  id: number
+  path_with_namespace: string
+  star_count: number
+  default_branch?: string
+}
+
+interface GitLabIssue {
+  iid: number
+  project_id: number
+  title: string
+  description: string | null
+  web_url: string
+  created_at: string
+  user_notes_count: number
+  upvotes: number
+  downvotes: number
+  labels?: string[]
+}
+
+interface GitLabNote {
+  body: string
+  system: boolean
+  author?: { username: string }
+  created_at: string
+}
+
+interface GitLabMergeRequest {
+  iid: number
+  project_id: number
+  title: string
+  web_url: string
+  state: 'opened' | 'closed' | 'locked' | 'merged'
+  merge_commit_sha?: string | null
+  squash_commit_sha?: string | null
+}
+
+// Shaped like octokit's request errors, so explore and rateLimitDelay handle both forges alike
+function requestError(message: string, status: number, headers?: Headers): Error {
+  return Object.assign(new Error(message), { status, headers })
+}
+
+const STATES = { open: 'opened', closed: 'closed', all: 'all' } as const
+
+function encode(value: string | number): string {
+  return encodeURIComponent(String(value))
+}
+
+export function createGitLabForge(webUrl: string, token = process.env.GITLAB_TOKEN): Forge {
+  const apiUrl = `${webUrl}/api/v4`
+  const projects = new Map<string | number, Promise<GitLabProject>>()
+
+  async function request<T>(path: string, params: Record<string, string | number | undefined> = {}, raw = false): Promise<{ data: T, headers: Headers }> {
+    const logger = getLogger()
+    const limiter = getScheduler().limiter('gitlab')
+    const url = new URL(`${apiUrl}${path}`)
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined)
+        url.searchParams.set(key, String(value))
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await limiter.run(async () => {
+          const response = await fetch(url, { headers: token ? { 'PRIVATE-TOKEN': token } : {} })
+          if (!response.ok) {
+            const body = await response.text()
+            throw requestError(`GitLab ${response.status} for GET ${path}: ${body.slice(0, 200)}`, response.status, response.headers)
+          }
+          return { data: (raw ? await response.text() : await response.json()) as T, headers: response.headers }
+        })
+      }
+      catch (error) {
+        const delay = rateLimitDelay(error, 60_000)
+        if (delay !== undefined && attempt < MAX_RATE_LIMIT_RETRIES) {
+          limiter.backoff(delay)
+          continue
+        }
+        // Failed fetches (no status) are network errors and retried like server errors
+        const status = (error as { status?: number }).status
+        if ((status === undefined || status >= 500) && attempt < MAX_TRANSIENT_RETRIES) {
+          const backoff = 1000 * 2 ** attempt
+          logger.warn(`🔁 GET ${path} failed (${(error as Error).message}), retrying in ${backoff / 1000}s (${attempt + 1}/${MAX_TRANSIENT_RETRIES})`)
+          await setTimeout(backoff)
+          continue
+        }
+        throw error
+      }
+    }
+  }
+
+  // Follows the x-next-page header of GitLab's offset pagination
+  async function* paginate<T>(path: string, params: Record<string, string | number | undefined>, pages: number, perPage: number): AsyncGenerator<T[]> {
+    let page: number | undefined = 1
+    for (let i = 0; i < pages && page; i++) {
+      const { data, headers }: { data: T[], headers: Headers } = await request<T[]>(path, { ...params, per_page: perPage, page })
+      yield data
+      page = Number(headers.get('x-next-page')) || undefined
+    }
+  }
+
+  async function fetchAll<T>(path: string, params: Record<string, string | number | undefined> = {}): Promise<T[]> {
+    const items: T[] = []
+    for await (const data of paginate<T>(path, params, Infinity, 100))
+      items.push(...data)
+    return items
+  }
+
+  function getProject(id: string | number): Promise<GitLabProject> {
+    let project = projects.get(id)
+    if (!project) {
+      project = request<GitLabProject>(`/projects/${encode(id)}`).then(({ data }) => data)
+      project.catch(() => projects.delete(id))
+      projects.set(id, project)
+    }
+    return project
+  }
+
+  // ---- Search repos ----
+  async function searchRepos(query: string, pages: number, perPage: number, verbose = false): Promise<Repo[]> {
+    const logger = getLogger()
+    const repos: Repo[] = []
+    let page = 0
+    for await (const data of paginate<GitLabProject>('/projects', { search: query, order_by: 'star_count', sort: 'desc' }, pages, perPage)) {
+      if (verbose)
+        logger.info(`Fetching repo page ${++page}/${pages}...`)
+      repos.push(...data.map(project => ({ full_name: project.path_with_namespace, stargazers_count: project.star_count })))
+    }
+    return repos
+  }
+
+  async function listGroupRepos(group: string, pages: number, perPage: number): Promise<string[]> {
+    const repos: string[] = []
+    const params = { include_subgroups: 'true', order_by: 'last_activity_at', sort: 'desc' }
+    for await (const data of paginate<GitLabProject>(`/groups/${encode(group)}/projects`, params, pages, perPage))
+      repos.push(...data.map(project => project.path_with_namespace))
+    return repos
+  }
+
+  // ---- Search issues ----
+  async function* searchIssues(scopes: SearchScope[], { cutoff, pages, perPage, strategy, verbose = false }: IssueSearchOptions): AsyncGenerator<FindResult> {
+    const logger = getLogger()
+    const { exclude = [], state = 'open', type = 'issue' } = strategy
+    const { keywords, labels } = resolveSearchTerms(strategy)
+    const kinds = type === 'all' ? ['issues', 'merge_requests'] : [type === 'pr' ? 'merge_requests' : 'issues']
+    // GitLab has no OR or NOT in searches, so every keyword and label is a separate query and exclusions are applied here
+    const queries = [
+      ...keywords.map(keyword => ({ search: keyword, in: 'title,description' })),
+      ...labels.map(label => ({ labels: label })),
+    ]
+    const excluded = exclude.map(term => term.toLowerCase())
+    const seen = new Set<string>()
+
+    for (const [i, { kind, name }] of scopes.entries()) {
+      const base = kind === 'repo' ? `/projects/${encode(name)}` : `/groups/${encode(name)}`
+      if (verbose)
+        logger.info(`[${i + 1}/${scopes.length}] Processing ${kind === 'repo' ? 'project' : 'group'} ${name}`)
+      for (const endpoint of kinds) {
+        for (const query of queries) {
+          if (verbose)
+            logger.info(`  Searching ${endpoint}: ${JSON.stringify(query)}`)
+          try {
+            const params = { ...query, created_after: cutoff, state: STATES[state], scope: 'all' }
+            for await (const issues of paginate<GitLabIssue>(`${base}/${endpoint}`, params, pages, perPage)) {
+              for (const issue of issues) {
+                const text = `${issue.title}\n${issue.description ?? ''}`.toLowerCase()
+                if (seen.has(issue.web_url) || excluded.some(term => text.includes(term)))
+                  continue
+                seen.add(issue.web_url)
+                const project = await getProject(issue.project_id)
+                yield {
+                  title: issue.title,
+                  url: issue.web_url,
+                  repo: project.path_with_namespace,
+                  stars: project.star_count,
+                  comments: issue.user_notes_count,
+                  reactions: issue.upvotes + issue.downvotes,
+                  created: issue.created_at.slice(0, 10),
+                  forge: 'gitlab',
+                }
+              }
+            }
+          }
+          catch (error) {
+            logger.error(`❌ Failed to search ${name}: ${(error as Error).message}`)
+          }
+        }
+      }
+    }
+    if (verbose)
+      logger.info(`Total issues collected: ${seen.size}`)
+  }
+
+  // ---- Fetch detailed issue data ----
+  async function linkedMergeRequest(mr: GitLabMergeRequest, closes: boolean): Promise<LinkedPullRequest> {
+    const diffs = await fetchAll<{ new_path: string }>(`/projects/${mr.project_id}/merge_requests/${mr.iid}/diffs`)
+    return {
+      title: mr.title,
+      url: mr.web_url,
+      merged: mr.state === 'merged',
+      state: mr.state === 'merged' ? 'merged' : mr.state === 'opened' ? 'open' : 'closed',
+      closes,
+      mergeCommit: mr.merge_commit_sha ?? mr.squash_commit_sha ?? undefined,
+      changedTestFiles: diffs.map(diff => diff.new_path).filter(isTestFile),
+    }
+  }
+
+  async function fetchIssue({ url, stars }: FindResult): Promise<DetailedIssue> {
+    const match = new URL(url).pathname.match(/^\/(.+?)\/-\/(issues|merge_requests)\/(\d+)/)
+    if (!match) {
+      throw new Error(`Invalid GitLab issue URL: ${url}`)
+    }
+    const [, repo, kind, iid] = match
+    const base = `/projects/${encode(repo)}/${kind}/${iid}`
+
+    const { data: issue } = await request<GitLabIssue>(base)
+    const notes = await fetchAll<GitLabNote>(`${base}/notes`, { sort: 'asc' })
+    // Merge requests that mention the issue, and among them the ones closing it through a closing pattern
+    const related = kind === 'issues' ? await fetchAll<GitLabMergeRequest>(`${base}/related_merge_requests`) : []
+    const closing = kind === 'issues' ? await fetchAll<GitLabMergeRequest>(`${base}/closed_by`) : []
+    const closingUrls = new Set(closing.map(mr => mr.web_url))
+    const mergeRequests = [...related, ...closing.filter(mr => !related.some(other => other.web_url === mr.web_url))]
+
+    return {
+      title: issue.title,
+      url: issue.web_url,
+      repo,
+      stars,
+      comments: issue.user_notes_count,
+      reactions: issue.upvotes + issue.downvotes,
+      created: issue.created_at,
+      forge: 'gitlab',
+      body: issue.description || undefined,
+      labels: issue.labels ?? [],
+      // System notes record label and status changes rather than discussion
+      commentsList: notes.filter(note => !note.system).map(note => ({
+        body: note.body,
+        author: note.author?.username ?? 'unknown',
+        createdAt: note.created_at,
+      })),
+      linkedPRs: await Promise.all(mergeRequests.map(mr => linkedMergeRequest(mr, closingUrls.has(mr.web_url)))),
+    }
+  }
+
+  // ---- Read repository contents ----
+  async function readFile(repo: string, path: string): Promise<string> {
+    const { default_branch: ref = 'HEAD' } = await getProject(repo)
+    const { data } = await request<string>(`/projects/${encode(repo)}/repository/files/${encode(path)}/raw`, { ref }, true)
+    return data
+  }
+
+  async function listDir(repo: string, path: string): Promise<string[]> {
+    const { default_branch: ref = 'HEAD' } = await getProject(repo)
+    const params = { path: path === '.' ? '' : path, ref }
+    const entries = (await fetchAll<{ name: string }>(`/projects/${encode(repo)}/repository/tree`, params)).map(entry => entry.name)
+    // Older GitLab versions answer with an empty tree for paths that don't exist
+    if (entries.length === 0 && params.path) {
+      throw requestError(`Directory not found: ${path}`, 404)
+    }
+    return entries
+  }
+
+  return { type: 'gitlab', searchRepos, listGroupRepos, searchIssues, fetchIssue, readFile, listDir }
+}
@@ -0,0 +1,93 @@
+import type { ForgeType } from '../constants'
+import type { SearchStrategy } from '../find'
+import type { DetailedIssue, FindResult, Repo } from '../types'
+
+export interface ForgeConfig {
+  type: ForgeType
+  /** Web URL of a self-hosted instance, e.g. https://gitlab.example.com */
+  baseUrl?: string
+}
+
+/** Issues are searched in a single repository or across an organization (GitHub) or group (GitLab) */
+export interface SearchScope {
+  kind: 'repo' | 'group'
+  name: string
+}
+
+export interface IssueSearchOptions {
+  cutoff: string
+  pages: number
+  perPage: number
+  strategy: SearchStrategy
+  verbose?: boolean
+}
+
+export interface CiJobLog {
+  name: string
+  url: string
+  conclusion: string | null
+  log: string
+}
+
+export interface Forge {
+  type: ForgeType
+  /** Repositories matching a search query, most starred first */
+  searchRepos: (query: string, pages: number, perPage: number, verbose?: boolean) => Promise<Repo[]>
+  /** Repositories of an organization or group, most recently pushed first */
+  listGroupRepos: (group: string, pages: number, perPage: number) => Promise<string[]>
+  /** Yields each matching issue once, as soon as its search page arrives */
+  searchIssues: (scopes: SearchScope[], options: IssueSearchOptions) => AsyncGenerator<FindResult>
+  /** The issue with its description, comments and linked pull/merge requests */
+  fetchIssue: (result: FindResult) => Promise<DetailedIssue>
+  /** Content of a file on the default branch, errors carry `status: 404` when it doesn't exist */
+  readFile: (repo: string, path: string) => Promise<string>
+  /** Entry names of a directory on the default branch, `.` or `''` is the root */
+  listDir: (repo: string, path: string) => Promise<string[]>
+  /** Log the remaining API quota, if the forge reports one */
+  logQuota?: () => Promise<void>
+  /** Logs of the job behind a CI job URL, or of the failed jobs behind a run URL, if the forge hosts CI */
+  fetchCiLogs?: (url: string) => Promise<CiJobLog[]>
+}
+
+const DEFAULT_WEB_URLS: Record<ForgeType, string> = {
+  github: 'https://github.com',
+  gitlab: 'https://gitlab.com',
+}
+
+export function forgeWebUrl({ type, baseUrl }: ForgeConfig): string {
+  return (baseUrl ?? DEFAULT_WEB_URLS[type]).replace(/\/+$/, '')
+}
+
+/** The forge a record was found on, self-hosted instances are recognized by the record URL */
+export function forgeOf(result: Pick<FindResult, 'forge' | 'url'>): ForgeConfig {
+  const type = result.forge ?? 'github'
+  const origin = new URL(result.url).origin
+  return origin === DEFAULT_WEB_URLS[type] ? { type } : { type, baseUrl: origin }
+}
+
+const TEST_DIRECTORY = /(?:^|\/)(?:__tests__|tests?|spec|e2e)\//
+const TEST_FILE = /(?:[._-](?:test|spec)\.[^/]+|(?:^|\/)test_[^/]+\.py|Tests?\.(?:java|kt|cs|scala))$/
+
+/** Whether a changed file looks like a test, judged by the common naming conventions of test runners */
+export function isTestFile(path: string): boolean {
+  return TEST_DIRECTORY.test(path) || TEST_FILE.test(path)
+}
+
+export function cloneUrl(config: ForgeConfig, repo: string): string {
+  return `${forgeWebUrl(config)}/${repo}.git`
+}
+
+const forges = new Map<string, Promise<Forge>>()
+
+// Forges are loaded on first use, so working with one forge doesn't require the other's token
+export function getForge(config: ForgeConfig = { type: 'github' }): Promise<Forge> {
+  const key = `${config.type}:${forgeWebUrl(config)}`
+  let forge = forges.get(key)
+  if (!forge) {
+    forge = config.type === 'gitlab'
+      ? import('./gitlab').then(({ createGitLabForge }) => createGitLabForge(forgeWebUrl(config)))
+      : import('./github').then(({ createGitHubForge }) => createGitHubForge(forgeWebUrl(config)))
+    forges.set(key, forge)
+  }
+  return forge
+}
@@ -0,0 +1,95 @@
+import type { DetailedIssue, FiltererResult, HeuristicScore } from './types'
+import { DEFAULT_REJECT_BELOW } from './constants'
+import { isTestFile } from './forges'
+
+export interface HeuristicOptions {
+  /** Issues scoring below this are rejected without asking the LLM */
+  rejectBelow?: number
+  /** Issues scoring at least this are accepted without asking the LLM */
+  acceptAt?: number
+  /** Decide every issue by its score, issues that aren't rejected are accepted */
+  only?: boolean
+}
+
+interface IssueText {
+  title: string
+  /** Body and comments */
+  discussion: string
+  labels: string[]
+}
+
+interface Signal {
+  weight: number
+  reason: string
+  matches: (text: IssueText, issue: DetailedIssue) => boolean
+}
+
+const FLAKY_WORDING = /\bflak(?:y|iness|es)\b|\bintermittent(?:ly)?\b|\bsporadic(?:ally)?\b|\bnon-?deterministic\b|\b(?:randomly|sometimes|occasionally) (?:fail|time)s?\b|\bfails? (?:randomly|sometimes|occasionally)\b/i
+const FLAKY_LABEL = /flak|intermittent|unstable[ -]test/i
+const TEST_WORDING = /\btests?\b|\bspecs?\b|\btest suite\b|\bassert(?:ion)?\b|\bCI\b/i
+const CI_WORDING = /\bCI\b|github actions|\bworkflow\b|jenkins|circleci|travis|buildkite|azure pipelines|gitlab-ci/i
+const RETRY_WORDING = /\bre-?run(?:ning|s)?\b|\bretr(?:y|ies|ied)\b|passes? (?:locally|on retry|again)|\bre-?trigger/i
+const STACK_TRACE = /^\s+at .+[(:]\d+|Traceback \(most recent call last\)|^\s*File ".+", line \d+|^panic: |Exception in thread|^\s+at [\w$.]+\([\w$]+\.(?:java|kt|scala):\d+\)/m
+const PATH_TOKEN = /[\w./-]+\.\w+/g
+// Flaky networks, docs sites and hardware rather than tests
+const OFF_TOPIC = /\b(?:docs?|documentation|web ?site|wi-?fi|internet connection|network(?:ing)?|vpn|hardware|bluetooth)\b/i
+const FEATURE_REQUEST = /\bfeature request\b|\bproposal\b|\bRFC\b/i
+
+function mentionsTestFile(text: string): boolean {
+  return (text.match(PATH_TOKEN) ?? []).some(isTestFile)
+}
+
+const SIGNALS: Signal[] = [
+  { weight: 3, reason: 'flaky wording in the title', matches: ({ title }) => FLAKY_WORDING.test(title) },
+  { weight: 2, reason: 'flaky wording in the description or comments', matches: ({ discussion }) => FLAKY_WORDING.test(discussion) },
+  { weight: 3, reason: 'flaky label', matches: ({ labels }) => labels.some(label => FLAKY_LABEL.test(label)) },
+  { weight: 2, reason: 'mentions a test file', matches: ({ title, discussion }) => mentionsTestFile(`${title}\n${discussion}`) },
+  { weight: 1, reason: 'mentions CI', matches: ({ title, discussion }) => CI_WORDING.test(`${title}\n${discussion}`) },
+  { weight: 1, reason: 'contains a stack trace', matches: ({ discussion }) => STACK_TRACE.test(discussion) },
+  { weight: 1, reason: 'mentions retrying or re-running', matches: ({ discussion }) => RETRY_WORDING.test(discussion) },
+  { weight: 2, reason: 'a linked pull request changes tests', matches: (_, issue) => issue.linkedPRs?.some(pr => pr.changedTestFiles.length > 0) ?? false },
+  // Workflow jobs and test reports were observed both failing and passing on the same code
+  { weight: 4, reason: 'observed failing and passing on the same commit', matches: (_, issue) => issue.source === 'actions' || issue.source === 'reports' },
+  { weight: -3, reason: 'the title is about docs, websites, networks or hardware', matches: ({ title }) => OFF_TOPIC.test(title) && !TEST_WORDING.test(title) },
+  { weight: -2, reason: 'never mentions tests', matches: ({ title, discussion }) => !TEST_WORDING.test(`${title}\n${discussion}`) && !mentionsTestFile(discussion) },
+  { weight: -2, reason: 'reads like a feature request', matches: ({ title, labels }) => FEATURE_REQUEST.test(title) || labels.some(label => /enhancement|feature/i.test(label)) },
+]
+
+/** Deterministic score of how likely an issue is about a flaky test, with the signals behind it */
+export function scoreIssue(issue: DetailedIssue): { score: number, reasons: string[] } {
+  const text: IssueText = {
+    title: issue.title,
+    discussion: [issue.body ?? '', ...issue.commentsList?.map(comment => comment.body) ?? []].join('\n'),
+    labels: issue.labels ?? [],
+  }
+  let score = 0
+  const reasons: string[] = []
+  for (const { weight, reason, matches } of SIGNALS) {
+    if (matches(text, issue)) {
+      score += weight
+      reasons.push(`${weight > 0 ? '+' : ''}${weight} ${reason}`)
+    }
+  }
+  return { score, reasons }
+}
+
+/** Scores an issue and decides it when the score is past one of the thresholds */
+export function triageIssue(issue: DetailedIssue, options: HeuristicOptions = {}): HeuristicScore {
+  const { rejectBelow = DEFAULT_REJECT_BELOW, acceptAt, only = false } = options
+  const { score, reasons } = scoreIssue(issue)
+  const decision = score < rejectBelow
+    ? 'reject'
+    : only || (acceptAt !== undefined && score >= acceptAt) ? 'accept' : 'undecided'
+  return { score, reasons, decision }
+}
+
+/** The analysis of an issue decided by its score, confidence grows with the distance from the threshold */
+export function heuristicAnalysis({ score, reasons, decision }: HeuristicScore, options: HeuristicOptions = {}): FiltererResult {
+  const { rejectBelow = DEFAULT_REJECT_BELOW } = options
+  const distance = decision === 'accept' ? score - rejectBelow + 1 : rejectBelow - score
+  return {
+    isFlakyTestIssue: decision === 'accept',
+    confidence: Math.min(95, 50 + 5 * distance),
+    reasoning: `Heuristic score ${score} (${decision === 'accept' ? 'accepted' : `rejected below ${rejectBelow}`}): ${reasons.join(', ') || 'no signals'}`,
+  }
+}
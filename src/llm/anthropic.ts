@@ -0,0 +1,67 @@
+import type { ContentBlockParam, MessageParam } from '@anthropic-ai/sdk/resources/messages'
+import type { ChatMessage, LlmProvider, ProviderConfig } from './types'
+import process from 'node:process'
+import Anthropic from '@anthropic-ai/sdk'
+import { toAnthropicTools } from './tools'
+
+const MAX_TOKENS = 8192
+
+function toMessage(message: ChatMessage): MessageParam {
+  switch (message.role) {
+    case 'user':
+      return { role: 'user', content: message.text }
+    case 'assistant': {
+      const content: ContentBlockParam[] = message.text ? [{ type: 'text', text: message.text }] : []
+      for (const { id, name, args } of message.toolCalls ?? [])
+        content.push({ type: 'tool_use', id, name, input: args })
+      return { role: 'assistant', content }
+    }
+    case 'tool':
+      return {
+        role: 'user',
+        content: message.results.map(({ id, response }) => ({
+          type: 'tool_result' as const,
+          tool_use_id: id,
+          content: JSON.stringify(response),
+          ...'error' in response ? { is_error: true } : {},
+        })),
+      }
+  }
+}
+
+export function createAnthropicProvider({ model, baseUrl, temperature }: ProviderConfig): LlmProvider {
+  const apiKey = process.env.ANTHROPIC_API_KEY
+  if (!apiKey) {
+    throw new Error('ANTHROPIC_API_KEY environment variable is required')
+  }
+
+  const client = new Anthropic({ apiKey, baseURL: baseUrl })
+
+  return {
+    name: 'anthropic',
+    model,
+    temperature,
+    async chat({ system, messages, tools }) {
+      const message = await client.messages.create({
+        model,
+        max_tokens: MAX_TOKENS,
+        temperature,
+        system,
+        messages: messages.map(toMessage),
+        ...tools.length ? { tools: toAnthropicTools(tools) } : {},
+      })
+
+      const text = message.content
+        .flatMap(block => block.type === 'text' ? [block.text] : [])
+        .join('\n')
+
+      return {
+        text: text || undefined,
+        toolCalls: message.content.flatMap(block => block.type === 'tool_use'
+          ? [{ id: block.id, name: block.name, args: (block.input ?? {}) as Record<string, unknown> }]
+          : []),
+        usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens },
+      }
+    },
+  }
+}
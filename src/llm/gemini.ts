@@ -0,0 +1,64 @@
+import type { Content, Part } from '@google/genai'
+import type { ChatMessage, LlmProvider, ProviderConfig } from './types'
+import process from 'node:process'
+import { GoogleGenAI } from '@google/genai'
+
+function toContent(message: ChatMessage): Content {
+  switch (message.role) {
+    case 'user':
+      return { role: 'user', parts: [{ text: message.text }] }
+    case 'assistant': {
+      const parts: Part[] = message.text ? [{ text: message.text }] : []
+      for (const { id, name, args } of message.toolCalls ?? [])
+        parts.push({ functionCall: { id, name, args } })
+      return { role: 'model', parts }
+    }
+    case 'tool':
+      return {
+        role: 'user',
+        parts: message.results.map(({ id, name, response }) => ({ functionResponse: { id, name, response } })),
+      }
+  }
+}
+
+export function createGeminiProvider({ model, baseUrl, temperature }: ProviderConfig): LlmProvider {
+  const apiKey = process.env.GEMINI_API_KEY
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY environment variable is required')
+  }
+
+  const genAI = new GoogleGenAI({ apiKey, ...baseUrl ? { httpOptions: { baseUrl } } : {} })
+
+  return {
+    name: 'gemini',
+    model,
+    temperature,
+    async chat({ system, messages, tools }) {
+      const response = await genAI.models.generateContent({
+        model,
+        contents: messages.map(toContent),
+        config: {
+          tools: [{ functionDeclarations: tools }],
+          systemInstruction: system,
+          temperature,
+        },
+      })
+
+      return {
+        text: response.text,
+        // Gemini only populates call ids on some models, fall back to positional ids
+        toolCalls: (response.functionCalls ?? []).map((call, index) => ({
+          id: call.id || `call_${index}`,
+          name: call.name || '',
+          args: call.args ?? {},
+        })),
+        usage: response.usageMetadata
+          ? {
+              inputTokens: response.usageMetadata.promptTokenCount ?? 0,
+              outputTokens: response.usageMetadata.candidatesTokenCount ?? 0,
+            }
+          : undefined,
+      }
+    },
+  }
+}
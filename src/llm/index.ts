@@ -0,0 +1,51 @@
+import type { LlmOptions, LlmProvider } from './types'
+import { DEFAULT_MODELS } from '../constants'
+import { getScheduler, rateLimitDelay } from '../utils/scheduler'
+import { createAnthropicProvider } from './anthropic'
+import { createGeminiProvider } from './gemini'
+import { createOpenAIProvider } from './openai'
+
+export * from './types'
+
+function createProvider({ provider, model, baseUrl, temperature }: LlmOptions): LlmProvider {
+  const options = { model: model || DEFAULT_MODELS[provider], baseUrl, temperature }
+  switch (provider) {
+    case 'gemini':
+      return createGeminiProvider(options)
+    case 'openai':
+      return createOpenAIProvider(options)
+    case 'anthropic':
+      return createAnthropicProvider(options)
+    default:
+      throw new Error(`Unknown LLM provider: ${provider satisfies never}`)
+  }
+}
+
+const MAX_RATE_LIMIT_RETRIES = 5
+
+/**
+ * Requests share the `llm` limiter, which backs off when the provider answers with 429. The
+ * request is then retried once the pause is over, as not every provider SDK retries by itself.
+ */
+export function createLlmProvider(options: LlmOptions): LlmProvider {
+  const provider = createProvider(options)
+  const limiter = getScheduler().limiter('llm')
+  return {
+    ...provider,
+    async chat(request) {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await limiter.run(() => provider.chat(request))
+        }
+        catch (error) {
+          const delay = rateLimitDelay(error, 10_000)
+          if (delay === undefined)
+            throw error
+          limiter.backoff(delay)
+          if (attempt >= MAX_RATE_LIMIT_RETRIES)
+            throw error
+        }
+      }
+    },
+  }
+}
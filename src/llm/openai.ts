@@ -0,0 +1,82 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions'
+import type { ChatMessage, LlmProvider, ProviderConfig } from './types'
+import process from 'node:process'
+import OpenAI from 'openai'
+import { toOpenAITools } from './tools'
+
+function toMessages(system: string | undefined, messages: ChatMessage[]): ChatCompletionMessageParam[] {
+  const result: ChatCompletionMessageParam[] = system ? [{ role: 'system', content: system }] : []
+  for (const message of messages) {
+    switch (message.role) {
+      case 'user':
+        result.push({ role: 'user', content: message.text })
+        break
+      case 'assistant':
+        result.push({
+          role: 'assistant',
+          content: message.text ?? null,
+          ...message.toolCalls?.length
+            ? {
+                tool_calls: message.toolCalls.map(({ id, name, args }) => ({
+                  id,
+                  type: 'function' as const,
+                  function: { name, arguments: JSON.stringify(args) },
+                })),
+              }
+            : {},
+        })
+        break
+      case 'tool':
+        for (const { id, response } of message.results)
+          result.push({ role: 'tool', tool_call_id: id, content: JSON.stringify(response) })
+        break
+    }
+  }
+  return result
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    return raw ? JSON.parse(raw) : {}
+  }
+  catch {
+    // Small local models occasionally emit malformed JSON, surface it to the tool instead of crashing
+    return { __rawArguments: raw }
+  }
+}
+
+export function createOpenAIProvider({ model, baseUrl, temperature }: ProviderConfig): LlmProvider {
+  const baseURL = baseUrl ?? process.env.OPENAI_BASE_URL
+  const apiKey = process.env.OPENAI_API_KEY
+  // Local servers (llama.cpp, Ollama, ...) usually don't check the key at all
+  if (!apiKey && !baseURL) {
+    throw new Error('OPENAI_API_KEY environment variable is required unless a base URL is provided')
+  }
+
+  const client = new OpenAI({ apiKey: apiKey || 'not-needed', baseURL })
+
+  return {
+    name: 'openai',
+    model,
+    temperature,
+    async chat({ system, messages, tools }) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages: toMessages(system, messages),
+        temperature,
+        ...tools.length ? { tools: toOpenAITools(tools) } : {},
+      })
+
+      const message = completion.choices[0]?.message
+      return {
+        text: message?.content || undefined,
+        toolCalls: (message?.tool_calls ?? [])
+          .filter(call => call.type === 'function')
+          .map(call => ({ id: call.id, name: call.function.name, args: parseArguments(call.function.arguments) })),
+        usage: completion.usage
+          ? { inputTokens: completion.usage.prompt_tokens, outputTokens: completion.usage.completion_tokens }
+          : undefined,
+      }
+    },
+  }
+}
@@ -0,0 +1,30 @@
+import type Anthropic from '@anthropic-ai/sdk'
+import type { FunctionDeclaration } from '@google/genai'
+import type OpenAI from 'openai'
+
+type JsonSchemaObject = Record<string, unknown>
+
+// `z.toJSONSchema` emits a `$schema` key that some OpenAI-compatible servers reject
+function parametersOf(declaration: FunctionDeclaration): JsonSchemaObject {
+  const { $schema: _, ...schema } = (declaration.parametersJsonSchema ?? { type: 'object', properties: {} }) as JsonSchemaObject
+  return schema
+}
+
+export function toOpenAITools(declarations: FunctionDeclaration[]): OpenAI.ChatCompletionFunctionTool[] {
+  return declarations.map(declaration => ({
+    type: 'function',
+    function: {
+      name: declaration.name!,
+      description: declaration.description,
+      parameters: parametersOf(declaration),
+    },
+  }))
+}
+
+export function toAnthropicTools(declarations: FunctionDeclaration[]): Anthropic.Tool[] {
+  return declarations.map(declaration => ({
+    name: declaration.name!,
+    description: declaration.description,
+    input_schema: { type: 'object', ...parametersOf(declaration) },
+  }))
+}
@@ -0,0 +1,58 @@
+import type { FunctionDeclaration } from '@google/genai'
+
+export type ProviderName = 'gemini' | 'openai' | 'anthropic'
+
+export interface ToolCall {
+  id: string
+  name: string
+  args: Record<string, unknown>
+}
+
+export interface ToolResult {
+  id: string
+  name: string
+  response: Record<string, unknown>
+}
+
+export type ChatMessage
+  = | { role: 'user', text: string }
+    | { role: 'assistant', text?: string, toolCalls?: ToolCall[] }
+    | { role: 'tool', results: ToolResult[] }
+
+export interface ChatRequest {
+  system?: string
+  messages: ChatMessage[]
+  tools: FunctionDeclaration[]
+}
+
+export interface ChatUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface ChatResponse {
+  text?: string
+  toolCalls: ToolCall[]
+  usage?: ChatUsage
+}
+
+export interface LlmProvider {
+  name: ProviderName
+  model: string
+  /** Sampling temperature, the provider's default when missing */
+  temperature?: number
+  chat: (request: ChatRequest) => Promise<ChatResponse>
+}
+
+export interface LlmOptions {
+  provider: ProviderName
+  model?: string
+  baseUrl?: string
+  temperature?: number
+}
+
+export interface ProviderConfig {
+  model: string
+  baseUrl?: string
+  temperature?: number
+}
@@ -4,15 +4,17 @@ import winston from 'winston'
 export interface LoggerOptions {
   verbose?: boolean
   outputStream?: NodeJS.WritableStream
+  /** Additionally write all messages, including debug output, to this file */
+  logFile?: string
 }
 
 let logger: winston.Logger | null = null
 
 export function createLogger(options: LoggerOptions = {}) {
-  const { verbose = false, outputStream = process.stderr } = options
+  const { verbose = false, outputStream = process.stderr, logFile } = options
 
   logger = winston.createLogger({
-    level: verbose ? 'debug' : 'info',
+    level: logFile || verbose ? 'debug' : 'info',
     format: winston.format.combine(
       winston.format.errors({ stack: true }),
       winston.format.printf(({ level, message, ...meta }) => {
@@ -25,6 +27,7 @@ export function createLogger(options: LoggerOptions = {}) {
         stream: outputStream,
         level: verbose ? 'debug' : 'info',
       }),
+      ...logFile ? [new winston.transports.File({ filename: logFile, level: 'debug' })] : [],
     ],
   })
 
@@ -0,0 +1,237 @@
+import type { AgentBudget } from './agents/runtime'
+import type { FindSource, ForgeType, Stage } from './constants'
+import type { SearchStrategy } from './find'
+import type { LlmOptions } from './llm'
+import type { FilteredResult } from './types'
+import fs from 'node:fs'
+import { join } from 'node:path'
+import { version } from '../package.json'
+import { runFilter } from './agents/filterer'
+import { reproduceIssue } from './agents/reproducer'
+import { STAGES } from './constants'
+import { runFindAgent } from './find'
+import { getLogger } from './logger'
+import { resolveLlmProvider } from './utils/cassette'
+import { writeFileAtomic } from './utils/checkpoint'
+import { parseRecords } from './utils/records'
+import { mapConcurrent } from './utils/scheduler'
+import { onShutdown } from './utils/shutdown'
+
+export interface RunOptions extends SearchStrategy {
+  repoQuery?: string
+  reposFile?: string
+  org?: string
+  forge?: ForgeType
+  forgeUrl?: string
+  sources: FindSource[]
+  maxRuns: number
+  months: number
+  repoPages: number
+  repoPerPage: number
+  issuePages: number
+  issuePerPage: number
+  filterMaxIterations: number
+  reproduceMaxIterations: number
+  maxMinutes?: number
+  maxTokens?: number
+  /** Only flaky issues with at least this filter confidence are reproduced */
+  minConfidence: number
+  /** Number of issues filtered or reproduced in parallel */
+  concurrency: number
+  provider: LlmOptions['provider']
+  model?: string
+  baseUrl?: string
+}
+
+export interface PipelineRun {
+  startedAt: string
+  finishedAt?: string
+  stages: Stage[]
+  options: RunOptions
+  status: 'running' | 'completed' | 'failed' | 'interrupted'
+  error?: string
+  logFile?: string
+}
+
+export interface PipelineManifest {
+  version: 1
+  flakiVersion: string
+  /** Options of the latest run, used as defaults when the workspace is run again */
+  options: RunOptions
+  runs: PipelineRun[]
+}
+
+export interface PipelineOptions {
+  workspace: string
+  from: Stage
+  to: Stage
+  options: RunOptions
+  /** Options given explicitly, these take precedence over the ones saved in the manifest */
+  explicit?: (keyof RunOptions)[]
+  logFile?: string
+  verbose?: boolean
+}
+
+export function workspacePaths(workspace: string) {
+  return {
+    manifest: join(workspace, 'manifest.json'),
+    repoCache: join(workspace, 'repos.json'),
+    find: join(workspace, 'find.json'),
+    filtered: join(workspace, 'filtered.json'),
+    reproductions: join(workspace, 'reproductions'),
+    logs: join(workspace, 'logs'),
+  }
+}
+
+/** File name for an issue, e.g. `owner_repo_123` for https://github.com/owner/repo/issues/123 */
+export function issueSlug(url: string): string {
+  const path = new URL(url).pathname.replace(/\/(?:issues|pull)\//, '/')
+  return path.replace(/^\/+|\/+$/g, '').replace(/[^\w.-]+/g, '_')
+}
+
+/** Create the logs directory and return a fresh log file for this run */
+export function runLogFile(workspace: string): string {
+  const { logs } = workspacePaths(workspace)
+  fs.mkdirSync(logs, { recursive: true })
+  return join(logs, `run-${new Date().toISOString().replace(/[:.]/g, '-')}.log`)
+}
+
+export function readManifest(workspace: string): PipelineManifest | undefined {
+  const { manifest } = workspacePaths(workspace)
+  if (!fs.existsSync(manifest))
+    return undefined
+  const data = JSON.parse(fs.readFileSync(manifest, 'utf-8')) as PipelineManifest
+  if (data.version !== 1) {
+    throw new Error(`Unsupported manifest version in ${manifest}: ${data.version}`)
+  }
+  return data
+}
+
+export function resolveRunOptions(options: RunOptions, explicit: (keyof RunOptions)[] = [], saved?: RunOptions): RunOptions {
+  if (!saved)
+    return options
+  const overrides = Object.fromEntries(explicit.map(key => [key, options[key]]))
+  return { ...options, ...saved, ...overrides }
+}
+
+export function selectStages(from: Stage, to: Stage): Stage[] {
+  const start = STAGES.indexOf(from)
+  const end = STAGES.indexOf(to)
+  if (start > end) {
+    throw new Error(`Stage '${from}' comes after '${to}'`)
+  }
+  return STAGES.slice(start, end + 1)
+}
+
+async function reproduceStage(workspace: string, options: RunOptions, llm: LlmOptions, budget: AgentBudget): Promise<void> {
+  const logger = getLogger()
+  const paths = workspacePaths(workspace)
+
+  const filteredResults = parseRecords<FilteredResult>(fs.readFileSync(paths.filtered, 'utf-8'))
+  const candidates = filteredResults
+    .filter(r => r.isFlakyTestIssue && r.confidence >= options.minConfidence)
+    .sort((a, b) => b.confidence - a.confidence)
+  logger.info(`\n🎯 ${candidates.length}/${filteredResults.length} issues are flaky with at least ${options.minConfidence}% confidence`)
+
+  fs.mkdirSync(paths.reproductions, { recursive: true })
+  const provider = resolveLlmProvider(llm)
+
+  // Finished reproductions are kept, delete the file to reproduce an issue again
+  const pending = candidates
+    .map((issue, i) => ({ issue, i, file: join(paths.reproductions, `${issueSlug(issue.url)}.json`) }))
+    .filter(({ issue, i, file }) => {
+      if (!fs.existsSync(file))
+        return true
+      logger.info(`⏭️  Skipping issue ${i + 1}/${candidates.length}: ${issue.title} (already reproduced)`)
+      return false
+    })
+
+  // Each reproduction has its own file, so it is written as soon as it finishes
+  const reproductions = mapConcurrent(pending, options.concurrency, async ({ issue, i, file }) => {
+    logger.info(`\n🔄 Reproducing issue ${i + 1}/${candidates.length}: ${issue.title}`)
+    const output = await reproduceIssue(provider, issue, budget, undefined, {})
+    writeFileAtomic(file, JSON.stringify(output, null, 2))
+    return output.reproductionResult?.status === 'success'
+  })
+  let reproduced = 0
+  for await (const success of reproductions) {
+    if (success)
+      reproduced++
+  }
+  logger.info(`\n🧪 Reproduced ${reproduced}/${pending.length} issues`)
+}
+
+export async function runPipeline({ workspace, from, to, options, explicit, logFile, verbose = false }: PipelineOptions): Promise<void> {
+  const logger = getLogger()
+  const paths = workspacePaths(workspace)
+  const stages = selectStages(from, to)
+
+  fs.mkdirSync(workspace, { recursive: true })
+  const manifest: PipelineManifest = readManifest(workspace) ?? { version: 1, flakiVersion: version, options, runs: [] }
+  const runOptions = resolveRunOptions(options, explicit, manifest.runs.length > 0 ? manifest.options : undefined)
+
+  if (stages.includes('find') && !runOptions.repoQuery && !runOptions.reposFile && !runOptions.org) {
+    throw new Error('One of --repo-query, --repos-file or --org is required to run the find stage')
+  }
+  if (from === 'filter' && !fs.existsSync(paths.find)) {
+    throw new Error(`Cannot start at the filter stage, ${paths.find} does not exist`)
+  }
+  if (from === 'reproduce' && !fs.existsSync(paths.filtered)) {
+    throw new Error(`Cannot start at the reproduce stage, ${paths.filtered} does not exist`)
+  }
+
+  const run: PipelineRun = { startedAt: new Date().toISOString(), stages, options: runOptions, status: 'running', logFile }
+  manifest.flakiVersion = version
+  manifest.options = runOptions
+  manifest.runs.push(run)
+  const saveManifest = () => writeFileAtomic(paths.manifest, JSON.stringify(manifest, null, 2))
+  saveManifest()
+
+  const llm: LlmOptions = { provider: runOptions.provider, model: runOptions.model, baseUrl: runOptions.baseUrl }
+  const budget = {
+    maxDurationMs: runOptions.maxMinutes === undefined ? undefined : runOptions.maxMinutes * 60 * 1000,
+    maxTokens: runOptions.maxTokens,
+  }
+
+  // An interrupted run exits from the shutdown handlers, so it is finalized there
+  const disposeShutdown = onShutdown(() => {
+    run.status = 'interrupted'
+    run.finishedAt = new Date().toISOString()
+    saveManifest()
+  })
+  try {
+    for (const stage of stages) {
+      logger.info(`\n🚀 Running ${stage} stage in ${workspace}`)
+      switch (stage) {
+        case 'find':
+          await runFindAgent({ ...runOptions, outputFile: paths.find, cacheFile: paths.repoCache, verbose })
+          break
+        case 'filter':
+          // Resuming lets a rerun only analyze issues that are new since the last run
+          await runFilter(paths.find, paths.filtered, {
+            llm,
+            budget: { ...budget, maxIterations: runOptions.filterMaxIterations },
+            resume: true,
+            concurrency: runOptions.concurrency,
+          })
+          break
+        case 'reproduce':
+          await reproduceStage(workspace, runOptions, llm, { ...budget, maxIterations: runOptions.reproduceMaxIterations })
+          break
+      }
+    }
+    run.status = 'completed'
+  }
+  catch (error) {
+    run.status = 'failed'
+    run.error = (error as Error).message
+    throw error
+  }
+  finally {
+    disposeShutdown()
+    run.finishedAt = new Date().toISOString()
+    saveManifest()
+  }
+
+  logger.info(`\n✅ Pipeline finished, results are in ${workspace}`)
+}
@@ -0,0 +1,146 @@
+import type { FindResult } from '../types'
+import { octokit } from '../clients'
+import { getLogger } from '../logger'
+import { extractFailingTests, extractLogExcerpt } from '../utils/logs'
+
+export interface ActionsSearchOptions {
+  /** Only runs created after this date (YYYY-MM-DD) are scanned */
+  cutoff: string
+  /** Maximum number of workflow runs scanned per repository */
+  maxRuns: number
+  verbose?: boolean
+}
+
+interface WorkflowRun {
+  id: number
+  name?: string | null
+  workflow_id: number
+  head_sha: string
+  run_attempt?: number
+  status: string | null
+  conclusion: string | null
+  created_at: string
+  html_url: string
+}
+
+/** A failed run attempt and a successful one on the same commit */
+interface FlakyRun {
+  failed: { run: WorkflowRun, attempt: number }
+  passed: { run: WorkflowRun, attempt: number }
+}
+
+async function listRuns(owner: string, repo: string, { cutoff, maxRuns }: ActionsSearchOptions): Promise<WorkflowRun[]> {
+  const runs: WorkflowRun[] = []
+  const perPage = Math.min(100, maxRuns)
+  for (let page = 1; runs.length < maxRuns; page++) {
+    const { data } = await octokit.rest.actions.listWorkflowRunsForRepo({
+      owner,
+      repo,
+      status: 'completed',
+      created: `>${cutoff}`,
+      per_page: perPage,
+      page,
+    })
+    runs.push(...data.workflow_runs)
+    if (data.workflow_runs.length < perPage)
+      break
+  }
+  return runs.slice(0, maxRuns)
+}
+
+// Runs only report their latest attempt, earlier attempts are looked up separately
+async function findFlakyRuns(owner: string, repo: string, runs: WorkflowRun[]): Promise<FlakyRun[]> {
+  const flakyRuns: FlakyRun[] = []
+
+  // A failed attempt that passed when re-run
+  for (const run of runs) {
+    const latest = run.run_attempt ?? 1
+    if (run.conclusion !== 'success' || latest < 2)
+      continue
+    for (let attempt = latest - 1; attempt >= 1; attempt--) {
+      const { data } = await octokit.rest.actions.getWorkflowRunAttempt({ owner, repo, run_id: run.id, attempt_number: attempt })
+      if (data.conclusion === 'failure') {
+        flakyRuns.push({ failed: { run, attempt }, passed: { run, attempt: latest } })
+        break
+      }
+    }
+  }
+
+  // Separate runs of the same workflow on the same commit that disagree
+  const byCommit = new Map<string, WorkflowRun[]>()
+  for (const run of runs) {
+    const key = `${run.workflow_id}:${run.head_sha}`
+    byCommit.set(key, [...byCommit.get(key) ?? [], run])
+  }
+  for (const group of byCommit.values()) {
+    const failed = group.find(run => run.conclusion === 'failure')
+    const passed = group.find(run => run.conclusion === 'success')
+    if (failed && passed)
+      flakyRuns.push({ failed: { run: failed, attempt: failed.run_attempt ?? 1 }, passed: { run: passed, attempt: passed.run_attempt ?? 1 } })
+  }
+
+  return flakyRuns
+}
+
+async function listJobs(owner: string, repo: string, { run, attempt }: FlakyRun['failed']) {
+  const { data } = await octokit.rest.actions.listJobsForWorkflowRunAttempt({ owner, repo, run_id: run.id, attempt_number: attempt, per_page: 100 })
+  return data.jobs
+}
+
+async function downloadJobLog(owner: string, repo: string, jobId: number): Promise<string | undefined> {
+  try {
+    const { data } = await octokit.rest.actions.downloadJobLogsForWorkflowRun({ owner, repo, job_id: jobId })
+    return String(data)
+  }
+  catch (error) {
+    // Logs expire after the repository's retention period
+    getLogger().debug(`Failed to download logs for job ${jobId}: ${(error as Error).message}`)
+    return undefined
+  }
+}
+
+/**
+ * Yields a record for every job that failed on one attempt and passed on another at the same
+ * commit. The record links to the failed job and carries the failing tests parsed from its log.
+ */
+export async function* fetchFlakyWorkflowJobs(repoFullName: string, options: ActionsSearchOptions): AsyncGenerator<FindResult> {
+  const logger = getLogger()
+  const [owner, repo] = repoFullName.split('/')
+
+  const runs = await listRuns(owner, repo, options)
+  const flakyRuns = await findFlakyRuns(owner, repo, runs)
+  if (options.verbose)
+    logger.info(`  Scanned ${runs.length} workflow runs, ${flakyRuns.length} failed and passed on the same commit`)
+  if (flakyRuns.length === 0)
+    return
+
+  const { data: repository } = await octokit.rest.repos.get({ owner, repo })
+
+  for (const { failed, passed } of flakyRuns) {
+    const passedJobs = new Set((await listJobs(owner, repo, passed))
+      .filter(job => job.conclusion === 'success')
+      .map(job => job.name))
+    const flakyJobs = (await listJobs(owner, repo, failed))
+      .filter(job => job.conclusion === 'failure' && passedJobs.has(job.name))
+
+    for (const job of flakyJobs) {
+      const log = await downloadJobLog(owner, repo, job.id)
+      const failingTests = log ? extractFailingTests(log) : []
+      const commit = failed.run.head_sha
+      yield {
+        title: `Job "${job.name}" of workflow "${failed.run.name ?? failed.run.workflow_id}" failed and passed on commit ${commit.slice(0, 7)}${failingTests.length ? ` (${failingTests.length} failing tests)` : ''}`,
+        url: job.html_url ?? `${failed.run.html_url}/job/${job.id}`,
+        repo: repoFullName,
+        stars: repository.stargazers_count,
+        comments: 0,
+        reactions: 0,
+        created: failed.run.created_at.slice(0, 10),
+        source: 'actions',
+        commit,
+        failingTests,
+        logExcerpt: log ? extractLogExcerpt(log) : undefined,
+        passedRunUrl: `${passed.run.html_url}/attempts/${passed.attempt}`,
+      }
+    }
+  }
+}
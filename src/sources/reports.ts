@@ -0,0 +1,217 @@
+import type { ForgeConfig } from '../forges'
+import type { FindResult } from '../types'
+import type { OutputFormat } from '../utils/records'
+import type { XmlElement } from '../utils/xml'
+import * as fs from 'node:fs'
+import process from 'node:process'
+import { forgeWebUrl } from '../forges'
+import { getLogger } from '../logger'
+import { createResultWriter } from '../utils/checkpoint'
+import { globFiles } from '../utils/glob'
+import { parseXml } from '../utils/xml'
+
+/** Outcome of one test in one report */
+export interface TestOutcome {
+  testId: string
+  file?: string
+  status: 'passed' | 'failed' | 'skipped'
+  message?: string
+}
+
+export interface ReportsFindOptions {
+  /** Glob patterns of JUnit XML and jest/vitest JSON reports */
+  patterns: string[]
+  /** Repository the reports were produced from, as owner/repo */
+  repo: string
+  /** Commit the reports were produced from */
+  commit?: string
+  forge?: ForgeConfig
+  /** Directory the tests ran in, absolute paths in the reports are made relative to it, the working directory by default */
+  rootDir?: string
+  outputFile?: string
+  format?: OutputFormat
+  verbose?: boolean
+}
+
+const MAX_FAILURE_MESSAGES = 5
+const MAX_MESSAGE_LENGTH = 2000
+
+// ---- JUnit XML ----
+function junitOutcomes(element: XmlElement, suiteFile?: string): TestOutcome[] {
+  const outcomes: TestOutcome[] = []
+  for (const child of element.children) {
+    if (child.name === 'testsuites' || child.name === 'testsuite') {
+      outcomes.push(...junitOutcomes(child, child.attributes.file ?? child.attributes.filepath ?? suiteFile))
+      continue
+    }
+    if (child.name !== 'testcase')
+      continue
+    const { classname, name, file } = child.attributes
+    const failure = child.children.find(c => c.name === 'failure' || c.name === 'error')
+    const skipped = child.children.some(c => c.name === 'skipped')
+    outcomes.push({
+      testId: classname && classname !== name ? `${classname} > ${name}` : name,
+      file: file ?? suiteFile,
+      status: failure ? 'failed' : skipped ? 'skipped' : 'passed',
+      message: failure && (failure.text.trim() || failure.attributes.message),
+    })
+  }
+  return outcomes
+}
+
+// ---- jest/vitest JSON ----
+interface JsonReport {
+  testResults: {
+    name: string
+    assertionResults: {
+      fullName?: string
+      title: string
+      ancestorTitles?: string[]
+      status: string
+      failureMessages?: string[]
+    }[]
+  }[]
+}
+
+function jsonOutcomes(report: JsonReport): TestOutcome[] {
+  return report.testResults.flatMap(({ name: file, assertionResults }) => assertionResults.map(test => ({
+    testId: test.fullName ?? [...test.ancestorTitles ?? [], test.title].join(' '),
+    file,
+    status: test.status === 'passed' ? 'passed' : test.status === 'failed' ? 'failed' : 'skipped',
+    message: test.failureMessages?.join('\n') || undefined,
+  })))
+}
+
+/** Test outcomes of a JUnit XML or jest/vitest JSON report */
+export function parseTestReport(content: string, file = 'report'): TestOutcome[] {
+  const trimmed = content.trimStart()
+  if (trimmed.startsWith('<'))
+    return junitOutcomes(parseXml(trimmed))
+  if (trimmed.startsWith('{')) {
+    const report = JSON.parse(trimmed) as JsonReport
+    if (Array.isArray(report.testResults))
+      return jsonOutcomes(report)
+  }
+  throw new Error(`Unrecognized test report format in ${file}, expected JUnit XML or jest/vitest JSON`)
+}
+
+function isAbsolute(path: string): boolean {
+  return path.startsWith('/') || /^[a-z]:\//i.test(path)
+}
+
+/**
+ * The path of a test file within the repository. Reports name files by their absolute path on the
+ * machine the tests ran on, e.g. /home/runner/work/repo/repo/src/a.test.ts, which is made relative to
+ * the root directory or else to the checkout, usually named after the repository.
+ */
+export function repoRelativePath(file: string, repo: string, rootDir?: string): string {
+  const path = file.replaceAll('\\', '/')
+  if (!isAbsolute(path))
+    return path.replace(/^\.\//, '')
+  const root = rootDir && `${rootDir.replaceAll('\\', '/').replace(/\/+$/, '')}/`
+  if (root && path.startsWith(root))
+    return path.slice(root.length)
+  const name = repo.split('/').at(-1)!
+  // GitHub Actions checks repositories out into <workspace>/<repo>/<repo>
+  for (const checkout of [`/${name}/${name}/`, `/${name}/`]) {
+    const index = path.indexOf(checkout)
+    if (index !== -1)
+      return path.slice(index + checkout.length)
+  }
+  return path
+}
+
+function reportUrl(forge: ForgeConfig, repo: string, commit: string | undefined, file: string | undefined, testId: string): string {
+  const repoUrl = `${forgeWebUrl(forge)}/${repo}`
+  if (!file)
+    return `${repoUrl}#${encodeURIComponent(testId)}`
+  // Files outside of the checkout can't be linked, so they only tell tests of the same name apart
+  if (isAbsolute(file))
+    return `${repoUrl}#${encodeURIComponent(`${file} > ${testId}`)}`
+  const blob = forge.type === 'gitlab' ? '-/blob' : 'blob'
+  return `${repoUrl}/${blob}/${commit ?? 'HEAD'}/${file.split('/').map(encodeURIComponent).join('/')}#${encodeURIComponent(testId)}`
+}
+
+/**
+ * Groups the outcomes of repeated runs by test and returns the tests that both passed and
+ * failed, with the highest flake rate first.
+ */
+export function findFlakyTests(runs: TestOutcome[][], options: Pick<ReportsFindOptions, 'repo' | 'commit' | 'forge' | 'rootDir'> & { created: string }): FindResult[] {
+  const { forge = { type: 'github' } } = options
+  const tests = new Map<string, { testId: string, file?: string, runs: number, failures: number, messages: Set<string> }>()
+  for (const outcomes of runs) {
+    for (const { testId, status, message, ...outcome } of outcomes) {
+      if (status === 'skipped')
+        continue
+      const file = outcome.file && repoRelativePath(outcome.file, options.repo, options.rootDir)
+      const key = `${file ?? ''}::${testId}`
+      const test = tests.get(key) ?? { testId, file, runs: 0, failures: 0, messages: new Set<string>() }
+      test.runs++
+      if (status === 'failed') {
+        test.failures++
+        if (message && test.messages.size < MAX_FAILURE_MESSAGES)
+          test.messages.add(message.slice(0, MAX_MESSAGE_LENGTH))
+      }
+      tests.set(key, test)
+    }
+  }
+
+  return [...tests.values()]
+    .filter(test => test.failures > 0 && test.failures < test.runs)
+    .map(({ testId, file, runs, failures, messages }) => ({
+      title: `Test "${testId}" failed in ${failures} of ${runs} runs${options.commit ? ` of commit ${options.commit.slice(0, 7)}` : ''}`,
+      url: reportUrl(forge, options.repo, options.commit, file, testId),
+      repo: options.repo,
+      forge: options.forge?.type,
+      stars: 0,
+      comments: 0,
+      reactions: 0,
+      created: options.created,
+      source: 'reports' as const,
+      commit: options.commit,
+      failingTests: [testId],
+      testId,
+      file,
+      failureMessages: [...messages],
+      testStats: { runs, failures, flakeRate: failures / runs },
+    }))
+    .sort((a, b) => b.testStats.flakeRate - a.testStats.flakeRate)
+}
+
+/** Find flaky tests in local test reports of repeated runs, without querying GitHub */
+export async function runReportsFind(options: ReportsFindOptions): Promise<void> {
+  const logger = getLogger()
+  const { patterns, repo, commit, forge, rootDir = process.cwd(), outputFile, verbose = false } = options
+  if (!/^[\w.-]+\/[\w.-]+$/.test(repo)) {
+    throw new Error(`Invalid repository '${repo}', expected owner/repo`)
+  }
+
+  const files = [...new Set(patterns.flatMap(pattern => globFiles(pattern)))]
+  if (files.length === 0) {
+    throw new Error(`No test reports match ${patterns.join(', ')}`)
+  }
+
+  const runs: TestOutcome[][] = []
+  let newest = 0
+  for (const file of files) {
+    try {
+      runs.push(parseTestReport(fs.readFileSync(file, 'utf-8'), file))
+      newest = Math.max(newest, fs.statSync(file).mtimeMs)
+    }
+    catch (error) {
+      logger.error(`❌ Failed to parse ${file}: ${(error as Error).message}`)
+    }
+  }
+
+  const results = findFlakyTests(runs, { repo, commit, forge, rootDir, created: new Date(newest).toISOString().slice(0, 10) })
+  if (verbose)
+    logger.info(`Parsed ${runs.length}/${files.length} test reports, ${results.length} tests both passed and failed`)
+
+  const writer = createResultWriter<FindResult>({ outputFile, keyOf: r => r.url, format: options.format, checkpoint: false })
+  for (const result of results)
+    writer.write(result)
+  writer.close()
+
+  if (outputFile && verbose)
+    logger.info(`Saved ${results.length} results to ${outputFile}`)
+}
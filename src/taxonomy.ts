@@ -0,0 +1,122 @@
+import type { DetailedIssue, FlakinessCategory, RootCause } from './types'
+
+interface CategoryInfo {
+  description: string
+  /** How the reproducer should try to trigger failures of this category */
+  strategy: string
+  /** Wording suggesting the category, `unknown` is never matched */
+  pattern?: RegExp
+}
+
+export const FLAKINESS_CATEGORIES: Record<FlakinessCategory, CategoryInfo> = {
+  'async-wait': {
+    description: 'Asynchronous operations awaited with fixed sleeps, missing waits or timeouts that are too short',
+    strategy: 'Slow the test down: limit the container\'s CPUs, run it under load or with shorter timeouts, and repeat it many times.',
+    pattern: /\btime(?:d out|outs?)\b|\bwait(?:ing|s)?\b|\bwaitFor\b|\bsleep\b|\bpoll(?:ing)?\b|\bnot yet (?:ready|loaded|available)\b/i,
+  },
+  'concurrency': {
+    description: 'Races, deadlocks or atomicity violations between threads, processes or async tasks',
+    strategy: 'Run the test many times with more workers or threads and under CPU stress to widen the race window.',
+    pattern: /\brace(?: condition)?s?\b|\bdeadlocks?\b|\bconcurren(?:t|cy)\b|\bthread(?:s|ing)?\b|\bmutex\b|\batomic(?:ity)?\b|\bin parallel\b/i,
+  },
+  'test-order-dependency': {
+    description: 'The outcome depends on which tests ran before, e.g. passes alone but fails in the suite',
+    strategy: 'Shuffle the order of its suite with runShuffled, then narrow the tests preceding it in a failing order down to the one polluting its state with findPolluter.',
+    pattern: /\btest order\b|\border(?:ing)?[ -]dependen|\bin isolation\b|\bruns? (?:alone|on its own|by itself)\b|\bshuffl|\bpollut/i,
+  },
+  'shared-state': {
+    description: 'State or resources shared between tests and not cleaned up, such as globals, files, ports or databases',
+    strategy: 'Run the test repeatedly in the same process and in parallel with the tests sharing the resource, and check what earlier runs leave behind.',
+    pattern: /\bshared (?:state|resource|database|fixture|director(?:y|ies))s?\b|\bglobal (?:state|variable)s?\b|\bleak(?:s|ed|ing|age)?\b|\bnot (?:cleaned up|reset|torn down)\b|\bport (?:already )?in use\b|\bEADDRINUSE\b/i,
+  },
+  'time': {
+    description: 'Dependence on the current date, time or time zone, e.g. failures around midnight, month ends or DST changes',
+    strategy: 'Run the test with different TZ values and faked system times around midnight, month ends and DST changes.',
+    pattern: /\btime ?zones?\b|\bDST\b|\bdaylight saving|\bmidnight\b|\bleap (?:year|second)|\bclock (?:skew|drift)|\bDate\.now\b|\bnew Date\(\)|\btimestamps?\b/i,
+  },
+  'randomness': {
+    description: 'Random values, seeds or unordered collections whose iteration order varies between runs',
+    strategy: 'Run the test with many different random seeds and record the seeds of failing runs.',
+    pattern: /\brandom(?:ly generated|ized| seed| values?| data)\b|\bseeds?\b|\bMath\.random\b|\bunordered\b|\b(?:hash|iteration|set|map) order\b/i,
+  },
+  'network': {
+    description: 'Network access or external services that are slow, rate limited or unavailable',
+    strategy: 'Run the test with delayed, throttled or blocked access to the external services it uses.',
+    pattern: /\bnetwork\b|\bconnection (?:refused|reset)\b|\bECONN(?:RESET|REFUSED)\b|\bETIMEDOUT\b|\bDNS\b|\bexternal (?:service|api|server)s?\b|\brate[ -]limit|\bsockets?\b|\b50[234]\b/i,
+  },
+  'platform': {
+    description: 'Differences between operating systems, runtime versions, architectures, browsers or locales',
+    strategy: 'Match the reported operating system, runtime version and architecture in the container and compare with the CI environment.',
+    pattern: /\bwindows\b|\bmacos\b|\bos x\b|\barm64\b|\baarch64\b|\b(?:node|python|java|ruby|go) (?:v?\d|version)|\bJDK\b|\bfirefox\b|\bsafari\b|\bwebkit\b|\blocale\b/i,
+  },
+  'resource-exhaustion': {
+    description: 'Running out of memory, disk space, file descriptors or CPU, often only on loaded CI machines',
+    strategy: 'Constrain the container\'s memory, CPUs or open files and run the test repeatedly.',
+    pattern: /\bout of memory\b|\bOOM\b|\bheap\b|\bdisk (?:space|full)\b|\bENOSPC\b|\btoo many open files\b|\bEMFILE\b|\bunder (?:heavy )?load\b/i,
+  },
+  'unknown': {
+    description: 'The issue doesn\'t say enough to tell the cause',
+    strategy: 'Run the test repeatedly, then together with the rest of its suite, varying parallelism and load to find what triggers it.',
+  },
+}
+
+const MAX_QUOTE_LENGTH = 200
+
+/** The categories with their descriptions, for prompts */
+export function describeCategories(): string {
+  return Object.entries(FLAKINESS_CATEGORIES)
+    .map(([category, { description }]) => `- **${category}**: ${description}`)
+    .join('\n')
+}
+
+function quoteOf(line: string, index: number): string {
+  const trimmed = line.trim()
+  if (trimmed.length <= MAX_QUOTE_LENGTH)
+    return trimmed
+  const start = Math.max(0, Math.min(index - MAX_QUOTE_LENGTH / 2, line.length - MAX_QUOTE_LENGTH))
+  return `...${line.slice(start, start + MAX_QUOTE_LENGTH).trim()}...`
+}
+
+/**
+ * The category whose wording appears on the most lines of the issue, its comments and logs,
+ * quoting the first such line. Undefined when no category is mentioned.
+ */
+export function classifyRootCause(issue: DetailedIssue): RootCause | undefined {
+  const lines = [
+    issue.title,
+    issue.body ?? '',
+    ...issue.commentsList?.map(comment => comment.body) ?? [],
+    ...issue.ciLogs?.map(log => log.excerpt) ?? [],
+    issue.logExcerpt ?? '',
+    ...issue.failureMessages ?? [],
+  ].join('\n').split('\n')
+
+  let best: { category: FlakinessCategory, lines: number, quote: string } | undefined
+  for (const [category, { pattern }] of Object.entries(FLAKINESS_CATEGORIES) as [FlakinessCategory, CategoryInfo][]) {
+    if (!pattern)
+      continue
+    let matching = 0
+    let quote = ''
+    for (const line of lines) {
+      const match = pattern.exec(line)
+      if (!match)
+        continue
+      if (matching++ === 0)
+        quote = quoteOf(line, match.index)
+    }
+    // Ties go to the category listed first
+    if (matching > (best?.lines ?? 0))
+      best = { category, lines: matching, quote }
+  }
+  return best && { category: best.category, quote: best.quote }
+}
+
+/** Number of results per suspected cause, most frequent first */
+export function countRootCauses(results: { rootCause?: RootCause }[]): [FlakinessCategory, number][] {
+  const counts = new Map<FlakinessCategory, number>()
+  for (const { rootCause } of results) {
+    if (rootCause)
+      counts.set(rootCause.category, (counts.get(rootCause.category) ?? 0) + 1)
+  }
+  return [...counts].sort(([, a], [, b]) => b - a)
+}
@@ -0,0 +1,52 @@
+import type { CiJobLog, ForgeConfig } from '../forges'
+import type { CiLogDigest } from '../types'
+import * as z from 'zod'
+import { getForge } from '../forges'
+import { defineAiFunction } from '../utils/defineAiFunction'
+import { extractFailingTests, extractLogExcerpt } from '../utils/logs'
+
+/** The failing tests of a job log and the window around its first failure, or around `around` when given */
+export function digestCiLog({ name, url, conclusion, log }: CiJobLog, maxLines = 40, around?: string): CiLogDigest {
+  return { job: name, url, conclusion, failingTests: extractFailingTests(log), excerpt: extractLogExcerpt(log, maxLines, around) }
+}
+
+export async function fetchCiLogDigests(url: string, forgeConfig: ForgeConfig = { type: 'github' }, maxLines = 40, around?: string): Promise<CiLogDigest[]> {
+  const forge = await getForge(forgeConfig)
+  if (!forge.fetchCiLogs) {
+    throw new Error(`CI logs are not available on ${forge.type}`)
+  }
+  const logs = await forge.fetchCiLogs(url)
+  return logs.map(log => digestCiLog(log, maxLines, around))
+}
+
+export function createCiLogFunctions(forgeConfig: ForgeConfig = { type: 'github' }) {
+  const readCiLog = defineAiFunction({
+    name: 'readCiLog',
+    description: 'Download the log of a CI job, or of the failed jobs of a CI run, and return the failing tests with the log lines around the failure.',
+    parameters: z.object({
+      url: z.string().describe('URL of a GitHub Actions run or job, e.g. "https://github.com/owner/repo/actions/runs/123/job/456".'),
+      around: z.string().optional().describe('Show the lines around the first mention of this text, e.g. a test name, instead of around the first failure.'),
+      maxLines: z.number().optional().describe('Number of log lines to return per job (default 80).'),
+    }),
+    response: z.array(z.object({
+      job: z.string(),
+      url: z.string(),
+      conclusion: z.string().nullable(),
+      failingTests: z.array(z.string()),
+      excerpt: z.string(),
+    })),
+    implementation: async ({ url, around, maxLines = 80 }) => {
+      try {
+        return await fetchCiLogDigests(url, forgeConfig, Math.min(maxLines, 400), around)
+      }
+      catch (error: any) {
+        if (error.status === 404 || error.status === 410) {
+          throw new Error(`CI log not found or expired: ${url}`)
+        }
+        throw new Error(`Failed to read CI log ${url}: ${error.message}`)
+      }
+    },
+  })
+
+  return { readCiLog }
+}
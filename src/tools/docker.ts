@@ -1,22 +1,140 @@
+import type { Buffer } from 'node:buffer'
+import type { ForgeConfig } from '../forges'
+import type { ContainerConstraints, RepeatedRunStats } from '../types'
 import { execSync } from 'node:child_process'
+import { randomUUID } from 'node:crypto'
 import { writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
-import { text } from 'node:stream/consumers'
+import { Writable } from 'node:stream'
+import { StringDecoder } from 'node:string_decoder'
+import { setTimeout as sleep } from 'node:timers/promises'
 import Docker from 'dockerode'
 import * as z from 'zod'
-import { createLogger } from '../logger'
+import { cloneUrl } from '../forges'
+import { getLogger } from '../logger'
+import { ContainerConstraintsSchema, RepeatedRunStatsSchema } from '../types'
 import { defineAiFunction } from '../utils/defineAiFunction'
+import { createOutputBuffer, extractLogExcerpt, failureSignature } from '../utils/logs'
+import { getScheduler, mapConcurrent } from '../utils/scheduler'
+import { median, wilsonInterval } from '../utils/stats'
 import { TmpDirManager } from '../utils/tmpdir'
 
 const docker = new Docker()
 
+const MAX_REPEATED_RUNS = 100
+const MAX_PARALLEL_RUNS = 8
+const MAX_DISTINCT_FAILURES = 5
+const MIB = 1024 * 1024
+const DEFAULT_COMMAND_TIMEOUT_SECONDS = 600
+const MAX_COMMAND_TIMEOUT_SECONDS = 3600
+// Per stream, longer outputs keep their beginning and end
+const MAX_OUTPUT_CHARS = 20_000
+// Polls of an exec for its exit code after its output ended
+const EXIT_CODE_POLLS = 20
+const EXIT_CODE_POLL_INTERVAL_MS = 50
+
+// Kills a process and its descendants by walking /proc, as images rarely ship pkill
+const KILL_TREE = 'kill_tree() { for child in $(grep -l "^PPid:[[:space:]]*$1$" /proc/[0-9]*/status 2>/dev/null | cut -d/ -f3); do kill_tree "$child"; done; kill -KILL "$1" 2>/dev/null; }'
+
+const CommandResultSchema = z.object({
+  /** Null when the command timed out */
+  exitCode: z.number().nullable(),
+  stdout: z.string(),
+  stderr: z.string(),
+  durationMs: z.number(),
+  timedOut: z.boolean(),
+  /** Whether the middle of stdout or stderr was cut */
+  truncated: z.boolean(),
+})
+
+export type CommandRun = z.infer<typeof CommandResultSchema> & {
+  /** stdout and stderr interleaved as they were written */
+  output: string
+}
+
+export interface CommandOptions {
+  timeoutMs?: number
+  /** Working directory, the image's by default */
+  workdir?: string
+  env?: Record<string, string>
+}
+
+/** Tallies the runs of a command, runs exiting with a non-zero code or timing out failed */
+export function summarizeRuns(command: string, runs: Pick<CommandRun, 'output' | 'exitCode' | 'durationMs'>[]): RepeatedRunStats {
+  const failures = new Map<string, RepeatedRunStats['failures'][number]>()
+  for (const [i, { output, exitCode }] of runs.entries()) {
+    if (exitCode === 0)
+      continue
+    const excerpt = extractLogExcerpt(output, 20)
+    const signature = failureSignature(excerpt)
+    const failure = failures.get(signature)
+    if (failure) {
+      failure.count++
+      failure.runs.push(i + 1)
+    }
+    else {
+      failures.set(signature, { excerpt, count: 1, runs: [i + 1] })
+    }
+  }
+  const failed = runs.filter(run => run.exitCode !== 0).length
+  const durations = runs.map(run => run.durationMs)
+  return {
+    command,
+    runs: runs.length,
+    passed: runs.length - failed,
+    failed,
+    flakeRate: runs.length ? failed / runs.length : 0,
+    confidenceInterval: wilsonInterval(failed, runs.length),
+    durationsMs: { min: Math.min(...durations), median: median(durations), max: Math.max(...durations) },
+    failures: [...failures.values()].sort((a, b) => b.count - a.count).slice(0, MAX_DISTINCT_FAILURES),
+  }
+}
+
+/** Docker host config enforcing the limits of the constraints */
+export function constraintsHostConfig({ cpus, cpuset, memoryMb, pidsLimit, network }: ContainerConstraints): Docker.HostConfig {
+  return {
+    ...cpus !== undefined && { NanoCpus: Math.round(cpus * 1e9) },
+    ...cpuset !== undefined && { CpusetCpus: cpuset },
+    // Swap counts towards the limit, otherwise the container swaps rather than running out of memory
+    ...memoryMb !== undefined && { Memory: memoryMb * MIB, MemorySwap: memoryMb * MIB },
+    ...pidsLimit !== undefined && { PidsLimit: pidsLimit },
+    ...network === false && { NetworkMode: 'none' },
+  }
+}
+
+/** Background processes generating the load of the constraints, plain shell so they run in any image */
+export function stressCommands({ stress }: ContainerConstraints): string[] {
+  const cpu = Array.from({ length: stress?.cpu ?? 0 }, () => 'while :; do :; done')
+  const io = Array.from({ length: stress?.io ?? 0 }, (_, i) =>
+    `while :; do dd if=/dev/zero of=/tmp/flaki-stress-${i} bs=1M count=64 conv=fsync 2>/dev/null; rm -f /tmp/flaki-stress-${i}; done`)
+  return [...cpu, ...io]
+}
+
+export function describeConstraints({ cpus, cpuset, memoryMb, pidsLimit, network, stress }: ContainerConstraints): string {
+  const parts = [
+    cpus !== undefined && `${cpus} CPU${cpus === 1 ? '' : 's'}`,
+    cpuset !== undefined && `cpuset ${cpuset}`,
+    memoryMb !== undefined && `${memoryMb} MiB memory`,
+    pidsLimit !== undefined && `at most ${pidsLimit} processes`,
+    network === false && 'no network',
+    stress?.cpu && `${stress.cpu} CPU stressors`,
+    stress?.io && `${stress.io} IO stressors`,
+  ].filter(Boolean)
+  return parts.length ? parts.join(', ') : 'no constraints'
+}
+
 const tmpDirManager = new TmpDirManager()
 
-export function createDockerFunctions(repoFullName?: string) {
-  const logger = createLogger()
-  const repoUrl = repoFullName ? `https://github.com/${repoFullName}.git` : undefined
+// The default constraints apply to every container created, the ones requested by the agent take precedence
+export function createDockerFunctions(repoFullName?: string, forge: ForgeConfig = { type: 'github' }, defaults: ContainerConstraints = {}) {
+  const logger = getLogger()
+  const repoUrl = repoFullName ? cloneUrl(forge, repoFullName) : undefined
   let repoDir: string | undefined
   let containerId: string | undefined
+  // Constraints of the current container, undefined when it has none
+  let constraints: ContainerConstraints | undefined
+  // A docker slot is held from the first container until cleanup
+  let releaseSlot: (() => void) | undefined
 
   const buildImage = defineAiFunction({
     name: 'buildImage',
@@ -24,10 +142,11 @@ export function createDockerFunctions(repoFullName?: string) {
     parameters: z.object({
       dockerfile: z.string().describe('The content of the Dockerfile.'),
       imageName: z.string().describe('The name to tag the built image.'),
+      nocache: z.boolean().optional().describe('Rebuild every layer instead of reusing cached ones (default false).'),
     }),
     response: z.string(),
     implementation: async (args) => {
-      const { dockerfile, imageName } = args
+      const { dockerfile, imageName, nocache = false } = args
 
       // Clone the repository locally (separate from build context)
       if (repoUrl) {
@@ -48,7 +167,7 @@ export function createDockerFunctions(repoFullName?: string) {
         const stream = await docker.buildImage({
           context: buildContextDir,
           src: ['Dockerfile'],
-        }, { t: imageName })
+        }, { t: imageName, nocache })
 
         // Wait for the build to complete and check for errors
         const buildResult = await new Promise<any[]>((resolve, reject) => {
@@ -89,15 +208,19 @@ export function createDockerFunctions(repoFullName?: string) {
 
   const createContainer = defineAiFunction({
     name: 'createContainer',
-    description: 'Create and start a Docker container from an image, with the repository mounted as a volume.',
+    description: 'Create and start a Docker container from an image, with the repository mounted as a volume. Replaces the previously created container, if any.',
     parameters: z.object({
       imageName: z.string().describe('The name of the Docker image to use.'),
+      constraints: ContainerConstraintsSchema.optional().describe('Resource limits and background load, for flakiness that only shows under CPU starvation, low memory or without network. Recorded with the measurements taken in the container.'),
     }),
     response: z.string(),
     implementation: async (args) => {
       const { imageName } = args
+      const applied = { ...defaults, ...args.constraints }
 
       const binds = repoDir ? [`${repoDir}:/workspace`] : []
+      releaseSlot ??= await getScheduler().limiter('docker').acquire()
+      await removeContainer()
 
       const container = await docker.createContainer({
         Image: imageName,
@@ -106,52 +229,174 @@ export function createDockerFunctions(repoFullName?: string) {
         OpenStdin: true,
         HostConfig: {
           Binds: binds,
+          ...constraintsHostConfig(applied),
         },
       })
       await container.start()
       containerId = container.id
+      constraints = Object.keys(applied).length ? applied : undefined
+
+      for (const command of stressCommands(applied)) {
+        const exec = await container.exec({ Cmd: ['sh', '-c', command] })
+        await exec.start({ Detach: true })
+      }
+      logger.debug(`Started container ${container.id} with ${describeConstraints(applied)}`)
       return container.id
     },
   })
 
-  const executeCommand = defineAiFunction({
-    name: 'executeCommand',
-    description: 'Execute a command inside the created Docker container, returns the command output.',
-    parameters: z.object({
-      command: z.string().describe('The command to execute.'),
-    }),
-    response: z.string(),
-    implementation: async (args) => {
-      const { command } = args
+  // Runs a command in the container and waits for it to exit, killing it with its children when it times out
+  async function runCommand(command: string, options: CommandOptions = {}): Promise<CommandRun> {
+    if (!containerId) {
+      throw new Error('No container has been created yet. Call createContainer first.')
+    }
+    const { timeoutMs = DEFAULT_COMMAND_TIMEOUT_SECONDS * 1000, workdir, env = {} } = options
 
-      if (!containerId) {
-        throw new Error('No container has been created yet. Call createContainer first.')
-      }
+    const container = docker.getContainer(containerId)
 
-      const container = docker.getContainer(containerId)
+    // Check if container is running, start it if not
+    const info = await container.inspect()
+    if (!info.State.Running) {
+      await container.start()
+    }
 
-      // Check if container is running, start it if not
-      const info = await container.inspect()
-      if (!info.State.Running) {
-        await container.start()
-      }
+    const started = Date.now()
+    // The shell records its pid, the exec's own pid is only known outside of the container
+    const pidFile = `/tmp/flaki-exec-${randomUUID()}.pid`
+    const exec = await container.exec({
+      Cmd: ['sh', '-c', `echo $$ > ${pidFile} 2>/dev/null; ${command}`],
+      AttachStdout: true,
+      AttachStderr: true,
+      WorkingDir: workdir,
+      Env: Object.entries(env).map(([name, value]) => `${name}=${value}`),
+    })
+    const stream = await exec.start({})
 
-      const exec = await container.exec({
-        Cmd: ['sh', '-c', command],
-        AttachStdout: true,
-        AttachStderr: true,
+    const output = createOutputBuffer(2 * MAX_OUTPUT_CHARS)
+    const stdout = createOutputBuffer(MAX_OUTPUT_CHARS)
+    const stderr = createOutputBuffer(MAX_OUTPUT_CHARS)
+    function collect(buffer: typeof stdout): Writable {
+      const decoder = new StringDecoder('utf8')
+      return new Writable({
+        write(chunk: Buffer, _encoding, callback) {
+          const decoded = decoder.write(chunk)
+          buffer.append(decoded)
+          output.append(decoded)
+          callback()
+        },
       })
-      const stream = await exec.start({})
+    }
+    // Exec output is multiplexed into frames with an 8 byte header telling stdout and stderr apart
+    // https://docs.docker.com/reference/api/engine/version/v1.51/#tag/Container/operation/ContainerAttach
+    docker.modem.demuxStream(stream, collect(stdout), collect(stderr))
+
+    let timer: NodeJS.Timeout | undefined
+    const finished = new Promise<boolean>((resolve, reject) => {
+      stream.on('end', () => resolve(true))
+      stream.on('close', () => resolve(true))
+      stream.on('error', reject)
+    })
+    const timedOut = !await Promise.race([
+      finished,
+      new Promise<boolean>(resolve => timer = setTimeout(resolve, timeoutMs, false)),
+    ]).finally(() => clearTimeout(timer))
+
+    if (timedOut) {
+      logger.debug(`Command timed out after ${timeoutMs}ms, killing it: ${command}`)
+      try {
+        const kill = await container.exec({ Cmd: ['sh', '-c', `${KILL_TREE}; kill_tree "$(cat ${pidFile})"`] })
+        await kill.start({ Detach: true })
+      }
+      catch (error) {
+        logger.warn(`Failed to kill timed out command: ${(error as Error).message}`)
+      }
+      stream.destroy()
+    }
 
-      // Skip the first 8 bytes (Docker exec protocol framing)
-      // https://docs.docker.com/reference/api/engine/version/v1.51/#tag/Container/operation/ContainerAttach
-      return await text(stream.map(chunk => chunk.subarray(8)))
+    // The output of an exec can end before Docker has recorded its exit code
+    let state = await exec.inspect()
+    for (let poll = 1; state.Running && poll < EXIT_CODE_POLLS; poll++) {
+      await sleep(EXIT_CODE_POLL_INTERVAL_MS)
+      state = await exec.inspect()
+    }
+    return {
+      output: output.toString(),
+      stdout: stdout.toString(),
+      stderr: stderr.toString(),
+      exitCode: timedOut ? null : state.ExitCode,
+      durationMs: Date.now() - started,
+      timedOut,
+      truncated: stdout.truncated || stderr.truncated,
+    }
+  }
+
+  const timeoutSeconds = z.number().int().min(1).max(MAX_COMMAND_TIMEOUT_SECONDS).optional()
+
+  const executeCommand = defineAiFunction({
+    name: 'executeCommand',
+    description: `Execute a command inside the created Docker container. Returns its exit code, stdout, stderr and duration. Commands still running after the timeout are killed and reported as timed out. Outputs longer than ${MAX_OUTPUT_CHARS} characters keep only their beginning and end and are reported as truncated.`,
+    parameters: z.object({
+      command: z.string().describe('The command to execute.'),
+      timeoutSeconds: timeoutSeconds.describe(`Seconds after which the command is killed (default ${DEFAULT_COMMAND_TIMEOUT_SECONDS}).`),
+      workdir: z.string().optional().describe('Directory to run the command in, the image\'s working directory by default.'),
+      env: z.record(z.string(), z.string()).optional().describe('Environment variables set for the command only.'),
+    }),
+    response: CommandResultSchema,
+    implementation: async ({ command, timeoutSeconds, workdir, env }) => {
+      const { output: _, ...result } = await runCommand(command, { timeoutMs: timeoutSeconds && timeoutSeconds * 1000, workdir, env })
+      return result
     },
   })
 
+  const runRepeated = defineAiFunction({
+    name: 'runRepeated',
+    description: 'Run a test command many times inside the created Docker container and measure how often it fails. Returns the pass/fail tally, the flake rate with its 95% confidence interval, run durations and the distinct failures with the runs they occurred in. A run fails when the command exits with a non-zero code.',
+    parameters: z.object({
+      command: z.string().describe('The command running the flaky test, preferably only that test.'),
+      runs: z.number().int().min(1).max(MAX_REPEATED_RUNS).optional().describe('Number of runs (default 10).'),
+      parallel: z.number().int().min(1).max(MAX_PARALLEL_RUNS).optional().describe('Number of runs at the same time (default 1). Parallel runs share the container, so only use this for tests that do not conflict.'),
+      timeoutSeconds: timeoutSeconds.describe(`Seconds after which a run is killed and counted as failed (default ${DEFAULT_COMMAND_TIMEOUT_SECONDS}).`),
+    }),
+    response: RepeatedRunStatsSchema,
+    implementation: async ({ command, runs = 10, parallel = 1, timeoutSeconds }) => {
+      const results: CommandRun[] = []
+      for await (const result of mapConcurrent(Array.from({ length: runs }), parallel, () => runCommand(command, { timeoutMs: timeoutSeconds && timeoutSeconds * 1000 })))
+        results.push(result)
+      const stats = summarizeRuns(command, results)
+      logger.debug(`Ran ${command} ${runs} times: ${stats.failed} failed`)
+      return constraints ? { ...stats, constraints } : stats
+    },
+  })
+
+  async function removeContainer(): Promise<void> {
+    if (!containerId)
+      return
+    const container = docker.getContainer(containerId)
+    containerId = undefined
+    constraints = undefined
+    try {
+      await container.remove({ force: true })
+      logger.debug(`Removed container ${container.id}`)
+    }
+    catch (error) {
+      logger.warn(`Failed to remove container ${container.id}: ${(error as Error).message}`)
+    }
+  }
+
+  // Stop and remove the container started by createContainer, if any
+  async function cleanup(): Promise<void> {
+    const release = releaseSlot
+    releaseSlot = undefined
+    await removeContainer()
+    release?.()
+  }
+
   return {
     buildImage,
     createContainer,
     executeCommand,
+    runRepeated,
+    runCommand,
+    cleanup,
   }
 }
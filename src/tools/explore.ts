@@ -1,9 +1,9 @@
-import { Buffer } from 'node:buffer'
+import type { ForgeConfig } from '../forges'
 import * as z from 'zod'
-import { octokit } from '../clients'
+import { getForge } from '../forges'
 import { defineAiFunction } from '../utils/defineAiFunction'
 
-export function createExploreFunctions(repoFullName: string) {
+export function createExploreFunctions(repoFullName: string, forgeConfig: ForgeConfig = { type: 'github' }) {
   const repoCache: Record<`file:${string}`, string> & Record<`dir:${string}`, string[]> = {}
   const [owner, repo] = repoFullName.split('/')
 
@@ -13,7 +13,7 @@ export function createExploreFunctions(repoFullName: string) {
 
   const readFile = defineAiFunction({
     name: 'readFile',
-    description: 'Read the content of a file from the GitHub repository using a path relative to the repository root.',
+    description: 'Read the content of a file from the repository using a path relative to the repository root.',
     parameters: z.object({
       path: z.string().describe('The path to the file relative to the repository root (e.g., "package.json", "src/main.ts").'),
     }),
@@ -29,25 +29,10 @@ export function createExploreFunctions(repoFullName: string) {
       }
 
       try {
-        const response = await octokit.rest.repos.getContent({
-          owner,
-          repo,
-          path,
-        })
-
-        // GitHub API returns different formats for files vs directories
-        if (Array.isArray(response.data)) {
-          throw new TypeError(`${path} is a directory, not a file`)
-        }
-
-        if ('content' in response.data && response.data.type === 'file') {
-          // Decode base64 content
-          const content = Buffer.from(response.data.content, 'base64').toString('utf-8')
-          repoCache[cacheKey] = content
-          return content
-        }
-
-        throw new Error(`Unable to read file: ${path}`)
+        const forge = await getForge(forgeConfig)
+        const content = await forge.readFile(repoFullName, path)
+        repoCache[cacheKey] = content
+        return content
       }
       catch (error: any) {
         if (error.status === 404) {
@@ -60,7 +45,7 @@ export function createExploreFunctions(repoFullName: string) {
 
   const listDir = defineAiFunction({
     name: 'listDir',
-    description: 'List the contents of a directory in the GitHub repository using a path relative to the repository root.',
+    description: 'List the contents of a directory in the repository using a path relative to the repository root.',
     parameters: z.object({
       path: z.string().describe('The path to the directory relative to the repository root (e.g., ".", "src", "test"). Use "." for repository root.'),
     }),
@@ -76,20 +61,10 @@ export function createExploreFunctions(repoFullName: string) {
       }
 
       try {
-        const response = await octokit.rest.repos.getContent({
-          owner,
-          repo,
-          path: path === '.' ? '' : path,
-        })
-
-        if (Array.isArray(response.data)) {
-          const contents = response.data.map(item => item.name)
-          repoCache[cacheKey] = contents
-          return contents
-        }
-        else {
-          throw new TypeError(`${path} is a file, not a directory`)
-        }
+        const forge = await getForge(forgeConfig)
+        const contents = await forge.listDir(repoFullName, path)
+        repoCache[cacheKey] = contents
+        return contents
       }
       catch (error: any) {
         if (error.status === 404) {
@@ -0,0 +1,141 @@
+import type { PolluterSearch, ShuffledRuns } from '../types'
+import type { CommandRun } from './docker'
+import { randomInt } from 'node:crypto'
+import * as z from 'zod'
+import { PolluterSearchSchema, ShuffledRunsSchema } from '../types'
+import { defineAiFunction } from '../utils/defineAiFunction'
+import { extractLogExcerpt } from '../utils/logs'
+
+const MAX_SHUFFLED_RUNS = 50
+const MAX_ATTEMPTS = 5
+
+export const SHUFFLE_FRAMEWORKS = ['jest', 'vitest', 'pytest', 'go', 'junit'] as const
+
+export type ShuffleFramework = typeof SHUFFLE_FRAMEWORKS[number]
+
+// Flags randomizing the order of test files and tests with a given seed
+const SHUFFLE_FLAGS: Record<ShuffleFramework, (seed: number) => string> = {
+  jest: seed => `--randomize --seed=${seed}`,
+  vitest: seed => `--sequence.shuffle --sequence.seed=${seed}`,
+  // Needs the pytest-randomly plugin
+  pytest: seed => `-p randomly --randomly-seed=${seed}`,
+  go: seed => `-shuffle=${seed}`,
+  // Maven Surefire orders the test classes, JUnit 5 the classes and methods within them
+  junit: seed => [
+    '-Dsurefire.runOrder=random',
+    `-Dsurefire.runOrder.random.seed=${seed}`,
+    `-Djunit.jupiter.testclass.order.default='org.junit.jupiter.api.ClassOrderer$Random'`,
+    `-Djunit.jupiter.testmethod.order.default='org.junit.jupiter.api.MethodOrderer$Random'`,
+    `-Djunit.jupiter.execution.order.random.seed=${seed}`,
+  ].join(' '),
+}
+
+export function shuffleCommand(framework: ShuffleFramework, command: string, seed: number): string {
+  return `${command} ${SHUFFLE_FLAGS[framework](seed)}`
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replaceAll('\'', `'\\''`)}'`
+}
+
+/** Replaces `{tests}` in a command with the quoted tests, in order */
+export function fillTests(command: string, tests: string[]): string {
+  if (!command.includes('{tests}')) {
+    throw new Error('The command must contain a {tests} placeholder')
+  }
+  return command.replaceAll('{tests}', tests.map(shellQuote).join(' '))
+}
+
+/**
+ * Narrows down the predecessors that make a victim test fail when run before it: first checks that
+ * the victim passes alone and fails after all of them, then bisects them and finally drops every
+ * predecessor it still fails without, for victims that need several polluters together
+ */
+export async function bisectPolluters(victim: string, predecessors: string[], fails: (tests: string[]) => Promise<boolean>): Promise<PolluterSearch> {
+  const trials: PolluterSearch['trials'] = []
+  async function trial(suspects: string[]): Promise<boolean> {
+    const tests = [...suspects, victim]
+    const failed = await fails(tests)
+    trials.push({ tests, failed })
+    return failed
+  }
+
+  if (await trial([]))
+    return { victim, status: 'fails-in-isolation', polluters: [], trials }
+  if (!await trial(predecessors))
+    return { victim, status: 'passes-with-predecessors', polluters: [], trials }
+
+  let suspects = predecessors
+  while (suspects.length > 1) {
+    const half = Math.ceil(suspects.length / 2)
+    const [first, second] = [suspects.slice(0, half), suspects.slice(half)]
+    if (await trial(first))
+      suspects = first
+    else if (await trial(second))
+      suspects = second
+    else
+      break
+  }
+  // Neither half alone makes the victim fail
+  for (const test of [...suspects]) {
+    if (suspects.length === 1)
+      break
+    const without = suspects.filter(suspect => suspect !== test)
+    if (await trial(without))
+      suspects = without
+  }
+  return { victim, status: suspects.length === 1 ? 'polluter-found' : 'polluters-found', polluters: suspects, trials }
+}
+
+export function createOrderFunctions(runCommand: (command: string) => Promise<Pick<CommandRun, 'output' | 'exitCode'>>) {
+  const runShuffled = defineAiFunction({
+    name: 'runShuffled',
+    description: 'Run tests in a different random order each run, using the test framework\'s own shuffling, to find out whether a test depends on the tests running before it. Returns the seeds of the passing runs and, for every failing run, its seed, the exact command replaying its order and the log lines around the failure.',
+    parameters: z.object({
+      framework: z.enum(SHUFFLE_FRAMEWORKS).describe('The test framework: jest (29.2+), vitest, pytest (with pytest-randomly installed), go (1.17+) or junit (JUnit 5 run by Maven Surefire).'),
+      command: z.string().describe('The command running the tests, the shuffle flags are appended to it. Include the tests the flaky test might depend on, e.g. its whole file or package.'),
+      runs: z.number().int().min(1).max(MAX_SHUFFLED_RUNS).optional().describe('Number of runs with random seeds (default 10).'),
+      seeds: z.number().int().array().max(MAX_SHUFFLED_RUNS).optional().describe('Seeds to run with instead of random ones, e.g. to replay a failing order.'),
+    }),
+    response: ShuffledRunsSchema,
+    implementation: async ({ framework, command, runs = 10, seeds }): Promise<ShuffledRuns> => {
+      const result: ShuffledRuns = { framework, runs: 0, failed: 0, passingSeeds: [], failures: [] }
+      for (const seed of seeds ?? Array.from({ length: runs }, () => randomInt(1, 2 ** 31))) {
+        const seeded = shuffleCommand(framework, command, seed)
+        const { output, exitCode } = await runCommand(seeded)
+        result.runs++
+        if (exitCode === 0) {
+          result.passingSeeds.push(seed)
+          continue
+        }
+        result.failed++
+        result.failures.push({ seed, command: seeded, excerpt: extractLogExcerpt(output, 20) })
+      }
+      return result
+    },
+  })
+
+  const findPolluter = defineAiFunction({
+    name: 'findPolluter',
+    description: 'Find the tests that make a failing test fail when they run before it. Runs the failing test alone and after its predecessors, then bisects the predecessors down to the polluting test, or the smallest set of tests that only fail it together. Returns the status, the polluters and every combination tried.',
+    parameters: z.object({
+      command: z.string().describe('Command running the given tests in the given order in a single process, with {tests} where the space-separated, quoted tests go, e.g. "pytest -p no:randomly {tests}". Check that the command keeps the order, many runners sort the tests they are given.'),
+      victim: z.string().describe('The test that fails, as passed to the command.'),
+      predecessors: z.string().array().describe('The tests that ran before the victim in a failing order, in that order, e.g. from a failing runShuffled run.'),
+      attempts: z.number().int().min(1).max(MAX_ATTEMPTS).optional().describe('Runs of every combination, a combination fails when any run fails (default 1). Raise it when the victim is also flaky on its own.'),
+    }),
+    response: PolluterSearchSchema,
+    implementation: ({ command, victim, predecessors, attempts = 1 }) => bisectPolluters(victim, predecessors, async (tests) => {
+      for (let i = 0; i < attempts; i++) {
+        if ((await runCommand(fillTests(command, tests))).exitCode !== 0)
+          return true
+      }
+      return false
+    }),
+  })
+
+  return {
+    runShuffled,
+    findPolluter,
+  }
+}
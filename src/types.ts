@@ -1,4 +1,5 @@
 import * as z from 'zod'
+import { PROVIDERS } from './constants'
 
 // Shared type definitions
 
@@ -15,42 +16,244 @@ export const FindResultSchema = z.object({
   comments: z.number().min(0),
   reactions: z.number().min(0),
   created: z.string(),
+  /** Forge hosting the repository, github when missing */
+  forge: z.enum(['github', 'gitlab']).optional(),
+  /** Where the record was discovered, issues when missing */
+  source: z.enum(['issues', 'actions', 'reports']).optional(),
+  /** Commit the failure was observed on */
+  commit: z.string().optional(),
+  failingTests: z.string().array().optional(),
+  logExcerpt: z.string().optional(),
+  /** Run attempt that passed on the same commit */
+  passedRunUrl: z.string().url().optional(),
+  /** Test a record from test reports is about, and the file it is declared in */
+  testId: z.string().optional(),
+  file: z.string().optional(),
+  failureMessages: z.string().array().optional(),
+  testStats: z.object({
+    runs: z.number().min(0),
+    failures: z.number().min(0),
+    flakeRate: z.number().min(0).max(1),
+  }).optional(),
 })
 
 export type FindResult = z.infer<typeof FindResultSchema>
 
 export interface DetailedIssue extends FindResult {
   body?: string
+  labels?: string[]
   commentsList?: {
     body: string
     author: string
     createdAt: string
   }[]
-  linkedPRs?: {
-    title: string
-    url: string
-    merged: boolean
-  }[]
+  linkedPRs?: LinkedPullRequest[]
+  /** Failure windows of the CI jobs linked from the issue */
+  ciLogs?: CiLogDigest[]
+}
+
+export interface CiLogDigest {
+  job: string
+  url: string
+  conclusion: string | null
+  failingTests: string[]
+  /** The failure window: the failing test, its stack trace and the surrounding lines */
+  excerpt: string
 }
 
+/** A pull/merge request that references an issue, as found on the issue's timeline */
+export interface LinkedPullRequest {
+  title: string
+  url: string
+  merged: boolean
+  state: 'open' | 'closed' | 'merged'
+  /** Closes the issue, through a closing keyword, a manual link or by having closed it */
+  closes: boolean
+  mergeCommit?: string
+  changedTestFiles: string[]
+}
+
+export const EnvironmentSchema = z.object({
+  language: z.string().optional(),
+  framework: z.string().optional(),
+  /** CI system the failures were seen on, e.g. GitHub Actions */
+  ci: z.string().optional(),
+  os: z.string().optional(),
+  testCommand: z.string().optional(),
+  additionalInfo: z.string().optional(),
+})
+
+/** What exactly fails, as extracted by the filter so the reproducer can target it */
+export const TestIdentificationSchema = z.object({
+  tests: z.object({
+    name: z.string(),
+    /** Only set when the file exists in the repository */
+    file: z.string().optional(),
+  }).array(),
+  /** Test files named in the issue that exist in the repository */
+  testFiles: z.string().array(),
+  /** The failing assertion or error message, without run-specific values */
+  errorSignature: z.string().optional(),
+  failingRuns: z.string().url().array(),
+  /** Commit the flakiness was introduced or observed on */
+  suspectedCommit: z.string().optional(),
+})
+
+export type TestIdentification = z.infer<typeof TestIdentificationSchema>
+
+/** Limits and background load of a reproduction container, described for the reproducer's createContainer tool */
+export const ContainerConstraintsSchema = z.object({
+  cpus: z.number().positive().optional().describe('CPU quota in CPUs, e.g. 0.5 for half a CPU.'),
+  cpuset: z.string().regex(/^\d+(?:-\d+)?(?:,\d+(?:-\d+)?)*$/).optional().describe('CPUs the container may run on, e.g. "0" or "0-1,3".'),
+  memoryMb: z.number().int().min(6).optional().describe('Memory limit in MiB, swap included.'),
+  pidsLimit: z.number().int().positive().optional().describe('Maximum number of processes and threads in the container.'),
+  network: z.boolean().optional().describe('Set to false to start the container without network access, so dependencies must be installed in the image.'),
+  stress: z.object({
+    cpu: z.number().int().min(0).max(16).optional().describe('Number of busy-looping processes competing for the CPU.'),
+    io: z.number().int().min(0).max(16).optional().describe('Number of processes repeatedly writing and syncing files.'),
+  }).optional().describe('Background load started with the container and running until it is removed.'),
+})
+
+export type ContainerConstraints = z.infer<typeof ContainerConstraintsSchema>
+
+/** Outcome of running a test command repeatedly, as measured by the reproducer's runRepeated tool */
+export const RepeatedRunStatsSchema = z.object({
+  command: z.string(),
+  runs: z.number(),
+  passed: z.number(),
+  failed: z.number(),
+  /** Share of failed runs */
+  flakeRate: z.number().min(0).max(1),
+  /** 95% Wilson score interval of the flake rate */
+  confidenceInterval: z.object({ lower: z.number(), upper: z.number() }),
+  durationsMs: z.object({ min: z.number(), median: z.number(), max: z.number() }),
+  /** Distinct failures, most frequent first, with the (1-based) runs they occurred in */
+  failures: z.object({
+    excerpt: z.string(),
+    count: z.number(),
+    runs: z.number().array(),
+  }).array(),
+  /** Constraints of the container the runs took place in, if any */
+  constraints: ContainerConstraintsSchema.optional(),
+})
+
+export type RepeatedRunStats = z.infer<typeof RepeatedRunStatsSchema>
+
+/** Outcome of running a test suite in randomized orders, as measured by the reproducer's runShuffled tool */
+export const ShuffledRunsSchema = z.object({
+  framework: z.string(),
+  runs: z.number(),
+  failed: z.number(),
+  /** Seeds of the passing runs */
+  passingSeeds: z.number().array(),
+  /** Failing runs with the exact command replaying their order */
+  failures: z.object({
+    seed: z.number(),
+    command: z.string(),
+    excerpt: z.string(),
+  }).array(),
+})
+
+export type ShuffledRuns = z.infer<typeof ShuffledRunsSchema>
+
+/** Outcome of narrowing down the tests a failing test depends on, as found by the reproducer's findPolluter tool */
+export const PolluterSearchSchema = z.object({
+  victim: z.string(),
+  /**
+   * `polluter-found` when a single predecessor makes the victim fail, `polluters-found` when only
+   * several together do, `fails-in-isolation` and `passes-with-predecessors` when the victim does not
+   * depend on the order at all
+   */
+  status: z.enum(['polluter-found', 'polluters-found', 'fails-in-isolation', 'passes-with-predecessors']),
+  /** Smallest set of predecessors found to make the victim fail, in their original order */
+  polluters: z.string().array(),
+  /** Every combination tried, the victim always running last */
+  trials: z.object({
+    tests: z.string().array(),
+    failed: z.boolean(),
+  }).array(),
+})
+
+export type PolluterSearch = z.infer<typeof PolluterSearchSchema>
+
+/** Suspected causes of flakiness, after the usual categories of flaky test studies */
+export const FlakinessCategorySchema = z.enum([
+  'async-wait',
+  'concurrency',
+  'test-order-dependency',
+  'shared-state',
+  'time',
+  'randomness',
+  'network',
+  'platform',
+  'resource-exhaustion',
+  'unknown',
+])
+
+export type FlakinessCategory = z.infer<typeof FlakinessCategorySchema>
+
+export const RootCauseSchema = z.object({
+  category: FlakinessCategorySchema,
+  /** Text from the issue, its comments or logs supporting the category */
+  quote: z.string(),
+})
+
+export type RootCause = z.infer<typeof RootCauseSchema>
+
 export const FiltererResultSchema = z.object({
   isFlakyTestIssue: z.boolean(),
   confidence: z.number().min(0).max(100),
   summary: z.string().optional(),
   reasoning: z.string(),
-  environment: z.object({
-    os: z.string().optional(),
-    testCommand: z.string().optional(),
-    additionalInfo: z.string().optional(),
-  }).optional(),
+  environment: EnvironmentSchema.optional(),
+  identification: TestIdentificationSchema.optional(),
+  rootCause: RootCauseSchema.optional(),
 })
 
 export type FiltererResult = z.infer<typeof FiltererResultSchema>
 
-export const FilteredResultSchema = FindResultSchema.extend(FiltererResultSchema.shape)
+export const HeuristicScoreSchema = z.object({
+  score: z.number(),
+  /** Signals that contributed to the score, e.g. "+3 flaky wording in the title" */
+  reasons: z.string().array(),
+  /** Whether the score alone decided the result, undecided issues were analyzed by the LLM */
+  decision: z.enum(['accept', 'reject', 'undecided']),
+})
+
+export type HeuristicScore = z.infer<typeof HeuristicScoreSchema>
+
+/** One classification of a self-consistency vote, with the model and temperature that cast it */
+export const FilterVoteSchema = z.object({
+  provider: z.enum(PROVIDERS),
+  model: z.string(),
+  temperature: z.number().optional(),
+  isFlakyTestIssue: z.boolean(),
+  confidence: z.number().min(0).max(100),
+  reasoning: z.string(),
+})
+
+export type FilterVote = z.infer<typeof FilterVoteSchema>
+
+export const FilteredResultSchema = FindResultSchema.extend({
+  ...FiltererResultSchema.shape,
+  heuristic: HeuristicScoreSchema.optional(),
+  /** Individual classifications when the issue was voted on, `confidence` is then the share of agreeing votes */
+  votes: FilterVoteSchema.array().optional(),
+  /** The votes disagreed, so the result should be checked by a human */
+  needsReview: z.boolean().optional(),
+})
 
 export type FilteredResult = z.infer<typeof FilteredResultSchema>
 
+/** A hand-labeled issue of an evaluation dataset, other find result fields are optional */
+export const LabeledIssueSchema = FindResultSchema.partial().extend({
+  url: z.string().url(),
+  isFlakyTestIssue: z.boolean(),
+  rootCause: FlakinessCategorySchema.optional(),
+})
+
+export type LabeledIssue = z.infer<typeof LabeledIssueSchema>
+
 export interface GraphQLIssueResponse {
   search: {
     edges: {
@@ -60,6 +263,7 @@ export interface GraphQLIssueResponse {
         createdAt: string
         comments: { totalCount: number }
         reactions: { totalCount: number }
+        repository: { nameWithOwner: string, stargazerCount: number }
       }
     }[]
     pageInfo: {
@@ -68,3 +272,34 @@ export interface GraphQLIssueResponse {
     }
   }
 }
+
+export interface GraphQLPullRequestNode {
+  __typename: 'PullRequest'
+  title: string
+  url: string
+  state: 'OPEN' | 'CLOSED' | 'MERGED'
+  merged: boolean
+  mergeCommit: { oid: string } | null
+  files: { nodes: { path: string }[] } | null
+}
+
+/** Timeline events reference issues and commits too, only pull requests are kept */
+export type GraphQLReferenceNode = GraphQLPullRequestNode | { __typename: 'Issue' | 'Commit' }
+
+export interface GraphQLTimelineResponse {
+  repository: {
+    issueOrPullRequest: {
+      timelineItems: {
+        nodes: (
+          | { __typename: 'CrossReferencedEvent', willCloseTarget: boolean, source: GraphQLReferenceNode }
+          | { __typename: 'ConnectedEvent', subject: GraphQLReferenceNode }
+          | { __typename: 'ClosedEvent', closer: GraphQLReferenceNode | null }
+        )[]
+        pageInfo: {
+          endCursor: string | null
+          hasNextPage: boolean
+        }
+      }
+    } | null
+  }
+}
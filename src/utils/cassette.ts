@@ -0,0 +1,164 @@
+import type { ChatRequest, ChatResponse, LlmOptions, LlmProvider, ProviderName } from '../llm'
+import type { AiFunction } from './defineAiFunction'
+import fs from 'node:fs'
+import { isDeepStrictEqual } from 'node:util'
+import { DEFAULT_MODELS } from '../constants'
+import { createLlmProvider } from '../llm'
+import { getLogger } from '../logger'
+
+export type CassetteMode = 'record' | 'replay'
+
+export type CassetteEntryKind = 'chat' | 'tool' | 'fixture'
+
+export interface CassetteEntry {
+  kind: CassetteEntryKind
+  name: string
+  input: unknown
+  output?: unknown
+  error?: string
+}
+
+export interface CassetteData {
+  version: 1
+  provider?: { name: ProviderName, model: string }
+  sessions: Record<string, CassetteEntry[]>
+}
+
+export interface CassetteOptions {
+  mode: CassetteMode
+  file: string
+  /** Throw instead of warning when a replayed request differs from the recorded one */
+  strict?: boolean
+}
+
+export interface CassetteSession {
+  intercept: <T>(kind: CassetteEntryKind, name: string, input: unknown, run: () => Promise<T>) => Promise<T>
+}
+
+export interface Cassette {
+  mode: CassetteMode
+  session: (key: string) => CassetteSession
+  /**
+   * Provider that answers from the cassette, only available in replay mode. Conversations of
+   * other providers, e.g. filter votes, are replayed by passing the provider they were recorded with
+   */
+  replayProvider: (options?: Partial<LlmOptions>) => LlmProvider
+  setProvider: (provider: LlmProvider) => void
+  save: () => void
+}
+
+// JSON round-trip so recorded inputs compare equal to inputs read back from disk
+function normalize(value: unknown): unknown {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value))
+}
+
+export function createCassette({ mode, file, strict = false }: CassetteOptions): Cassette {
+  const logger = getLogger()
+  const data: CassetteData = mode === 'replay'
+    ? JSON.parse(fs.readFileSync(file, 'utf-8'))
+    : { version: 1, sessions: {} }
+
+  if (data.version !== 1) {
+    throw new Error(`Unsupported cassette version in ${file}: ${data.version}`)
+  }
+
+  function recordSession(key: string): CassetteSession {
+    const entries: CassetteEntry[] = data.sessions[key] = []
+    return {
+      async intercept(kind, name, input, run) {
+        const entry: CassetteEntry = { kind, name, input: normalize(input) }
+        entries.push(entry)
+        try {
+          const output = await run()
+          entry.output = normalize(output)
+          return output
+        }
+        catch (error) {
+          entry.error = (error as Error).message
+          throw error
+        }
+      },
+    }
+  }
+
+  function replaySession(key: string): CassetteSession {
+    const entries = data.sessions[key]
+    if (!entries) {
+      throw new Error(`No recorded session for ${key} in ${file}`)
+    }
+    let position = 0
+    return {
+      async intercept(kind, name, input) {
+        const entry = entries[position++]
+        if (!entry) {
+          throw new Error(`Cassette session ${key} is exhausted, unexpected ${kind} '${name}'`)
+        }
+        if (entry.kind !== kind || entry.name !== name) {
+          throw new Error(`Cassette session ${key} expected ${entry.kind} '${entry.name}' at position ${position - 1}, got ${kind} '${name}'`)
+        }
+        if (!isDeepStrictEqual(entry.input, normalize(input))) {
+          const message = `Cassette session ${key} has a different ${kind} '${name}' input at position ${position - 1} than recorded`
+          if (strict)
+            throw new Error(message)
+          logger.warn(`⚠️  ${message}`)
+        }
+        if (entry.error !== undefined)
+          throw new Error(entry.error)
+        return entry.output as any
+      },
+    }
+  }
+
+  return {
+    mode,
+    session: key => mode === 'record' ? recordSession(key) : replaySession(key),
+    replayProvider(options = {}) {
+      if (mode !== 'replay' || !data.provider) {
+        throw new Error(`Cassette ${file} has no recorded provider to replay`)
+      }
+      const name = options.provider ?? data.provider.name
+      return {
+        name,
+        model: options.model ?? (name === data.provider.name ? data.provider.model : DEFAULT_MODELS[name]),
+        temperature: options.temperature,
+        chat: () => {
+          throw new Error('Replay provider must be wrapped in a cassette session')
+        },
+      }
+    },
+    setProvider({ name, model }) {
+      data.provider = { name, model }
+    },
+    save() {
+      if (mode === 'record')
+        fs.writeFileSync(file, JSON.stringify(data, null, 2))
+    },
+  }
+}
+
+export function withCassetteProvider(provider: LlmProvider, session?: CassetteSession): LlmProvider {
+  if (!session)
+    return provider
+  return {
+    ...provider,
+    chat: (request: ChatRequest) => session.intercept<ChatResponse>('chat', provider.name, request, () => provider.chat(request)),
+  }
+}
+
+export function withCassetteTools<T extends Record<string, AiFunction>>(functions: T, session?: CassetteSession): T {
+  if (!session)
+    return functions
+  return Object.fromEntries(Object.entries(functions).map(([name, f]) => [name, {
+    ...f,
+    implementation: (args: unknown) => session.intercept('tool', name, args, async () => f.implementation(args)),
+  }])) as T
+}
+
+export function resolveLlmProvider(llmOptions: LlmOptions, cassette?: Cassette): LlmProvider {
+  // Replays never talk to the real provider, so they don't need API keys either
+  if (cassette?.mode === 'replay')
+    return cassette.replayProvider()
+  const provider = createLlmProvider(llmOptions)
+  cassette?.setProvider(provider)
+  return provider
+}
@@ -0,0 +1,120 @@
+import type { OutputFormat } from './records'
+import fs from 'node:fs'
+import process from 'node:process'
+import { parseRecords } from './records'
+
+export interface ResultWriterOptions<T> {
+  /** Results go to stdout when no output file is given */
+  outputFile?: string
+  /** Identity of a result, used to skip already processed items on resume */
+  keyOf: (result: T) => string
+  resume?: boolean
+  /**
+   * `json` writes a single array (to stdout only on close), `ndjson` appends one line per
+   * result as soon as it is written.
+   */
+  format?: OutputFormat
+  /** Rewrite a JSON output file after every result, disable for large, cheap-to-recreate outputs */
+  checkpoint?: boolean
+}
+
+export interface ResultWriter<T> {
+  results: T[]
+  has: (key: string) => boolean
+  /** Keep a place for a result still being processed, results written out of order are put back in their places on close */
+  reserve: (key: string) => void
+  write: (result: T) => void
+  close: () => void
+}
+
+// Write to a sibling temp file first so a crash mid-write never corrupts the checkpoint
+export function writeFileAtomic(file: string, data: string): void {
+  const tmpFile = `${file}.tmp-${process.pid}`
+  fs.writeFileSync(tmpFile, data)
+  fs.renameSync(tmpFile, file)
+}
+
+function serialize<T>(results: T[], format: OutputFormat): string {
+  return format === 'ndjson'
+    ? results.map(result => `${JSON.stringify(result)}\n`).join('')
+    : JSON.stringify(results, null, 2)
+}
+
+export function createResultWriter<T>({ outputFile, keyOf, resume = false, format = 'json', checkpoint = true }: ResultWriterOptions<T>): ResultWriter<T> {
+  if (resume && !outputFile) {
+    throw new Error('Resuming requires an output file')
+  }
+
+  // Resumed files may have been written in either format
+  const results: T[] = resume && outputFile && fs.existsSync(outputFile)
+    ? parseRecords(fs.readFileSync(outputFile, 'utf-8'))
+    : []
+  const keys = new Set(results.map(keyOf))
+  const places = new Map<string, number>()
+  let lastPlace = -1
+  let reordered = false
+  let closed = false
+
+  const flush = () => {
+    if (outputFile)
+      writeFileAtomic(outputFile, serialize(results, format))
+  }
+
+  if (outputFile && format === 'ndjson')
+    flush()
+
+  return {
+    results,
+    has: key => keys.has(key),
+    reserve(key) {
+      if (!places.has(key))
+        places.set(key, places.size)
+    },
+    write(result) {
+      const key = keyOf(result)
+      const place = places.get(key)
+      if (place !== undefined) {
+        reordered ||= place < lastPlace
+        lastPlace = Math.max(lastPlace, place)
+      }
+      // Re-processed items replace their previous result instead of duplicating it
+      const index = keys.has(key) ? results.findIndex(r => keyOf(r) === key) : -1
+      if (index === -1)
+        results.push(result)
+      else
+        results[index] = result
+      keys.add(key)
+
+      if (format === 'ndjson') {
+        const line = `${JSON.stringify(result)}\n`
+        if (!outputFile)
+          process.stdout.write(line)
+        else if (index === -1)
+          fs.appendFileSync(outputFile, line)
+        else
+          flush()
+      }
+      else if (checkpoint) {
+        flush()
+      }
+    },
+    close() {
+      if (closed)
+        return
+      closed = true
+      // Resumed results have no place and stay in front
+      if (reordered)
+        results.sort((a, b) => (places.get(keyOf(a)) ?? -1) - (places.get(keyOf(b)) ?? -1))
+      if (format === 'ndjson') {
+        // Lines already streamed to stdout can't be reordered
+        if (reordered && outputFile)
+          flush()
+        return
+      }
+      if (outputFile)
+        flush()
+      else
+        process.stdout.write(`${JSON.stringify(results, null, 2)}\n`)
+    },
+  }
+}
@@ -0,0 +1,74 @@
+import * as fs from 'node:fs'
+import { join } from 'node:path'
+
+const GLOB_CHARS = /[*?[{]/
+
+// Directories that never contain test reports worth scanning
+const IGNORED_DIRS = new Set(['node_modules', '.git'])
+
+function globToRegExp(pattern: string): RegExp {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (pattern.startsWith('**/', i)) {
+      source += '(?:.*/)?'
+      i += 2
+    }
+    else if (pattern.startsWith('**', i)) {
+      source += '.*'
+      i++
+    }
+    else if (char === '*') {
+      source += '[^/]*'
+    }
+    else if (char === '?') {
+      source += '[^/]'
+    }
+    else if (char === '{') {
+      const end = pattern.indexOf('}', i)
+      if (end === -1) {
+        source += '\\{'
+        continue
+      }
+      source += `(?:${pattern.slice(i + 1, end).split(',').map(part => globToRegExp(part).source.slice(1, -1)).join('|')})`
+      i = end
+    }
+    else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+function walk(dir: string, prefix = ''): string[] {
+  const files: string[] = []
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name
+    if (entry.isDirectory() && !IGNORED_DIRS.has(entry.name))
+      files.push(...walk(join(dir, entry.name), path))
+    else if (entry.isFile())
+      files.push(path)
+  }
+  return files
+}
+
+/**
+ * Files matching a glob pattern with `*`, `**`, `?` and `{a,b}`, sorted by path. Patterns
+ * without glob characters are returned as is when the file exists.
+ */
+export function globFiles(pattern: string): string[] {
+  const segments = pattern.split('/')
+  const firstGlob = segments.findIndex(segment => GLOB_CHARS.test(segment))
+  if (firstGlob === -1)
+    return fs.existsSync(pattern) && fs.statSync(pattern).isFile() ? [pattern] : []
+
+  const base = segments.slice(0, firstGlob).join('/')
+  const root = base || (pattern.startsWith('/') ? '/' : '.')
+  if (!fs.existsSync(root))
+    return []
+  const regex = globToRegExp(segments.slice(firstGlob).join('/'))
+  return walk(root)
+    .filter(path => regex.test(path))
+    .map(path => base ? `${base}/${path}` : path)
+    .sort()
+}
@@ -0,0 +1,99 @@
+import { createHash } from 'node:crypto'
+import fs from 'node:fs'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import process from 'node:process'
+import { writeFileAtomic } from './checkpoint'
+
+export interface HttpCacheOptions {
+  dir?: string
+  /**
+   * Responses younger than this are served without a request. Older ones are revalidated
+   * with their ETag, when they have one, and otherwise fetched again.
+   */
+  ttlMs?: number
+}
+
+export interface CachedResponse {
+  status: number
+  url: string
+  headers: Record<string, string | number | undefined>
+  data: unknown
+}
+
+export interface HttpCacheEntry {
+  storedAt: number
+  etag?: string
+  lastModified?: string
+  response: CachedResponse
+}
+
+export interface HttpCache {
+  dir: string
+  ttlMs: number
+  get: (key: string) => HttpCacheEntry | undefined
+  isFresh: (entry: HttpCacheEntry) => boolean
+  set: (key: string, response: CachedResponse) => void
+  /** Mark an entry as fresh again after the server confirmed it is unchanged */
+  touch: (key: string, entry: HttpCacheEntry) => void
+}
+
+const DEFAULT_HTTP_CACHE_TTL_MS = 60 * 60 * 1000
+
+function defaultHttpCacheDir(): string {
+  return join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'flaki', 'http')
+}
+
+function header(headers: CachedResponse['headers'], name: string): string | undefined {
+  const value = headers[name]
+  return value == null ? undefined : String(value)
+}
+
+let httpCache: HttpCache | undefined
+
+export function createHttpCache(options: HttpCacheOptions = {}): HttpCache {
+  const { dir = defaultHttpCacheDir(), ttlMs = DEFAULT_HTTP_CACHE_TTL_MS } = options
+  fs.mkdirSync(dir, { recursive: true })
+  const fileOf = (key: string) => join(dir, `${createHash('sha256').update(key).digest('hex')}.json`)
+
+  function write(key: string, entry: HttpCacheEntry): void {
+    writeFileAtomic(fileOf(key), JSON.stringify(entry))
+  }
+
+  httpCache = {
+    dir,
+    ttlMs,
+    get(key) {
+      try {
+        return JSON.parse(fs.readFileSync(fileOf(key), 'utf-8')) as HttpCacheEntry
+      }
+      catch {
+        // Missing or partially written entries are simply refetched
+        return undefined
+      }
+    },
+    isFresh: entry => Date.now() - entry.storedAt < ttlMs,
+    set(key, response) {
+      const entry = {
+        storedAt: Date.now(),
+        etag: header(response.headers, 'etag'),
+        lastModified: header(response.headers, 'last-modified'),
+        response,
+      }
+      write(key, entry)
+    },
+    touch(key, entry) {
+      write(key, { ...entry, storedAt: Date.now() })
+    },
+  }
+  return httpCache
+}
+
+/** The cache configured by the CLI, requests aren't cached when there is none */
+export function getHttpCache(): HttpCache | undefined {
+  return httpCache
+}
+
+export function disableHttpCache(): void {
+  httpCache = undefined
+}
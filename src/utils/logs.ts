@@ -0,0 +1,133 @@
+// Timestamps GitHub Actions prepends to every log line, and terminal color codes
+// eslint-disable-next-line no-control-regex
+const NOISE = /^\d{4}-\d{2}-\d{2}T[\d:.]+Z ?|\x1B\[[\d;]*[A-Z]/gim
+
+const MAX_FAILING_TESTS = 50
+
+/** Patterns for trimmed failure lines of common test runners, the first group is the test name */
+const FAILURE_PATTERNS: RegExp[] = [
+  // vitest: "FAIL  src/a.test.ts > suite > test"
+  /^FAIL +(\S+ > .+)$/,
+  // vitest/jest: "× suite > test 12ms" / "✕ test (12 ms)"
+  /^[×✕✗] (.+)$/,
+  // jest: "● suite › test"
+  /^● ([^›]+›.+)$/,
+  // pytest: "FAILED tests/test_a.py::test_b - AssertionError"
+  /^FAILED (\S+::\S+)/,
+  // go: "--- FAIL: TestName (0.00s)"
+  /^--- FAIL: (\S+)/,
+  // maven surefire 3: "[ERROR] com.acme.FooTest.bar -- Time elapsed: 0.1 s <<< FAILURE!"
+  /^\[ERROR\] ([\w.$]+) -- Time elapsed.*<<< (?:FAILURE|ERROR)!/,
+  // maven surefire 2: "[ERROR] bar(com.acme.FooTest)  Time elapsed: 0.1 s  <<< FAILURE!"
+  /^\[ERROR\] (\w+\([\w.$]+\)).*<<< (?:FAILURE|ERROR)!/,
+  // gradle: "FooTest > bar() FAILED"
+  /^(\S+ > .+) FAILED$/,
+  // cargo: "test tests::foo ... FAILED"
+  /^test (\S+) \.\.\. FAILED$/,
+]
+
+// Durations some runners print after the test name
+const DURATION = / \(?\d+ ?ms\)?$/
+
+function matchFailure(line: string): string | undefined {
+  const trimmed = line.trim()
+  for (const pattern of FAILURE_PATTERNS) {
+    const match = trimmed.match(pattern)
+    if (match)
+      return match[1].replace(DURATION, '').trim()
+  }
+  return undefined
+}
+
+export function cleanLog(log: string): string {
+  return log.replace(NOISE, '')
+}
+
+/** Names of the tests reported as failed in a CI log, in order of appearance */
+export function extractFailingTests(log: string): string[] {
+  const tests = new Set<string>()
+  for (const line of cleanLog(log).split('\n')) {
+    const test = matchFailure(line)
+    if (test)
+      tests.add(test)
+    if (tests.size >= MAX_FAILING_TESTS)
+      break
+  }
+  return [...tests]
+}
+
+/**
+ * The lines around the first reported failure, or around the first line mentioning `around`
+ * when given, or the end of the log when neither is found
+ */
+export function extractLogExcerpt(log: string, maxLines = 40, around?: string): string {
+  const lines = cleanLog(log).split('\n')
+  const first = around
+    ? lines.findIndex(line => line.includes(around))
+    : lines.findIndex(line => line.startsWith('##[error]') || matchFailure(line) !== undefined)
+  const start = first === -1 ? Math.max(0, lines.length - maxLines) : Math.max(0, first - 5)
+  return lines.slice(start, start + maxLines).join('\n').trim()
+}
+
+export interface OutputBuffer {
+  append: (chunk: string) => void
+  /** Whether characters were dropped from the middle */
+  readonly truncated: boolean
+  toString: () => string
+}
+
+/** Collects streamed output, keeping its first and last `maxChars / 2` characters once it grows longer */
+export function createOutputBuffer(maxChars: number): OutputBuffer {
+  const half = Math.floor(maxChars / 2)
+  let head = ''
+  let tail = ''
+  let dropped = 0
+  return {
+    append(chunk) {
+      const taken = chunk.slice(0, Math.max(0, half - head.length))
+      head += taken
+      tail += chunk.slice(taken.length)
+      if (tail.length > half) {
+        dropped += tail.length - half
+        tail = tail.slice(-half)
+      }
+    },
+    get truncated() {
+      return dropped > 0
+    },
+    toString() {
+      return dropped ? `${head}\n... [${dropped} characters truncated] ...\n${tail}` : head + tail
+    },
+  }
+}
+
+// Ids, addresses, durations and other numbers that differ between runs of the same failure
+const VOLATILE = /0x[\da-f]+|[\da-f]{8}(?:-[\da-f]{4}){3}-[\da-f]{12}|\d+(?:\.\d+)?/gi
+
+/** A failure excerpt without run-specific values, equal for repeated occurrences of the same failure */
+export function failureSignature(excerpt: string): string {
+  return cleanLog(excerpt).replace(VOLATILE, 'N').replace(/\s+/g, ' ').trim()
+}
+
+// https://github.com/owner/repo/actions/runs/123, optionally followed by /job/456 or /attempts/2
+const ACTIONS_URL = /https?:\/\/[^\s/]+\/[\w.-]+\/[\w.-]+\/actions\/runs\/\d+(?:\/job\/\d+)?/g
+
+export interface ActionsUrl {
+  owner: string
+  repo: string
+  runId: number
+  jobId?: number
+}
+
+/** Links to GitHub Actions runs and jobs in a text, each once */
+export function findActionsUrls(text: string): string[] {
+  return [...new Set(text.match(ACTIONS_URL) ?? [])]
+}
+
+export function parseActionsUrl(url: string): ActionsUrl | undefined {
+  const match = url.match(/\/([\w.-]+)\/([\w.-]+)\/actions\/runs\/(\d+)(?:\/job\/(\d+))?/)
+  if (!match)
+    return undefined
+  const [, owner, repo, runId, jobId] = match
+  return { owner, repo, runId: +runId, jobId: jobId ? +jobId : undefined }
+}
@@ -0,0 +1,75 @@
+import fs from 'node:fs'
+import process from 'node:process'
+import { createInterface } from 'node:readline'
+
+export type OutputFormat = 'json' | 'ndjson'
+
+/**
+ * Read records from a file (or stdin) as they arrive. The format is detected from the
+ * content: a JSON array or a single (possibly pretty-printed) JSON value is parsed as a
+ * whole, while newline-delimited JSON is yielded line by line.
+ */
+export async function* readRecords<T>(inputFile?: string): AsyncGenerator<T> {
+  const input = inputFile ? fs.createReadStream(inputFile, 'utf-8') : process.stdin
+  const lines = createInterface({ input, crlfDelay: Infinity })
+
+  let mode: 'detect' | 'json' | 'ndjson' = 'detect'
+  let buffer = ''
+  let lineNumber = 0
+
+  for await (const line of lines) {
+    lineNumber++
+    if (mode === 'json') {
+      buffer += `${line}\n`
+      continue
+    }
+    const trimmed = line.trim()
+    if (!trimmed)
+      continue
+
+    if (mode === 'detect') {
+      if (trimmed.startsWith('[')) {
+        mode = 'json'
+        buffer += `${line}\n`
+        continue
+      }
+      try {
+        const record = JSON.parse(trimmed)
+        mode = 'ndjson'
+        yield record
+      }
+      catch {
+        // First line isn't a complete value, so this is a pretty-printed JSON document
+        mode = 'json'
+        buffer += `${line}\n`
+      }
+      continue
+    }
+
+    try {
+      yield JSON.parse(trimmed)
+    }
+    catch (error) {
+      throw new Error(`Invalid JSON on line ${lineNumber}${inputFile ? ` of ${inputFile}` : ''}: ${(error as Error).message}`)
+    }
+  }
+
+  if (mode === 'json') {
+    const parsed = JSON.parse(buffer)
+    yield* Array.isArray(parsed) ? parsed : [parsed]
+  }
+}
+
+/** Parse an already complete JSON or NDJSON document */
+export function parseRecords<T>(content: string): T[] {
+  const trimmed = content.trim()
+  if (!trimmed)
+    return []
+  try {
+    const parsed = JSON.parse(trimmed)
+    return Array.isArray(parsed) ? parsed : [parsed]
+  }
+  catch {
+    return trimmed.split('\n').filter(line => line.trim()).map(line => JSON.parse(line))
+  }
+}
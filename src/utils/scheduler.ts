@@ -0,0 +1,215 @@
+import { DEFAULT_LIMITS } from '../constants'
+import { getLogger } from '../logger'
+
+export type LimiterName = keyof typeof DEFAULT_LIMITS
+
+export interface Limiter {
+  name: LimiterName
+  /** Wait for a free slot, the returned function gives it back */
+  acquire: () => Promise<() => void>
+  run: <T>(task: () => Promise<T>) => Promise<T>
+  /**
+   * Pause the limiter for `delayMs` and halve its concurrency. The concurrency grows back
+   * one slot at a time as tasks succeed again.
+   */
+  backoff: (delayMs: number) => void
+  readonly concurrency: number
+}
+
+export interface Scheduler {
+  limiter: (name: LimiterName) => Limiter
+}
+
+export function createLimiter(name: LimiterName, maxConcurrency: number): Limiter {
+  const logger = getLogger()
+  const waiting: (() => void)[] = []
+  let concurrency = maxConcurrency
+  let active = 0
+  let pausedUntil = 0
+  let successes = 0
+  let timer: NodeJS.Timeout | undefined
+
+  function dispatch(): void {
+    const wait = pausedUntil - Date.now()
+    if (wait > 0) {
+      timer ??= setTimeout(() => {
+        timer = undefined
+        dispatch()
+      }, wait)
+      return
+    }
+    while (active < concurrency && waiting.length > 0) {
+      active++
+      waiting.shift()!()
+    }
+  }
+
+  function acquire(): Promise<() => void> {
+    return new Promise((resolve) => {
+      waiting.push(() => {
+        let released = false
+        resolve(() => {
+          if (released)
+            return
+          released = true
+          active--
+          dispatch()
+        })
+      })
+      dispatch()
+    })
+  }
+
+  return {
+    name,
+    acquire,
+    async run(task) {
+      const release = await acquire()
+      try {
+        const result = await task()
+        // Recover from an earlier backoff once requests go through again
+        if (concurrency < maxConcurrency && ++successes >= concurrency) {
+          concurrency++
+          successes = 0
+          dispatch()
+        }
+        return result
+      }
+      finally {
+        release()
+      }
+    },
+    backoff(delayMs) {
+      concurrency = Math.max(1, Math.floor(concurrency / 2))
+      successes = 0
+      const until = Date.now() + delayMs
+      if (until > pausedUntil) {
+        pausedUntil = until
+        logger.warn(`⏳ ${name} is rate limited, pausing for ${Math.ceil(delayMs / 1000)}s (concurrency ${concurrency})`)
+        if (timer) {
+          clearTimeout(timer)
+          timer = undefined
+        }
+        dispatch()
+      }
+    },
+    get concurrency() {
+      return concurrency
+    },
+  }
+}
+
+let scheduler: Scheduler | null = null
+
+export function createScheduler(limits: Partial<Record<LimiterName, number>> = {}): Scheduler {
+  const limiters = new Map<LimiterName, Limiter>()
+  scheduler = {
+    limiter(name) {
+      let limiter = limiters.get(name)
+      if (!limiter) {
+        limiter = createLimiter(name, limits[name] ?? DEFAULT_LIMITS[name])
+        limiters.set(name, limiter)
+      }
+      return limiter
+    },
+  }
+  return scheduler
+}
+
+export function getScheduler(): Scheduler {
+  if (!scheduler) {
+    scheduler = createScheduler()
+  }
+  return scheduler
+}
+
+function header(headers: any, name: string): string | undefined {
+  const value = typeof headers?.get === 'function' ? headers.get(name) : headers?.[name]
+  return value == null ? undefined : String(value)
+}
+
+/**
+ * How long to wait before retrying a request that failed with a rate limit error (429, or a
+ * GitHub 403 primary/secondary rate limit), or undefined for any other error.
+ */
+export function rateLimitDelay(error: any, fallbackMs: number): number | undefined {
+  const status = error?.status
+  if (status !== 429 && status !== 403)
+    return undefined
+  const headers = error.response?.headers ?? error.headers
+
+  const retryAfter = header(headers, 'retry-after')
+  if (retryAfter !== undefined && Number.isFinite(+retryAfter))
+    return +retryAfter * 1000
+
+  const reset = header(headers, 'x-ratelimit-reset')
+  if (header(headers, 'x-ratelimit-remaining') === '0' && reset !== undefined)
+    return Math.max(0, +reset * 1000 - Date.now())
+
+  // A 403 without rate limit headers or message is a plain permission error
+  if (status === 403 && !/rate limit|abuse/i.test(error.message ?? ''))
+    return undefined
+  return fallbackMs
+}
+
+/**
+ * Map items with at most `concurrency` calls in flight. Results are yielded as soon as they
+ * finish, so callers can checkpoint them while slower items are still running, and callers
+ * restore the input order themselves, e.g. with `ResultWriter.reserve`. Input is pulled
+ * lazily, which keeps streamed input streaming.
+ */
+export async function* mapConcurrent<T, R>(
+  items: Iterable<T> | AsyncIterable<T>,
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): AsyncGenerator<R> {
+  const iterator = Symbol.asyncIterator in items ? items[Symbol.asyncIterator]() : items[Symbol.iterator]()
+  const finished: Promise<R>[] = []
+  let active = 0
+  let index = 0
+  let pulling = false
+  let exhausted = false
+  let pullError: unknown
+  let notify = () => {}
+
+  const pull = () => {
+    pulling = true
+    Promise.resolve(iterator.next()).then((next) => {
+      pulling = false
+      if (next.done) {
+        exhausted = true
+      }
+      else {
+        const task = fn(next.value, index++)
+        const settle = () => {
+          active--
+          finished.push(task)
+          notify()
+        }
+        active++
+        task.then(settle, settle)
+      }
+      notify()
+    }, (error) => {
+      pulling = false
+      exhausted = true
+      pullError = error
+      notify()
+    })
+  }
+
+  while (true) {
+    if (finished.length > 0) {
+      yield await finished.shift()!
+      continue
+    }
+    if (exhausted && active === 0) {
+      if (pullError !== undefined)
+        throw pullError
+      return
+    }
+    if (!exhausted && !pulling && active < concurrency)
+      pull()
+    await new Promise<void>(resolve => notify = resolve)
+  }
+}
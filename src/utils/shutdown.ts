@@ -0,0 +1,43 @@
+import process from 'node:process'
+import { getLogger } from '../logger'
+
+type ShutdownHandler = () => void | Promise<void>
+
+const handlers = new Set<ShutdownHandler>()
+let installed = false
+let shuttingDown = false
+
+async function shutdown(signal: NodeJS.Signals): Promise<void> {
+  const logger = getLogger()
+  if (shuttingDown) {
+    logger.warn('Forcing exit')
+    process.exit(1)
+  }
+  shuttingDown = true
+  logger.warn(`\n🛑 Received ${signal}, shutting down (press Ctrl-C again to force)...`)
+
+  // Run the most recently registered handlers first, e.g. stop containers before flushing results
+  for (const handler of [...handlers].reverse()) {
+    try {
+      await handler()
+    }
+    catch (error) {
+      logger.error('Shutdown handler failed:', error)
+    }
+  }
+  process.exit(signal === 'SIGINT' ? 130 : 143)
+}
+
+/**
+ * Register a cleanup handler that runs on SIGINT/SIGTERM before the process exits.
+ * Returns a function that unregisters the handler.
+ */
+export function onShutdown(handler: ShutdownHandler): () => void {
+  if (!installed) {
+    installed = true
+    process.on('SIGINT', shutdown)
+    process.on('SIGTERM', shutdown)
+  }
+  handlers.add(handler)
+  return () => handlers.delete(handler)
+}
@@ -0,0 +1,27 @@
+export interface Interval {
+  lower: number
+  upper: number
+}
+
+/**
+ * Wilson score interval of a proportion, 95% by default. Unlike the normal approximation it
+ * stays within [0, 1] and is meaningful for few trials and rates close to 0 or 1.
+ */
+export function wilsonInterval(successes: number, trials: number, z = 1.96): Interval {
+  if (trials === 0)
+    return { lower: 0, upper: 1 }
+  const p = successes / trials
+  const z2 = z * z
+  const denominator = 1 + z2 / trials
+  const center = (p + z2 / (2 * trials)) / denominator
+  const margin = z * Math.sqrt(p * (1 - p) / trials + z2 / (4 * trials * trials)) / denominator
+  return { lower: Math.max(0, center - margin), upper: Math.min(1, center + margin) }
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0)
+    return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
@@ -0,0 +1,98 @@
+export interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+  /** Text and CDATA content directly inside the element */
+  text: string
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: '\'' }
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== '#')
+      return ENTITIES[code] ?? entity
+    return String.fromCodePoint(code[1] === 'x' || code[1] === 'X' ? Number.parseInt(code.slice(2), 16) : Number(code.slice(1)))
+  })
+}
+
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+/**
+ * A small non-validating XML parser, enough for machine generated reports: elements,
+ * attributes, text, CDATA and entities. Comments, processing instructions and doctypes are
+ * skipped.
+ */
+export function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' }
+  const stack = [root]
+  let i = 0
+
+  const indexOf = (token: string, from: number): number => {
+    const index = xml.indexOf(token, from)
+    if (index === -1)
+      throw new Error(`Expected '${token}' after offset ${from}`)
+    return index
+  }
+
+  // Attribute values may contain an unescaped '>'
+  const tagEnd = (from: number): number => {
+    let quote = ''
+    for (let j = from; j < xml.length; j++) {
+      const char = xml[j]
+      if (quote)
+        quote = char === quote ? '' : quote
+      else if (char === '"' || char === '\'')
+        quote = char
+      else if (char === '>')
+        return j
+    }
+    throw new Error(`Unterminated tag at offset ${from}`)
+  }
+
+  while (i < xml.length) {
+    const start = xml.indexOf('<', i)
+    if (start === -1)
+      break
+    if (start > i)
+      stack.at(-1)!.text += decodeEntities(xml.slice(i, start))
+
+    if (xml.startsWith('<!--', start)) {
+      i = indexOf('-->', start) + 3
+    }
+    else if (xml.startsWith('<![CDATA[', start)) {
+      const end = indexOf(']]>', start)
+      stack.at(-1)!.text += xml.slice(start + 9, end)
+      i = end + 3
+    }
+    else if (xml[start + 1] === '?' || xml[start + 1] === '!') {
+      i = indexOf('>', start) + 1
+    }
+    else {
+      const end = tagEnd(start)
+      const tag = xml.slice(start + 1, end)
+      i = end + 1
+
+      if (tag[0] === '/') {
+        const name = tag.slice(1).trim()
+        if (stack.length === 1 || stack.at(-1)!.name !== name)
+          throw new Error(`Unexpected closing tag </${name}> at offset ${start}`)
+        stack.pop()
+        continue
+      }
+
+      const selfClosing = tag.endsWith('/')
+      const [name] = tag.match(/^[^\s/]+/) ?? ['']
+      const element: XmlElement = { name, attributes: {}, children: [], text: '' }
+      for (const [, key, double, single] of tag.slice(name.length).matchAll(ATTRIBUTE))
+        element.attributes[key] = decodeEntities(double ?? single)
+      stack.at(-1)!.children.push(element)
+      if (!selfClosing)
+        stack.push(element)
+    }
+  }
+
+  if (stack.length > 1)
+    throw new Error(`Unclosed element <${stack.at(-1)!.name}>`)
+  return root
+}
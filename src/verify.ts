@@ -0,0 +1,160 @@
+import type { ReproductionOutput } from './agents/reproducer'
+import type { RepeatedRunStats } from './types'
+import type { OutputFormat } from './utils/records'
+import { createHash } from 'node:crypto'
+import { forgeOf } from './forges'
+import { getLogger } from './logger'
+import { createDockerFunctions, describeConstraints } from './tools/docker'
+import { createResultWriter } from './utils/checkpoint'
+import { extractLogExcerpt } from './utils/logs'
+import { readRecords } from './utils/records'
+import { mapConcurrent } from './utils/scheduler'
+import { onShutdown } from './utils/shutdown'
+
+export type VerificationStatus = 'verified' | 'unverified' | 'not-reproducible'
+
+export interface Verification {
+  /**
+   * `verified` when the replayed failing step both passed and failed, `not-reproducible` when it
+   * always passed, and `unverified` when the reproduction couldn't be replayed or always failed
+   */
+  status: VerificationStatus
+  /** Observations the status is based on, in the order they were made */
+  evidence: string[]
+  /** Measurement of the repeatedly run failing step */
+  statistics?: RepeatedRunStats
+  verifiedAt: string
+}
+
+export interface VerifyOptions {
+  /** Runs of the failing step */
+  runs?: number
+}
+
+const DEFAULT_VERIFY_RUNS = 20
+
+const percent = (value: number) => `${(100 * value).toFixed(1)}%`
+
+// The step the reproduction was measured with, otherwise the last one
+function failingStep(steps: string[], statistics?: RepeatedRunStats): number {
+  const measured = statistics ? steps.lastIndexOf(statistics.command) : -1
+  return measured === -1 ? steps.length - 1 : measured
+}
+
+/**
+ * Replays a reported reproduction without the LLM: builds its Dockerfile from scratch, runs the
+ * steps before the failing one once in a fresh container and then the failing step repeatedly
+ */
+export async function verifyReproduction({ issue, reproductionResult: result }: ReproductionOutput, options: VerifyOptions = {}): Promise<Verification> {
+  const logger = getLogger()
+  const { runs = DEFAULT_VERIFY_RUNS } = options
+  const evidence: string[] = []
+  const conclude = (status: VerificationStatus, statistics?: RepeatedRunStats): Verification => {
+    logger.info(`${status === 'verified' ? '✅' : '❌'} ${issue.title}: ${status}, ${evidence.at(-1)}`)
+    return { status, evidence, statistics, verifiedAt: new Date().toISOString() }
+  }
+
+  if (!result?.dockerFile || !result.reproductionSteps?.length) {
+    evidence.push('The report has no Dockerfile or reproduction steps to replay')
+    return conclude('unverified')
+  }
+  const steps = result.reproductionSteps
+  const { buildImage, createContainer, runCommand, runRepeated, cleanup } = createDockerFunctions(issue.repo, forgeOf(issue))
+  const disposeShutdown = onShutdown(cleanup)
+
+  try {
+    // Named after the issue, so verifying it again replaces the image instead of adding one
+    const imageName = `flaki-verify-${createHash('sha256').update(issue.url).digest('hex').slice(0, 12)}`
+    logger.info(`🔨 Building ${imageName} for ${issue.url}`)
+    try {
+      // Without the layers cached by the agent's build, steps that only worked back then fail now
+      await buildImage.implementation({ dockerfile: result.dockerFile, imageName, nocache: true })
+    }
+    catch (error) {
+      evidence.push(`The Dockerfile failed to build: ${(error as Error).message}`)
+      return conclude('unverified')
+    }
+    evidence.push('The Dockerfile built from scratch')
+    // The flake may only show under the constraints it was measured with
+    await createContainer.implementation({ imageName, constraints: result.constraints })
+    if (result.constraints)
+      evidence.push(`The container ran with ${describeConstraints(result.constraints)}`)
+
+    const failing = failingStep(steps, result.statistics)
+    for (const [i, step] of steps.slice(0, failing).entries()) {
+      logger.debug(`Running step ${i + 1}/${steps.length}: ${step}`)
+      const { output, exitCode } = await runCommand(step)
+      if (exitCode !== 0) {
+        evidence.push(`Step ${i + 1} (${step}) exited with code ${exitCode}:\n${extractLogExcerpt(output, 20)}`)
+        return conclude('unverified')
+      }
+    }
+    if (failing > 0)
+      evidence.push(`Steps 1 to ${failing} succeeded`)
+
+    logger.info(`🔁 Running step ${failing + 1} ${runs} times: ${steps[failing]}`)
+    const statistics = await runRepeated.implementation({ command: steps[failing], runs })
+    const observed = `step ${failing + 1} (${steps[failing]}) failed in ${statistics.failed} of ${statistics.runs} runs`
+    if (statistics.failed === 0) {
+      evidence.push(observed)
+      return conclude('not-reproducible', statistics)
+    }
+    if (statistics.passed === 0) {
+      evidence.push(`${observed}, so it fails consistently rather than flakily`)
+      return conclude('unverified', statistics)
+    }
+    const { lower, upper } = statistics.confidenceInterval
+    evidence.push(`${observed}, a flake rate of ${percent(statistics.flakeRate)} (95% CI ${percent(lower)} to ${percent(upper)})`)
+    return conclude('verified', statistics)
+  }
+  catch (error) {
+    // A replay that breaks down leaves the reproduction unverified rather than losing it
+    evidence.push(`Replaying the reproduction failed: ${(error as Error).message}`)
+    return conclude('unverified')
+  }
+  finally {
+    disposeShutdown()
+    await cleanup()
+  }
+}
+
+// ---- CLI integration ----
+export interface VerifyAgentOptions extends VerifyOptions {
+  format?: OutputFormat
+  /** Number of reproductions verified in parallel */
+  concurrency?: number
+}
+
+export async function runVerify(inputFile: string, outputFile?: string, options: VerifyAgentOptions = {}): Promise<void> {
+  const logger = getLogger()
+  const writer = createResultWriter<ReproductionOutput>({ outputFile, keyOf: r => r.issue.url, format: options.format })
+  const disposeShutdown = onShutdown(() => writer.close())
+
+  async function* reproductions(): AsyncGenerator<ReproductionOutput> {
+    for await (const output of readRecords<ReproductionOutput>(inputFile)) {
+      writer.reserve(output.issue.url)
+      yield output
+    }
+  }
+
+  try {
+    const verified = mapConcurrent(reproductions(), options.concurrency ?? 1, async (output, i) => {
+      logger.info(`\n🔍 Verifying reproduction ${i + 1}: ${output.issue.title}`)
+      return { ...output, verification: await verifyReproduction(output, options) }
+    })
+    for await (const output of verified)
+      writer.write(output)
+  }
+  finally {
+    disposeShutdown()
+    writer.close()
+  }
+
+  const counts = new Map<VerificationStatus, number>()
+  for (const { verification } of writer.results)
+    counts.set(verification!.status, (counts.get(verification!.status) ?? 0) + 1)
+  logger.info(`\n📊 Verified ${writer.results.length} reproductions: ${[...counts].map(([status, count]) => `${count} ${status}`).join(', ') || 'none'}`)
+  if (outputFile) {
+    logger.info(`✅ Verification results saved to ${outputFile}`)
+  }
+}
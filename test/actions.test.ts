@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { octokit } from '../src/clients'
+import { fetchFlakyWorkflowJobs } from '../src/sources/actions'
+
+vi.mock('../src/clients', () => ({
+  octokit: {
+    rest: {
+      repos: { get: vi.fn() },
+      actions: {
+        listWorkflowRunsForRepo: vi.fn(),
+        getWorkflowRunAttempt: vi.fn(),
+        listJobsForWorkflowRunAttempt: vi.fn(),
+        downloadJobLogsForWorkflowRun: vi.fn(),
+      },
+    },
+  },
+}))
+
+function run(id: number, conclusion: string, extra: Record<string, unknown> = {}) {
+  return {
+    id,
+    name: 'CI',
+    workflow_id: 1,
+    head_sha: `sha${id}0000000`,
+    run_attempt: 1,
+    status: 'completed',
+    conclusion,
+    created_at: '2025-01-01T00:00:00Z',
+    html_url: `https://github.com/owner/repo/actions/runs/${id}`,
+    ...extra,
+  }
+}
+
+function job(id: number, name: string, conclusion: string) {
+  return { id, name, conclusion, html_url: `https://github.com/owner/repo/actions/runs/1/job/${id}` }
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const results: T[] = []
+  for await (const item of items)
+    results.push(item)
+  return results
+}
+
+describe('actions source', () => {
+  const actions = vi.mocked(octokit.rest.actions)
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(octokit.rest.repos.get).mockResolvedValue({ data: { stargazers_count: 42 } } as any)
+  })
+
+  it('should report jobs that failed and passed on a rerun', async () => {
+    actions.listWorkflowRunsForRepo.mockResolvedValue({
+      data: { workflow_runs: [run(1, 'success', { run_attempt: 2 }), run(2, 'failure')] },
+    } as any)
+    actions.getWorkflowRunAttempt.mockResolvedValue({ data: { conclusion: 'failure' } } as any)
+    actions.listJobsForWorkflowRunAttempt.mockImplementation((async ({ attempt_number }: { attempt_number: number }) => ({
+      data: {
+        jobs: attempt_number === 1
+          ? [job(10, 'test', 'failure'), job(11, 'lint', 'failure')]
+          : [job(20, 'test', 'success')],
+      },
+    })) as any)
+    actions.downloadJobLogsForWorkflowRun.mockResolvedValue({ data: '--- FAIL: TestRace (0.01s)\nFAIL\n' } as any)
+
+    const results = await collect(fetchFlakyWorkflowJobs('owner/repo', { cutoff: '2025-01-01', maxRuns: 10 }))
+
+    expect(actions.getWorkflowRunAttempt).toHaveBeenCalledWith({ owner: 'owner', repo: 'repo', run_id: 1, attempt_number: 1 })
+    expect(results).toEqual([expect.objectContaining({
+      url: 'https://github.com/owner/repo/actions/runs/1/job/10',
+      repo: 'owner/repo',
+      stars: 42,
+      source: 'actions',
+      commit: 'sha10000000',
+      failingTests: ['TestRace'],
+      passedRunUrl: 'https://github.com/owner/repo/actions/runs/1/attempts/2',
+    })])
+    expect(results[0].title).toContain('failed and passed on commit sha1000')
+  })
+
+  it('should pair separate runs of a workflow on the same commit', async () => {
+    actions.listWorkflowRunsForRepo.mockResolvedValue({
+      data: { workflow_runs: [run(1, 'failure', { head_sha: 'abc' }), run(2, 'success', { head_sha: 'abc' }), run(3, 'failure')] },
+    } as any)
+    actions.listJobsForWorkflowRunAttempt.mockImplementation((async ({ run_id }: { run_id: number }) => ({
+      data: { jobs: [job(run_id * 10, 'test', run_id === 2 ? 'success' : 'failure')] },
+    })) as any)
+    actions.downloadJobLogsForWorkflowRun.mockRejectedValue(new Error('Gone'))
+
+    const results = await collect(fetchFlakyWorkflowJobs('owner/repo', { cutoff: '2025-01-01', maxRuns: 10 }))
+
+    expect(actions.getWorkflowRunAttempt).not.toHaveBeenCalled()
+    expect(results).toHaveLength(1)
+    expect(results[0]).toMatchObject({ commit: 'abc', failingTests: [], logExcerpt: undefined, passedRunUrl: 'https://github.com/owner/repo/actions/runs/2/attempts/1' })
+  })
+
+  it('should stop listing runs at the limit', async () => {
+    actions.listWorkflowRunsForRepo.mockResolvedValue({ data: { workflow_runs: [run(1, 'failure'), run(2, 'failure')] } } as any)
+
+    const results = await collect(fetchFlakyWorkflowJobs('owner/repo', { cutoff: '2025-01-01', maxRuns: 2 }))
+
+    expect(results).toEqual([])
+    expect(actions.listWorkflowRunsForRepo).toHaveBeenCalledTimes(1)
+    expect(actions.listWorkflowRunsForRepo).toHaveBeenCalledWith(expect.objectContaining({ per_page: 2, created: '>2025-01-01' }))
+    expect(octokit.rest.repos.get).not.toHaveBeenCalled()
+  })
+})
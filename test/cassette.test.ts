@@ -0,0 +1,159 @@
+import type { ChatResponse, LlmProvider } from '../src/llm'
+import type { FindResult } from '../src/types'
+import { Buffer } from 'node:buffer'
+import { mkdtempSync, readFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { filterFlakyTestIssues } from '../src/agents/filterer'
+import { octokit } from '../src/clients'
+import { createCassette, withCassetteProvider } from '../src/utils/cassette'
+
+vi.mock('../src/clients', () => ({
+  octokit: {
+    graphql: vi.fn(),
+    paginate: vi.fn(),
+    rest: {
+      issues: {
+        get: vi.fn(),
+        listComments: vi.fn(),
+      },
+      repos: {
+        getContent: vi.fn(),
+      },
+    },
+  },
+}))
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of iterable)
+    items.push(item)
+  return items
+}
+
+function scriptedProvider(responses: ChatResponse[]): LlmProvider {
+  const chat = vi.fn(async () => {
+    const response = responses.shift()
+    if (!response)
+      throw new Error('No more scripted responses')
+    return response
+  })
+  return { name: 'gemini', model: 'test-model', chat }
+}
+
+const issue: FindResult = {
+  title: 'Test "handles reconnect" is flaky',
+  url: 'https://github.com/test-owner/test-repo/issues/1',
+  repo: 'test-owner/test-repo',
+  stars: 42,
+  comments: 0,
+  reactions: 0,
+  created: '2025-01-01',
+}
+
+describe('cassette', () => {
+  let file: string
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    file = join(mkdtempSync(join(tmpdir(), 'flaki-cassette-')), 'cassette.json')
+  })
+
+  it('should replay recorded chat responses', async () => {
+    const response: ChatResponse = { text: 'hello', toolCalls: [] }
+    const provider = scriptedProvider([response])
+    const request = { messages: [{ role: 'user' as const, text: 'hi' }], tools: [] }
+
+    const recorder = createCassette({ mode: 'record', file })
+    recorder.setProvider(provider)
+    expect(await withCassetteProvider(provider, recorder.session('a')).chat(request)).toEqual(response)
+    recorder.save()
+
+    const player = createCassette({ mode: 'replay', file })
+    const replayProvider = player.replayProvider()
+    expect(replayProvider.model).toBe('test-model')
+    expect(await withCassetteProvider(replayProvider, player.session('a')).chat(request)).toEqual(response)
+    expect(provider.chat).toHaveBeenCalledTimes(1)
+  })
+
+  it('should replay recorded errors', async () => {
+    const recorder = createCassette({ mode: 'record', file })
+    await expect(recorder.session('a').intercept('tool', 'readFile', { path: 'x' }, async () => {
+      throw new Error('File not found: x')
+    })).rejects.toThrow('File not found: x')
+    recorder.save()
+
+    const player = createCassette({ mode: 'replay', file })
+    await expect(player.session('a').intercept('tool', 'readFile', { path: 'x' }, async () => 'unused'))
+      .rejects
+      .toThrow('File not found: x')
+  })
+
+  it('should reject diverging or exhausted sessions', async () => {
+    const recorder = createCassette({ mode: 'record', file })
+    await recorder.session('a').intercept('tool', 'readFile', { path: 'x' }, async () => 'content')
+    recorder.save()
+
+    const player = createCassette({ mode: 'replay', file, strict: true })
+    expect(() => player.session('b')).toThrow('No recorded session for b')
+    await expect(player.session('a').intercept('tool', 'listDir', { path: 'x' }, async () => []))
+      .rejects
+      .toThrow('expected tool \'readFile\' at position 0, got tool \'listDir\'')
+    await expect(player.session('a').intercept('tool', 'readFile', { path: 'y' }, async () => ''))
+      .rejects
+      .toThrow('different tool \'readFile\' input')
+
+    const session = player.session('a')
+    await session.intercept('tool', 'readFile', { path: 'x' }, async () => '')
+    await expect(session.intercept('tool', 'readFile', { path: 'x' }, async () => ''))
+      .rejects
+      .toThrow('is exhausted')
+  })
+
+  it('should replay the filter agent loop offline', async () => {
+    vi.mocked(octokit.rest.issues.get).mockResolvedValue({
+      data: { title: issue.title, html_url: issue.url, comments: 0, body: 'Fails about 1 in 10 CI runs', labels: [], created_at: '2025-01-01T00:00:00Z' },
+    } as any)
+    vi.mocked(octokit.paginate).mockResolvedValue([])
+    vi.mocked(octokit.graphql).mockResolvedValue({ repository: { issueOrPullRequest: null } })
+    vi.mocked(octokit.rest.repos.getContent).mockResolvedValue({
+      data: { type: 'file', content: Buffer.from('{"scripts":{"test":"vitest"}}').toString('base64') },
+    } as any)
+
+    const provider = scriptedProvider([
+      { toolCalls: [{ id: 'call_0', name: 'readFile', args: { path: 'package.json' } }] },
+      {
+        toolCalls: [{
+          id: 'call_1',
+          name: 'analyzeIssue',
+          args: { isFlakyTestIssue: true, confidence: 90, reasoning: 'Intermittent CI failure' },
+        }],
+      },
+    ])
+
+    const recorder = createCassette({ mode: 'record', file })
+    recorder.setProvider(provider)
+    const recorded = await collect(filterFlakyTestIssues([issue], provider, { cassette: recorder }))
+
+    const cassette = JSON.parse(readFileSync(file, 'utf-8'))
+    expect(cassette.sessions[issue.url].map((entry: any) => `${entry.kind}:${entry.name}`)).toEqual([
+      'fixture:fetchDetailedIssue',
+      'chat:gemini',
+      'tool:readFile',
+      'chat:gemini',
+    ])
+
+    vi.clearAllMocks()
+    vi.mocked(octokit.rest.issues.get).mockRejectedValue(new Error('network access during replay'))
+    vi.mocked(octokit.rest.repos.getContent).mockRejectedValue(new Error('network access during replay'))
+
+    const player = createCassette({ mode: 'replay', file, strict: true })
+    const replayed = await collect(filterFlakyTestIssues([issue], player.replayProvider(), { cassette: player }))
+
+    expect(replayed).toEqual(recorded)
+    expect(replayed[0]).toMatchObject({ isFlakyTestIssue: true, confidence: 90 })
+    expect(octokit.rest.issues.get).not.toHaveBeenCalled()
+    expect(octokit.rest.repos.getContent).not.toHaveBeenCalled()
+  }, 10000)
+})
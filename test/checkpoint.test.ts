@@ -0,0 +1,109 @@
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createResultWriter } from '../src/utils/checkpoint'
+
+interface Item {
+  url: string
+  value: number
+}
+
+describe('result writer', () => {
+  let file: string
+
+  beforeEach(() => {
+    file = join(mkdtempSync(join(tmpdir(), 'flaki-checkpoint-')), 'output.json')
+  })
+
+  it('should write every result to disk immediately', () => {
+    const writer = createResultWriter<Item>({ outputFile: file, keyOf: r => r.url })
+    writer.write({ url: 'a', value: 1 })
+    expect(JSON.parse(readFileSync(file, 'utf-8'))).toEqual([{ url: 'a', value: 1 }])
+    writer.write({ url: 'b', value: 2 })
+    expect(JSON.parse(readFileSync(file, 'utf-8'))).toHaveLength(2)
+  })
+
+  it('should resume from an existing output file', () => {
+    writeFileSync(file, JSON.stringify([{ url: 'a', value: 1 }]))
+
+    const writer = createResultWriter<Item>({ outputFile: file, keyOf: r => r.url, resume: true })
+    expect(writer.has('a')).toBe(true)
+    expect(writer.has('b')).toBe(false)
+
+    writer.write({ url: 'b', value: 2 })
+    writer.write({ url: 'a', value: 3 })
+    expect(JSON.parse(readFileSync(file, 'utf-8'))).toEqual([{ url: 'a', value: 3 }, { url: 'b', value: 2 }])
+  })
+
+  it('should start over without resume', () => {
+    writeFileSync(file, JSON.stringify([{ url: 'a', value: 1 }]))
+
+    const writer = createResultWriter<Item>({ outputFile: file, keyOf: r => r.url })
+    expect(writer.has('a')).toBe(false)
+    writer.close()
+    expect(JSON.parse(readFileSync(file, 'utf-8'))).toEqual([])
+  })
+
+  it('should print buffered results to stdout once on close', () => {
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+    const writer = createResultWriter<Item>({ keyOf: r => r.url })
+    writer.write({ url: 'a', value: 1 })
+    expect(write).not.toHaveBeenCalled()
+
+    writer.close()
+    writer.close()
+    expect(write).toHaveBeenCalledTimes(1)
+    expect(JSON.parse(write.mock.calls[0][0] as string)).toEqual([{ url: 'a', value: 1 }])
+    write.mockRestore()
+  })
+
+  it('should append ndjson lines and resume from them', () => {
+    const writer = createResultWriter<Item>({ outputFile: file, keyOf: r => r.url, format: 'ndjson' })
+    writer.write({ url: 'a', value: 1 })
+    writer.write({ url: 'b', value: 2 })
+    expect(readFileSync(file, 'utf-8')).toBe('{"url":"a","value":1}\n{"url":"b","value":2}\n')
+
+    const resumed = createResultWriter<Item>({ outputFile: file, keyOf: r => r.url, resume: true, format: 'ndjson' })
+    expect(resumed.has('b')).toBe(true)
+    resumed.write({ url: 'a', value: 3 })
+    expect(readFileSync(file, 'utf-8')).toBe('{"url":"a","value":3}\n{"url":"b","value":2}\n')
+  })
+
+  it('should put results written out of order back in their places on close', () => {
+    writeFileSync(file, JSON.stringify([{ url: 'z', value: 0 }]))
+    const writer = createResultWriter<Item>({ outputFile: file, keyOf: r => r.url, resume: true })
+    for (const url of ['a', 'b', 'c'])
+      writer.reserve(url)
+    writer.write({ url: 'c', value: 3 })
+    writer.write({ url: 'a', value: 1 })
+    // Finished results are on disk before the slower ones before them
+    expect(JSON.parse(readFileSync(file, 'utf-8')).map((r: Item) => r.url)).toEqual(['z', 'c', 'a'])
+    writer.close()
+    expect(JSON.parse(readFileSync(file, 'utf-8')).map((r: Item) => r.url)).toEqual(['z', 'a', 'c'])
+
+    const ndjson = createResultWriter<Item>({ outputFile: file, keyOf: r => r.url, format: 'ndjson' })
+    ndjson.reserve('a')
+    ndjson.reserve('b')
+    ndjson.write({ url: 'b', value: 2 })
+    ndjson.write({ url: 'a', value: 1 })
+    ndjson.close()
+    expect(readFileSync(file, 'utf-8')).toBe('{"url":"a","value":1}\n{"url":"b","value":2}\n')
+  })
+
+  it('should stream ndjson results to stdout as they are written', () => {
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+    const writer = createResultWriter<Item>({ keyOf: r => r.url, format: 'ndjson' })
+    writer.write({ url: 'a', value: 1 })
+    expect(write).toHaveBeenCalledWith('{"url":"a","value":1}\n')
+
+    writer.close()
+    expect(write).toHaveBeenCalledTimes(1)
+    write.mockRestore()
+  })
+
+  it('should require an output file to resume', () => {
+    expect(() => createResultWriter<Item>({ keyOf: r => r.url, resume: true })).toThrow('Resuming requires an output file')
+    expect(existsSync(file)).toBe(false)
+  })
+})
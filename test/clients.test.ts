@@ -0,0 +1,99 @@
+import { mkdtempSync, readdirSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { createHttpCache, disableHttpCache } from '../src/utils/http-cache'
+
+let octokit: typeof import('../src/clients').octokit
+
+function respond(status: number, headers: Record<string, string> = {}, body: unknown = {}) {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', ...headers } })
+}
+
+function get(fetch: typeof globalThis.fetch) {
+  return octokit.request('GET /repos/{owner}/{repo}', { owner: 'owner', repo: 'repo', request: { fetch } })
+}
+
+describe('github client', () => {
+  beforeAll(async () => {
+    vi.stubEnv('GITHUB_TOKEN', 'test-token')
+    ;({ octokit } = await import('../src/clients'))
+  })
+
+  it('should retry transient errors with backoff', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(respond(502))
+      .mockResolvedValueOnce(respond(200, {}, { full_name: 'owner/repo' }))
+
+    const startedAt = Date.now()
+    expect((await get(fetch)).data).toEqual({ full_name: 'owner/repo' })
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000)
+  })
+
+  it('should wait for secondary rate limits and plain 429s', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(respond(403, { 'retry-after': '1' }, { message: 'You have exceeded a secondary rate limit' }))
+      .mockResolvedValueOnce(respond(429, { 'retry-after': '1' }, { message: 'Too many requests' }))
+      .mockResolvedValueOnce(respond(200))
+
+    await get(fetch)
+    expect(fetch).toHaveBeenCalledTimes(3)
+  }, 10000)
+
+  it('should not retry client errors', async () => {
+    const fetch = vi.fn().mockResolvedValue(respond(404, {}, { message: 'Not Found' }))
+    await expect(get(fetch)).rejects.toMatchObject({ status: 404 })
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  describe('response cache', () => {
+    afterEach(() => {
+      disableHttpCache()
+    })
+
+    it('should serve fresh responses from disk', async () => {
+      const cache = createHttpCache({ dir: mkdtempSync(join(tmpdir(), 'flaki-http-')), ttlMs: 60_000 })
+      const fetch = vi.fn().mockResolvedValue(respond(200, { etag: '"v1"' }, { full_name: 'owner/repo' }))
+
+      await get(fetch)
+      expect((await get(fetch)).data).toEqual({ full_name: 'owner/repo' })
+      expect(fetch).toHaveBeenCalledTimes(1)
+      expect(readdirSync(cache.dir)).toHaveLength(1)
+    })
+
+    it('should revalidate stale responses with their ETag', async () => {
+      createHttpCache({ dir: mkdtempSync(join(tmpdir(), 'flaki-http-')), ttlMs: 0 })
+      const fetch = vi.fn()
+        .mockResolvedValueOnce(respond(200, { etag: '"v1"' }, { full_name: 'owner/repo' }))
+        .mockResolvedValueOnce(new Response(null, { status: 304, headers: { etag: '"v1"' } }))
+
+      await get(fetch)
+      expect((await get(fetch)).data).toEqual({ full_name: 'owner/repo' })
+      expect(fetch).toHaveBeenCalledTimes(2)
+      expect(new Headers(fetch.mock.calls[1][1].headers).get('if-none-match')).toBe('"v1"')
+    })
+
+    it('should cache GraphQL queries by their variables', async () => {
+      createHttpCache({ dir: mkdtempSync(join(tmpdir(), 'flaki-http-')), ttlMs: 60_000 })
+      const fetch = vi.fn().mockImplementation(async () => respond(200, {}, { data: { viewer: { login: 'me' } } }))
+      const query = (first: number) => octokit.graphql('query($first: Int!) { viewer { login } }', { first, request: { fetch } })
+
+      await query(1)
+      expect(await query(1)).toEqual({ viewer: { login: 'me' } })
+      await query(2)
+      expect(fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not cache writes or quota checks', async () => {
+      createHttpCache({ dir: mkdtempSync(join(tmpdir(), 'flaki-http-')), ttlMs: 60_000 })
+      const fetch = vi.fn().mockImplementation(async () => respond(200, {}, { resources: {} }))
+
+      await octokit.request('GET /rate_limit', { request: { fetch } })
+      await octokit.request('GET /rate_limit', { request: { fetch } })
+      await octokit.request('POST /repos/{owner}/{repo}/issues', { owner: 'owner', repo: 'repo', title: 'x', request: { fetch } })
+      await octokit.request('POST /repos/{owner}/{repo}/issues', { owner: 'owner', repo: 'repo', title: 'x', request: { fetch } })
+      expect(fetch).toHaveBeenCalledTimes(4)
+    }, 10000)
+  })
+})
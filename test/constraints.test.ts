@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { confirmReproduction } from '../src/agents/reproducer'
+import { constraintsHostConfig, describeConstraints, stressCommands, summarizeRuns } from '../src/tools/docker'
+import { ContainerConstraintsSchema } from '../src/types'
+
+describe('container constraints', () => {
+  it('should translate constraints into docker host config', () => {
+    expect(constraintsHostConfig({ cpus: 1.5, cpuset: '0-1', memoryMb: 256, pidsLimit: 64, network: false })).toEqual({
+      NanoCpus: 1.5e9,
+      CpusetCpus: '0-1',
+      Memory: 256 * 1024 * 1024,
+      MemorySwap: 256 * 1024 * 1024,
+      PidsLimit: 64,
+      NetworkMode: 'none',
+    })
+    expect(constraintsHostConfig({ network: true })).toEqual({})
+  })
+
+  it('should start one background process per stress worker', () => {
+    const commands = stressCommands({ stress: { cpu: 2, io: 1 } })
+    expect(commands).toHaveLength(3)
+    expect(commands.slice(0, 2)).toEqual(['while :; do :; done', 'while :; do :; done'])
+    expect(commands[2]).toContain('conv=fsync')
+    expect(stressCommands({})).toEqual([])
+  })
+
+  it('should describe constraints and validate cpusets', () => {
+    expect(describeConstraints({ cpus: 1, network: false, stress: { cpu: 2 } })).toBe('1 CPU, no network, 2 CPU stressors')
+    expect(describeConstraints({})).toBe('no constraints')
+    expect(ContainerConstraintsSchema.safeParse({ cpuset: '0-1,3' }).success).toBe(true)
+    expect(ContainerConstraintsSchema.safeParse({ cpuset: 'all' }).success).toBe(false)
+  })
+
+  it('should record the constraints of the measurement backing a reproduction', () => {
+    const runs = [{ output: '', exitCode: 0, durationMs: 10 }, { output: 'Error: timed out', exitCode: 1, durationMs: 20 }]
+    const unconstrained = summarizeRuns('test', runs.slice(0, 1))
+    const starved = { ...summarizeRuns('test', runs), constraints: { cpus: 1 } }
+    expect(confirmReproduction({ status: 'success', reason: 'Only fails on 1 CPU' }, [starved, unconstrained])).toMatchObject({
+      status: 'success',
+      statistics: starved,
+      constraints: { cpus: 1 },
+    })
+  })
+})
@@ -78,7 +78,7 @@ describe('docker tools', () => {
   let nocodeContainerId: string
 
   // Create Docker functions for the nocode repository
-  const { buildImage, createContainer, executeCommand } = createDockerFunctions(nocodeRepo)
+  const { buildImage, createContainer, executeCommand, runRepeated } = createDockerFunctions(nocodeRepo)
 
   afterAll(async () => {
     if (nocodeContainerId) {
@@ -156,7 +156,7 @@ CMD ["echo", "Repository available successfully"]
     })
 
     // The nocode repo should contain a README.md file
-    expect(result).toMatchInlineSnapshot(`
+    expect(result.stdout).toMatchInlineSnapshot(`
         "CONTRIBUTING.md
         Dockerfile
         LICENSE
@@ -171,35 +171,101 @@ CMD ["echo", "Repository available successfully"]
     })
 
     // The nocode README should contain "No Code" or similar content
-    expect(readmeContent.toLowerCase()).toMatch(/no.?code/)
+    expect(readmeContent.stdout.toLowerCase()).toMatch(/no.?code/)
   }, 30000)
 
   it.sequential('should execute multi-line commands in container', async () => {
     const result = await executeCommand.implementation({
       command: 'echo "Line 1" && echo "Line 2" && pwd',
     })
-    expect(result).toContain('Line 1')
-    expect(result).toContain('Line 2')
-    expect(result).toContain('/workspace') // Should be in WORKDIR
+    expect(result.stdout).toContain('Line 1')
+    expect(result.stdout).toContain('Line 2')
+    expect(result.stdout).toContain('/workspace') // Should be in WORKDIR
+  }, 30000)
+
+  it.sequential('should run commands in a given directory with given environment variables', async () => {
+    const result = await executeCommand.implementation({
+      command: 'pwd && echo "$FLAKI_TEST_VAR"',
+      workdir: '/tmp',
+      env: { FLAKI_TEST_VAR: 'set' },
+    })
+    expect(result.stdout).toBe('/tmp\nset\n')
   }, 30000)
 
   it.sequential('should handle command execution errors', async () => {
     const result = await executeCommand.implementation({
       command: 'nonexistent-command',
     })
-    expect(result).toMatchInlineSnapshot(`
+    expect(result).toMatchObject({ exitCode: 127, stdout: '', timedOut: false })
+    expect(result.stderr).toMatchInlineSnapshot(`
         "sh: nonexistent-command: not found
         "
       `)
   }, 30000)
 
+  it.sequential('should keep stdout and stderr apart without corrupting them', async () => {
+    // Many small writes to both streams end up in multiplexed frames split across chunks
+    const result = await executeCommand.implementation({
+      command: 'for i in $(seq 1 500); do echo "out $i"; echo "err $i" >&2; done',
+    })
+    expect(result.stdout).toBe(Array.from({ length: 500 }, (_, i) => `out ${i + 1}\n`).join(''))
+    expect(result.stderr).toBe(Array.from({ length: 500 }, (_, i) => `err ${i + 1}\n`).join(''))
+  }, 30000)
+
   it.sequential('should handle commands that exit with non-zero codes', async () => {
     const result = await executeCommand.implementation({
       command: 'exit 42',
     })
-    expect(result).toMatchInlineSnapshot(`
-        ""
-      `)
+    expect(result).toMatchObject({ exitCode: 42, stdout: '', stderr: '', timedOut: false, truncated: false })
+  }, 30000)
+
+  it.sequential('should kill commands that time out', async () => {
+    const result = await executeCommand.implementation({
+      command: 'echo started; sleep 60 & sleep 60',
+      timeoutSeconds: 1,
+    })
+    expect(result).toMatchObject({ exitCode: null, stdout: 'started\n', timedOut: true })
+    expect(result.durationMs).toBeLessThan(10000)
+    // Neither the command nor the process it started in the background survive
+    await new Promise(resolve => setTimeout(resolve, 500))
+    expect((await executeCommand.implementation({ command: 'ps' })).stdout).not.toContain('sleep 60')
+  }, 30000)
+
+  it.sequential('should keep the beginning and end of long outputs', async () => {
+    const result = await executeCommand.implementation({
+      command: 'echo first; seq 1 100000; echo last',
+    })
+    expect(result.truncated).toBe(true)
+    expect(result.stdout.length).toBeLessThan(25000)
+    expect(result.stdout).toMatch(/^first\n1\n/)
+    expect(result.stdout).toMatch(/characters truncated/)
+    expect(result.stdout).toMatch(/100000\nlast\n$/)
+  }, 30000)
+
+  it.sequential('should measure the flake rate of repeated runs', async () => {
+    // Every other run fails, on a counter kept in the container
+    const result = await runRepeated.implementation({
+      command: 'n=$(cat /tmp/runs 2>/dev/null || echo 0); echo $((n + 1)) > /tmp/runs; [ $((n % 2)) -eq 0 ] || { echo "Error: flaked on run $n"; exit 1; }',
+      runs: 6,
+    })
+    expect(result).toMatchObject({ runs: 6, passed: 3, failed: 3, flakeRate: 0.5 })
+    expect(result.failures).toEqual([{ excerpt: expect.stringContaining('Error: flaked on run'), count: 3, runs: [2, 4, 6] }])
+  }, 30000)
+
+  it.sequential('should replace the container with a constrained one', async () => {
+    const result = await createContainer.implementation({
+      imageName: nocodeImageName,
+      constraints: { cpus: 0.5, memoryMb: 64, pidsLimit: 32, network: false, stress: { cpu: 1 } },
+    })
+    await expect(docker.getContainer(nocodeContainerId).inspect()).rejects.toThrow()
+    nocodeContainerId = result
+
+    const { HostConfig } = await docker.getContainer(result).inspect()
+    expect(HostConfig).toMatchObject({ NanoCpus: 5e8, Memory: 64 * 1024 * 1024, PidsLimit: 32, NetworkMode: 'none' })
+    expect((await executeCommand.implementation({ command: 'ps' })).stdout).toContain('while :; do :; done')
+
+    const stats = await runRepeated.implementation({ command: 'true', runs: 1 })
+    expect(stats.constraints).toEqual({ cpus: 0.5, memoryMb: 64, pidsLimit: 32, network: false, stress: { cpu: 1 } })
   }, 30000)
 
   it.sequential('should fail when no container has been created', async () => {
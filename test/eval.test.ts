@@ -0,0 +1,158 @@
+import type { LlmProvider } from '../src/llm'
+import type { FilteredResult, LabeledIssue } from '../src/types'
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { filterFlakyTestIssues } from '../src/agents/filterer'
+import { octokit } from '../src/clients'
+import { diffEvalReports, evaluate, runEval } from '../src/eval'
+import { createCassette } from '../src/utils/cassette'
+
+vi.mock('../src/clients', () => ({
+  octokit: {
+    graphql: vi.fn(),
+    paginate: vi.fn(),
+    rest: {
+      issues: { get: vi.fn() },
+      repos: { getContent: vi.fn() },
+    },
+  },
+}))
+
+function label(n: number, isFlakyTestIssue: boolean, rootCause?: LabeledIssue['rootCause']): LabeledIssue {
+  return { url: `https://github.com/owner/repo/issues/${n}`, isFlakyTestIssue, rootCause }
+}
+
+function prediction(n: number, isFlakyTestIssue: boolean, confidence: number, cause?: NonNullable<FilteredResult['rootCause']>['category']): FilteredResult {
+  return {
+    title: `Issue ${n}`,
+    url: `https://github.com/owner/repo/issues/${n}`,
+    repo: 'owner/repo',
+    stars: 0,
+    comments: 0,
+    reactions: 0,
+    created: '2025-01-01',
+    isFlakyTestIssue,
+    confidence,
+    reasoning: '',
+    rootCause: cause && { category: cause, quote: '' },
+  }
+}
+
+const labels = [label(1, true, 'concurrency'), label(2, true, 'time'), label(3, true), label(4, false), label(5, false), label(6, true)]
+const predictions = [
+  prediction(1, true, 90, 'concurrency'),
+  prediction(2, true, 60, 'network'),
+  prediction(3, false, 55),
+  prediction(4, true, 70),
+  prediction(5, false, 95),
+]
+
+describe('eval', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should score predictions against the labels', () => {
+    const report = evaluate(labels, predictions)
+    expect(report.missing).toBe(1)
+    expect(report.metrics).toEqual({ tp: 2, fp: 1, fn: 1, tn: 1, precision: 2 / 3, recall: 2 / 3, f1: 2 / 3, accuracy: 3 / 5 })
+    expect(report.items[5]).toEqual({ url: labels[5].url, title: labels[5].url, expected: true, predicted: undefined, confidence: undefined, expectedCause: undefined, predictedCause: undefined, needsReview: undefined })
+    expect(report.causes).toEqual({ labeled: 2, accuracy: 0.5, matrix: { concurrency: { concurrency: 1 }, time: { network: 1 } } })
+  })
+
+  it('should trace precision and recall across confidence thresholds', () => {
+    const { thresholds } = evaluate(labels, predictions)
+    // Flaky scores are 90, 60, 45, 70 and 5
+    expect(thresholds.find(point => point.threshold === 0)).toMatchObject({ precision: 3 / 5, recall: 1 })
+    expect(thresholds.find(point => point.threshold === 50)).toMatchObject({ precision: 2 / 3, recall: 2 / 3 })
+    expect(thresholds.find(point => point.threshold === 80)).toMatchObject({ precision: 1, recall: 1 / 3 })
+    expect(thresholds.find(point => point.threshold === 100)).toMatchObject({ precision: 0, recall: 0, f1: 0 })
+  })
+
+  it('should list the items whose predictions changed between two reports', () => {
+    const before = evaluate(labels, predictions)
+    const after = evaluate(labels.slice(1), [prediction(2, true, 80, 'time'), prediction(3, true, 60), ...predictions.slice(3)])
+    expect(diffEvalReports(before, after).map(diff => [diff.url.slice(-1), diff.before?.predicted, diff.after?.predicted])).toEqual([
+      ['2', true, true],
+      ['3', false, true],
+      ['1', true, undefined],
+    ])
+  })
+
+  it('should evaluate and compare saved filter results', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'flaki-eval-'))
+    writeFileSync(join(dir, 'dataset.ndjson'), labels.map(label => JSON.stringify(label)).join('\n'))
+    writeFileSync(join(dir, 'before.json'), JSON.stringify(predictions))
+    writeFileSync(join(dir, 'after.json'), JSON.stringify([...predictions, prediction(6, true, 80)]))
+
+    await runEval({ datasetFile: join(dir, 'dataset.ndjson'), predictionsFile: join(dir, 'before.json'), outputFile: join(dir, 'before-report.json') })
+    const report = await runEval({
+      datasetFile: join(dir, 'dataset.ndjson'),
+      predictionsFile: join(dir, 'after.json'),
+      compareFile: join(dir, 'before-report.json'),
+      outputFile: join(dir, 'after-report.json'),
+    })
+    expect(report.metrics).toMatchObject({ tp: 3, fn: 1 })
+    expect(JSON.parse(readFileSync(join(dir, 'after-report.json'), 'utf-8'))).toEqual(report)
+
+    await expect(runEval({ datasetFile: join(dir, 'dataset.ndjson'), predictionsFile: join(dir, 'after.json'), compareFile: join(dir, 'before.json') }))
+      .rejects
+      .toThrow(`${join(dir, 'before.json')} is not an evaluation report`)
+
+    writeFileSync(join(dir, 'invalid.json'), JSON.stringify([{ url: labels[0].url, isFlakyTestIssue: 'yes' }]))
+    await expect(runEval({ datasetFile: join(dir, 'invalid.json'), predictionsFile: join(dir, 'after.json') })).rejects.toThrow('Invalid labeled issue 1')
+  })
+
+  it('should analyze saved issue data once it was fetched', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'flaki-eval-'))
+    const dataset = join(dir, 'dataset.json')
+    const fixturesFile = join(dir, 'fixtures.json')
+    writeFileSync(dataset, JSON.stringify([label(1, true)]))
+    vi.mocked(octokit.rest.issues.get).mockResolvedValue({
+      data: { title: 'Flaky test: reconnect', html_url: labels[0].url, comments: 0, body: 'The test fails sometimes in CI', labels: [], created_at: '2025-01-01T00:00:00Z' },
+    } as any)
+    vi.mocked(octokit.paginate).mockResolvedValue([])
+    vi.mocked(octokit.graphql).mockResolvedValue({ repository: { issueOrPullRequest: null } })
+
+    const fetched = await runEval({ datasetFile: dataset, fixturesFile, heuristics: { only: true } })
+    expect(JSON.parse(readFileSync(fixturesFile, 'utf-8'))[labels[0].url]).toMatchObject({ title: 'Flaky test: reconnect' })
+
+    vi.mocked(octokit.rest.issues.get).mockClear().mockRejectedValue(new Error('network access with fixtures'))
+    const replayed = await runEval({ datasetFile: dataset, fixturesFile, heuristics: { only: true } })
+    expect(replayed.items).toEqual(fetched.items)
+    expect(replayed.items[0].predicted).toBe(true)
+    expect(octokit.rest.issues.get).not.toHaveBeenCalled()
+  })
+
+  it('should run the filter reproducibly from a recorded cassette', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'flaki-eval-')), 'cassette.json')
+    const dataset = join(file, '..', 'dataset.json')
+    writeFileSync(dataset, JSON.stringify([label(1, true, 'concurrency')]))
+
+    vi.mocked(octokit.rest.issues.get).mockResolvedValue({
+      data: { title: 'Flaky test: reconnect', html_url: labels[0].url, comments: 0, body: 'The test fails sometimes in CI', labels: [], created_at: '2025-01-01T00:00:00Z' },
+    } as any)
+    vi.mocked(octokit.paginate).mockResolvedValue([])
+    vi.mocked(octokit.graphql).mockResolvedValue({ repository: { issueOrPullRequest: null } })
+    const provider: LlmProvider = {
+      name: 'gemini',
+      model: 'test-model',
+      chat: vi.fn(async () => ({
+        toolCalls: [{ id: 'call_0', name: 'analyzeIssue', args: { isFlakyTestIssue: true, confidence: 80, reasoning: 'Race', rootCause: { category: 'concurrency', quote: 'fails sometimes' } } }],
+      })),
+    }
+    // Recorded with the find result the dataset entry stands for
+    const recorder = createCassette({ mode: 'record', file })
+    recorder.setProvider(provider)
+    const result = { title: labels[0].url, url: labels[0].url, repo: 'owner/repo', stars: 0, comments: 0, reactions: 0, created: '' }
+    for await (const _ of filterFlakyTestIssues([result], provider, { cassette: recorder }));
+
+    vi.mocked(octokit.rest.issues.get).mockClear().mockRejectedValue(new Error('network access during replay'))
+    const report = await runEval({ datasetFile: dataset, cassette: { mode: 'replay', file, strict: true } })
+    expect(report.items[0]).toMatchObject({ predicted: true, confidence: 80, predictedCause: 'concurrency' })
+    expect(report.metrics).toMatchObject({ tp: 1, precision: 1, recall: 1 })
+    expect(octokit.rest.issues.get).not.toHaveBeenCalled()
+  }, 10000)
+})
@@ -0,0 +1,84 @@
+import type { LlmProvider } from '../src/llm'
+import type { FilteredResult, FindResult } from '../src/types'
+import { describe, expect, it, vi } from 'vitest'
+import { filterFlakyTestIssues } from '../src/agents/filterer'
+import { octokit } from '../src/clients'
+
+vi.mock('../src/clients', () => ({
+  octokit: {
+    rest: {
+      repos: { getContent: vi.fn() },
+    },
+  },
+}))
+
+const reported: FindResult = {
+  title: 'auth > refreshes tokens',
+  url: 'https://github.com/owner/repo/blob/HEAD/test/auth.test.ts#auth',
+  repo: 'owner/repo',
+  stars: 0,
+  comments: 0,
+  reactions: 0,
+  created: '2025-01-01',
+  source: 'reports',
+  testId: 'auth > refreshes tokens',
+  testStats: { runs: 10, failures: 2, flakeRate: 0.2 },
+}
+
+function analyzing(args: Record<string, unknown>): LlmProvider {
+  return {
+    name: 'gemini',
+    model: 'test-model',
+    chat: vi.fn(async () => ({
+      toolCalls: [{ id: 'call_0', name: 'analyzeIssue', args: { isFlakyTestIssue: true, confidence: 90, reasoning: 'Races on token expiry', ...args } }],
+    })),
+  }
+}
+
+async function filter(provider: LlmProvider): Promise<FilteredResult> {
+  const results = []
+  for await (const result of filterFlakyTestIssues([reported], provider))
+    results.push(result)
+  return results[0]
+}
+
+describe('filter test identification', () => {
+  it('should keep only identified paths, links and commits that check out', async () => {
+    vi.mocked(octokit.rest.repos.getContent).mockImplementation(async ({ path }: any) => {
+      if (path === 'test')
+        return { data: [{ name: 'auth.test.ts' }, { name: 'helpers.ts' }] } as any
+      throw Object.assign(new Error('Not Found'), { status: 404 })
+    })
+
+    const result = await filter(analyzing({
+      environment: { language: 'TypeScript', framework: 'vitest', ci: 'GitHub Actions' },
+      tests: [
+        { name: 'auth > refreshes tokens', file: './test/auth.test.ts' },
+        { name: 'auth > logs out', file: 'test/missing.test.ts' },
+      ],
+      testFiles: ['test/helpers.ts', 'spec/made-up.ts'],
+      errorSignature: 'AssertionError: expected 401 to be 200',
+      failingRuns: ['https://github.com/owner/repo/actions/runs/1', 'run 2'],
+      suspectedCommit: 'HEAD~1',
+    }))
+
+    expect(result.environment).toEqual({ language: 'TypeScript', framework: 'vitest', ci: 'GitHub Actions' })
+    expect(result.identification).toEqual({
+      tests: [
+        { name: 'auth > refreshes tokens', file: 'test/auth.test.ts' },
+        { name: 'auth > logs out', file: undefined },
+      ],
+      testFiles: ['test/auth.test.ts', 'test/helpers.ts'],
+      errorSignature: 'AssertionError: expected 401 to be 200',
+      failingRuns: ['https://github.com/owner/repo/actions/runs/1'],
+      suspectedCommit: undefined,
+    })
+    // Listings are shared between the paths of a directory
+    expect(octokit.rest.repos.getContent).toHaveBeenCalledTimes(2)
+  })
+
+  it('should leave out the identification when nothing was extracted', async () => {
+    const result = await filter(analyzing({ suspectedCommit: 'not a sha' }))
+    expect(result).not.toHaveProperty('identification', expect.anything())
+  })
+})
@@ -0,0 +1,98 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { octokit } from '../src/clients'
+import { buildSearchQueries, runFindAgent } from '../src/find'
+
+vi.mock('../src/clients', () => ({
+  octokit: {
+    graphql: vi.fn(),
+    rest: { search: { repos: vi.fn() } },
+  },
+}))
+
+function searchPage(urls: string[]) {
+  return {
+    search: {
+      edges: urls.map(url => ({
+        node: {
+          title: `Issue ${url}`,
+          url,
+          createdAt: '2025-01-01T00:00:00Z',
+          comments: { totalCount: 1 },
+          reactions: { totalCount: 2 },
+          repository: { nameWithOwner: url.split('/').slice(3, 5).join('/'), stargazerCount: 42 },
+        },
+      })),
+      pageInfo: { endCursor: null, hasNextPage: false },
+    },
+  }
+}
+
+describe('find', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should build the default search query', () => {
+    expect(buildSearchQueries('repo:owner/repo', '2025-01-01')).toEqual([
+      '("flaky" OR "flakey" OR "intermittent") repo:owner/repo created:>2025-01-01 is:issue is:open',
+    ])
+  })
+
+  it('should combine keywords, labels, exclusions, state and type', () => {
+    const queries = buildSearchQueries('org:acme', '2025-01-01', {
+      keywords: ['flaky', 'race condition'],
+      labels: ['flaky-test', 'test flake'],
+      exclude: ['dependabot'],
+      state: 'all',
+      type: 'pr',
+    })
+    expect(queries).toEqual([
+      '("flaky" OR "race condition") org:acme created:>2025-01-01 is:pr NOT dependabot',
+      'label:flaky-test org:acme created:>2025-01-01 is:pr NOT dependabot',
+      'label:"test flake" org:acme created:>2025-01-01 is:pr NOT dependabot',
+    ])
+  })
+
+  it('should split long keyword lists to respect the operator limit', () => {
+    const queries = buildSearchQueries('repo:owner/repo', '2025-01-01', { preset: 'broad', exclude: ['bot', 'renovate'] })
+    const keywordQueries = queries.filter(query => !query.startsWith('label:'))
+    expect(keywordQueries).toHaveLength(3)
+    for (const query of queries)
+      expect(query.match(/\b(?:OR|NOT)\b/g)!.length).toBeLessThanOrEqual(5)
+    expect(() => buildSearchQueries('org:acme', '2025-01-01', { preset: 'unknown' })).toThrow('Unknown search preset')
+  })
+
+  it('should search repos from a file and organizations without duplicates', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'flaki-find-'))
+    const reposFile = join(dir, 'repos.txt')
+    const outputFile = join(dir, 'find.json')
+    writeFileSync(reposFile, '# repos to search\nowner/one\n\nowner/two  # comment\n')
+    vi.mocked(octokit.graphql)
+      .mockResolvedValueOnce(searchPage(['https://github.com/owner/one/issues/1']))
+      .mockResolvedValueOnce(searchPage([]))
+      .mockResolvedValueOnce(searchPage(['https://github.com/owner/one/issues/1', 'https://github.com/owner/two/pull/2']))
+
+    await runFindAgent({ reposFile, org: 'owner', months: 6, repoPages: 1, repoPerPage: 100, issuePages: 1, issuePerPage: 100, outputFile, type: 'all' })
+
+    const searched = vi.mocked(octokit.graphql).mock.calls.map(([, variables]) => (variables as any).searchQuery as string)
+    expect(searched.map(query => query.split(' created:')[0])).toEqual([
+      '("flaky" OR "flakey" OR "intermittent") repo:owner/one',
+      '("flaky" OR "flakey" OR "intermittent") repo:owner/two',
+      '("flaky" OR "flakey" OR "intermittent") org:owner',
+    ])
+    expect(octokit.rest.search.repos).not.toHaveBeenCalled()
+    expect(JSON.parse(readFileSync(outputFile, 'utf-8'))).toMatchObject([
+      { url: 'https://github.com/owner/one/issues/1', repo: 'owner/one', stars: 42, comments: 1, reactions: 2, created: '2025-01-01' },
+      { url: 'https://github.com/owner/two/pull/2', repo: 'owner/two' },
+    ])
+  })
+
+  it('should require a repository source', async () => {
+    await expect(runFindAgent({ months: 6, repoPages: 1, repoPerPage: 100, issuePages: 1, issuePerPage: 100 }))
+      .rejects
+      .toThrow('One of --repo-query, --repos-file or --org is required')
+  })
+})
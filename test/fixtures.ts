@@ -0,0 +1,17 @@
+import type { DetailedIssue } from '../src/types'
+
+export function issue(title: string, body = '', extra: Partial<DetailedIssue> = {}): DetailedIssue {
+  return {
+    title,
+    url: 'https://github.com/owner/repo/issues/1',
+    repo: 'owner/repo',
+    stars: 1,
+    comments: 0,
+    reactions: 0,
+    created: '2025-01-01',
+    body,
+    commentsList: [],
+    linkedPRs: [],
+    ...extra,
+  }
+}
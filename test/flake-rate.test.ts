@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { confirmReproduction } from '../src/agents/reproducer'
+import { summarizeRuns } from '../src/tools/docker'
+import { median, wilsonInterval } from '../src/utils/stats'
+
+function passing(durationMs: number) {
+  return { output: 'Tests  3 passed (3)\n', exitCode: 0, durationMs }
+}
+
+function timingOut(durationMs: number, id: string) {
+  return {
+    output: `RUN  v3.2.4 /workspace\n × queue > drains ${durationMs}ms\nError: Test timed out in 5000ms (worker ${id})\nTests  1 failed | 2 passed (3)\n`,
+    exitCode: 1,
+    durationMs,
+  }
+}
+
+const crashing = { output: 'Segmentation fault (core dumped)\n', exitCode: 139, durationMs: 40 }
+
+describe('flake rate', () => {
+  it('should compute Wilson score intervals', () => {
+    const half = wilsonInterval(5, 10)
+    expect(half.lower).toBeCloseTo(0.2366, 4)
+    expect(half.upper).toBeCloseTo(0.7634, 4)
+    // Never failing in 10 runs still leaves a failure rate of up to 28% plausible
+    expect(wilsonInterval(0, 10)).toEqual({ lower: 0, upper: expect.closeTo(0.2775, 4) })
+    expect(wilsonInterval(10, 10).upper).toBe(1)
+    expect(wilsonInterval(0, 0)).toEqual({ lower: 0, upper: 1 })
+    expect(median([30, 10, 20, 40])).toBe(25)
+  })
+
+  it('should tally runs and group failures that only differ in run-specific values', () => {
+    const stats = summarizeRuns('npx vitest run queue', [passing(100), timingOut(5012, '0x1f'), passing(120), crashing, timingOut(5034, '0x2a'), passing(90)])
+    expect(stats).toMatchObject({
+      command: 'npx vitest run queue',
+      runs: 6,
+      passed: 3,
+      failed: 3,
+      flakeRate: 0.5,
+      durationsMs: { min: 40, median: 110, max: 5034 },
+    })
+    expect(stats.confidenceInterval.lower).toBeLessThan(0.5)
+    expect(stats.confidenceInterval.upper).toBeGreaterThan(0.5)
+    expect(stats.failures.map(({ count, runs }) => ({ count, runs }))).toEqual([{ count: 2, runs: [2, 5] }, { count: 1, runs: [4] }])
+    expect(stats.failures[0].excerpt).toContain('× queue > drains 5012ms')
+  })
+
+  it('should only confirm reported successes that were measured to be flaky', () => {
+    const success = { status: 'success' as const, reason: 'Fails under load' }
+    const flaky = summarizeRuns('test', [passing(10), timingOut(20, '0x1')])
+    const broken = summarizeRuns('test', [timingOut(20, '0x1'), timingOut(20, '0x2')])
+
+    expect(confirmReproduction(success, [flaky, broken])).toEqual({ ...success, statistics: flaky })
+    expect(confirmReproduction(success, [broken])).toMatchObject({ status: 'failure', reason: expect.stringContaining('Unconfirmed'), statistics: broken })
+    expect(confirmReproduction(success, [])).toMatchObject({ status: 'failure', statistics: undefined })
+    expect(confirmReproduction({ status: 'failure', reason: 'Never failed' }, [])).toEqual({ status: 'failure', reason: 'Never failed', statistics: undefined })
+    expect(confirmReproduction(null, [flaky])).toBeNull()
+  })
+})
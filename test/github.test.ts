@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { octokit } from '../src/clients'
+import { isTestFile } from '../src/forges'
+import { createGitHubForge } from '../src/forges/github'
+
+vi.mock('../src/clients', () => ({
+  octokit: {
+    graphql: vi.fn(),
+    paginate: vi.fn(),
+    rest: {
+      issues: {
+        get: vi.fn(),
+        listComments: vi.fn(),
+      },
+      actions: {
+        getJobForWorkflowRun: vi.fn(),
+        listJobsForWorkflowRun: vi.fn(),
+        downloadJobLogsForWorkflowRun: vi.fn(),
+      },
+    },
+  },
+}))
+
+function pullRequest(number: number, state: 'OPEN' | 'CLOSED' | 'MERGED', files: string[] = []) {
+  return {
+    __typename: 'PullRequest',
+    title: `PR ${number}`,
+    url: `https://github.com/other/fork/pull/${number}`,
+    state,
+    merged: state === 'MERGED',
+    mergeCommit: state === 'MERGED' ? { oid: `sha${number}` } : null,
+    files: { nodes: files.map(path => ({ path })) },
+  }
+}
+
+function timeline(nodes: unknown[], endCursor: string | null = null) {
+  return { repository: { issueOrPullRequest: { timelineItems: { nodes, pageInfo: { endCursor, hasNextPage: endCursor !== null } } } } }
+}
+
+const result = {
+  title: 'Flaky test',
+  url: 'https://github.com/owner/repo/issues/12',
+  repo: 'owner/repo',
+  stars: 10,
+  comments: 150,
+  reactions: 0,
+  created: '2025-01-01',
+}
+
+describe('github forge', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.mocked(octokit.rest.issues.get).mockResolvedValue({
+      data: { title: 'Flaky test', html_url: result.url, comments: 150, body: 'Fails in #3, see 1. and #4', labels: ['flaky', { name: 'ci' }], created_at: '2025-01-01T00:00:00Z' },
+    } as any)
+  })
+
+  it('should fetch every comment and the pull requests on the timeline', async () => {
+    const comments = Array.from({ length: 150 }, (_, i) => ({ body: `comment ${i}`, user: { login: 'dev' }, created_at: '2025-01-02' }))
+    vi.mocked(octokit.paginate).mockResolvedValue(comments)
+    vi.mocked(octokit.graphql)
+      .mockResolvedValueOnce(timeline([
+        { __typename: 'CrossReferencedEvent', willCloseTarget: false, source: pullRequest(7, 'OPEN', ['docs/flaky.md']) },
+        { __typename: 'CrossReferencedEvent', willCloseTarget: false, source: { __typename: 'Issue' } },
+        { __typename: 'ConnectedEvent', subject: pullRequest(8, 'MERGED', ['src/a.ts', 'src/a.test.ts', 'tests/test_a.py']) },
+      ], 'cursor'))
+      .mockResolvedValueOnce(timeline([
+        { __typename: 'CrossReferencedEvent', willCloseTarget: true, source: pullRequest(7, 'OPEN') },
+        { __typename: 'ClosedEvent', closer: { __typename: 'Commit' } },
+        { __typename: 'ClosedEvent', closer: null },
+      ]))
+
+    const issue = await createGitHubForge().fetchIssue(result)
+
+    expect(octokit.paginate).toHaveBeenCalledWith(octokit.rest.issues.listComments, { owner: 'owner', repo: 'repo', issue_number: 12, per_page: 100 })
+    expect(issue.commentsList).toHaveLength(150)
+    expect(issue.labels).toEqual(['flaky', 'ci'])
+    expect(vi.mocked(octokit.graphql).mock.calls[1][1]).toMatchObject({ owner: 'owner', repo: 'repo', number: 12, after: 'cursor' })
+    expect(issue.linkedPRs).toEqual([
+      { title: 'PR 7', url: 'https://github.com/other/fork/pull/7', merged: false, state: 'open', closes: true, mergeCommit: undefined, changedTestFiles: [] },
+      { title: 'PR 8', url: 'https://github.com/other/fork/pull/8', merged: true, state: 'merged', closes: true, mergeCommit: 'sha8', changedTestFiles: ['src/a.test.ts', 'tests/test_a.py'] },
+    ])
+  })
+
+  it('should download the logs of a linked job or the failed jobs of a linked run', async () => {
+    const job = (id: number, conclusion: string) => ({ id, name: `job ${id}`, html_url: `https://github.com/owner/repo/actions/runs/1/job/${id}`, conclusion })
+    vi.mocked(octokit.rest.actions.getJobForWorkflowRun).mockResolvedValue({ data: job(5, 'failure') } as any)
+    vi.mocked(octokit.rest.actions.listJobsForWorkflowRun).mockResolvedValue({ data: { jobs: [job(6, 'success'), job(7, 'failure')] } } as any)
+    vi.mocked(octokit.rest.actions.downloadJobLogsForWorkflowRun).mockImplementation(async ({ job_id }: any) => ({ data: `log of ${job_id}` }) as any)
+    const forge = createGitHubForge()
+
+    expect(await forge.fetchCiLogs!('https://github.com/owner/repo/actions/runs/1/job/5')).toEqual([
+      { name: 'job 5', url: 'https://github.com/owner/repo/actions/runs/1/job/5', conclusion: 'failure', log: 'log of 5' },
+    ])
+    expect((await forge.fetchCiLogs!('https://github.com/owner/repo/actions/runs/1')).map(log => log.log)).toEqual(['log of 7'])
+    expect(octokit.rest.actions.listJobsForWorkflowRun).toHaveBeenCalledWith(expect.objectContaining({ owner: 'owner', repo: 'repo', run_id: 1, filter: 'latest' }))
+    await expect(forge.fetchCiLogs!('https://github.com/owner/repo/issues/1')).rejects.toThrow('Not a GitHub Actions run or job URL')
+  })
+
+  it('should require the API URL of a self-hosted instance', () => {
+    vi.stubEnv('GITHUB_API_URL', '')
+    expect(() => createGitHubForge('https://ghe.example.com')).toThrow('GITHUB_API_URL must be set to the API of https://ghe.example.com, e.g. https://ghe.example.com/api/v3')
+    vi.stubEnv('GITHUB_API_URL', 'https://ghe.example.com/api/v3')
+    expect(createGitHubForge('https://ghe.example.com').type).toBe('github')
+    vi.unstubAllEnvs()
+  })
+
+  it('should recognize test files of common test runners', () => {
+    for (const path of ['src/a.test.ts', 'lib/a.spec.js', 'pkg/a_test.go', 'test_a.py', 'app/tests/helpers.rb', 'src/FooTest.java', '__tests__/a.js'])
+      expect(isTestFile(path), path).toBe(true)
+    for (const path of ['src/a.ts', 'src/latest.ts', 'testing/a.go', 'docs/test.md'])
+      expect(isTestFile(path), path).toBe(false)
+  })
+})
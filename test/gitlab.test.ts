@@ -0,0 +1,201 @@
+import type { AddressInfo } from 'node:net'
+import type { Forge } from '../src/forges'
+import { mkdtempSync, readFileSync } from 'node:fs'
+import { createServer } from 'node:http'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { runFindAgent } from '../src/find'
+import { forgeOf } from '../src/forges'
+import { createGitLabForge } from '../src/forges/gitlab'
+import { createExploreFunctions } from '../src/tools/explore'
+
+vi.mock('../src/clients', () => {
+  throw new Error('GitLab must not use the GitHub client')
+})
+
+let baseUrl = ''
+const requests: URL[] = []
+let failures = 0
+
+const project = { id: 7, path_with_namespace: 'acme/tools/app', star_count: 12, default_branch: 'main' }
+
+function issue(iid: number, title: string, description = '') {
+  return {
+    iid,
+    project_id: 7,
+    title,
+    description,
+    web_url: `${baseUrl}/acme/tools/app/-/issues/${iid}`,
+    created_at: '2025-01-02T03:04:05Z',
+    user_notes_count: 2,
+    upvotes: 3,
+    downvotes: 1,
+  }
+}
+
+function mergeRequest(iid: number, title: string, state: string) {
+  return { iid, project_id: 7, title, web_url: `${baseUrl}/acme/tools/app/-/merge_requests/${iid}`, state, merge_commit_sha: state === 'merged' ? 'abc1234def' : null }
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url!, baseUrl)
+  requests.push(url)
+  const json = (data: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(200, { 'content-type': 'application/json', ...headers })
+    res.end(JSON.stringify(data))
+  }
+  const path = url.pathname.replace('/api/v4', '')
+
+  if (req.headers['private-token'] !== 'secret') {
+    res.writeHead(401).end('{"message":"401 Unauthorized"}')
+  }
+  else if (failures > 0) {
+    failures--
+    res.writeHead(429, { 'retry-after': '0' }).end('{"message":"Too many requests"}')
+  }
+  else if (path === '/projects' && url.searchParams.get('search') === 'app') {
+    json([project], { 'x-next-page': '' })
+  }
+  else if (path === '/projects/acme%2Ftools%2Fapp/issues' || path === '/groups/acme/issues') {
+    const search = url.searchParams.get('search')
+    const page = url.searchParams.get('page')
+    if (search === 'flaky' && page === '1')
+      json([issue(1, 'Flaky test in CI'), issue(2, 'flaky renovate update')], { 'x-next-page': '2' })
+    else if (search === 'flaky' && page === '2')
+      json([issue(3, 'Another flaky test')])
+    else if (search === 'intermittent')
+      json([issue(1, 'Flaky test in CI')])
+    else
+      json([])
+  }
+  else if (path === '/projects/7' || path === '/projects/acme%2Ftools%2Fapp') {
+    json(project)
+  }
+  else if (path === '/projects/acme%2Ftools%2Fapp/issues/1') {
+    json(issue(1, 'Flaky test in CI', 'Fails about once a day'))
+  }
+  else if (path === '/projects/acme%2Ftools%2Fapp/issues/1/notes') {
+    json([
+      { body: 'added ~flaky label', system: true, author: { username: 'bot' }, created_at: '2025-01-02' },
+      { body: 'Seen again on main', system: false, author: { username: 'dev' }, created_at: '2025-01-03' },
+    ])
+  }
+  else if (path === '/projects/acme%2Ftools%2Fapp/issues/1/related_merge_requests') {
+    json([mergeRequest(5, 'Fix race', 'merged'), mergeRequest(6, 'Mention only', 'opened')])
+  }
+  else if (path === '/projects/acme%2Ftools%2Fapp/issues/1/closed_by') {
+    json([mergeRequest(5, 'Fix race', 'merged')])
+  }
+  else if (path === '/projects/7/merge_requests/5/diffs') {
+    json([{ new_path: 'src/race.ts' }, { new_path: 'src/race.test.ts' }])
+  }
+  else if (path === '/projects/7/merge_requests/6/diffs') {
+    json([])
+  }
+  else if (path === '/projects/acme%2Ftools%2Fapp/repository/files/src%2Findex.ts/raw' && url.searchParams.get('ref') === 'main') {
+    res.writeHead(200, { 'content-type': 'text/plain' }).end('export {}\n')
+  }
+  else if (path === '/projects/acme%2Ftools%2Fapp/repository/tree') {
+    json(url.searchParams.get('path') === '' ? [{ name: 'src' }, { name: 'package.json' }] : [])
+  }
+  else {
+    res.writeHead(404).end('{"message":"404 Not Found"}')
+  }
+})
+
+describe('gitlab forge', () => {
+  let forge: Forge
+
+  beforeAll(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    vi.stubEnv('GITLAB_TOKEN', 'secret')
+    forge = createGitLabForge(baseUrl)
+  })
+
+  beforeEach(() => {
+    requests.length = 0
+    failures = 0
+  })
+
+  afterAll(async () => {
+    vi.unstubAllEnvs()
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('should search projects', async () => {
+    expect(await forge.searchRepos('app', 3, 20)).toEqual([{ full_name: 'acme/tools/app', stargazers_count: 12 }])
+    expect(requests).toHaveLength(1)
+    expect(requests[0].searchParams.get('order_by')).toBe('star_count')
+  })
+
+  it('should search issues page by page without duplicates or excluded terms', async () => {
+    const results = []
+    for await (const result of forge.searchIssues([{ kind: 'repo', name: 'acme/tools/app' }], {
+      cutoff: '2025-01-01',
+      pages: 2,
+      perPage: 2,
+      strategy: { exclude: ['renovate'] },
+    }))
+      results.push(result)
+
+    expect(results.map(result => result.url)).toEqual([
+      `${baseUrl}/acme/tools/app/-/issues/1`,
+      `${baseUrl}/acme/tools/app/-/issues/3`,
+    ])
+    expect(results[0]).toEqual({
+      title: 'Flaky test in CI',
+      url: `${baseUrl}/acme/tools/app/-/issues/1`,
+      repo: 'acme/tools/app',
+      stars: 12,
+      comments: 2,
+      reactions: 4,
+      created: '2025-01-02',
+      forge: 'gitlab',
+    })
+    const search = requests.find(url => url.searchParams.get('search') === 'flaky')!
+    expect(Object.fromEntries(search.searchParams)).toMatchObject({ created_after: '2025-01-01', state: 'opened', per_page: '2', page: '1' })
+  })
+
+  it('should fetch issue details with notes and linked merge requests', async () => {
+    const detailed = await forge.fetchIssue({ ...issue(1, ''), url: `${baseUrl}/acme/tools/app/-/issues/1`, repo: 'acme/tools/app', stars: 12, comments: 2, reactions: 4, created: '2025-01-02', forge: 'gitlab' })
+    expect(detailed).toMatchObject({
+      title: 'Flaky test in CI',
+      repo: 'acme/tools/app',
+      body: 'Fails about once a day',
+      commentsList: [{ body: 'Seen again on main', author: 'dev', createdAt: '2025-01-03' }],
+      linkedPRs: [
+        { title: 'Fix race', merged: true, state: 'merged', closes: true, mergeCommit: 'abc1234def', changedTestFiles: ['src/race.test.ts'] },
+        { title: 'Mention only', merged: false, state: 'open', closes: false, changedTestFiles: [] },
+      ],
+    })
+  })
+
+  it('should explore the repository on the default branch', async () => {
+    const { readFile, listDir } = createExploreFunctions('acme/tools/app', forgeOf({ forge: 'gitlab', url: `${baseUrl}/acme/tools/app/-/issues/1` }))
+    expect(await readFile.implementation({ path: 'src/index.ts' })).toBe('export {}\n')
+    expect(await listDir.implementation({ path: '.' })).toEqual(['src', 'package.json'])
+    await expect(readFile.implementation({ path: 'missing.ts' })).rejects.toThrow('File not found: missing.ts')
+    await expect(listDir.implementation({ path: 'missing' })).rejects.toThrow('Directory not found: missing')
+  })
+
+  it('should retry rate limited requests', async () => {
+    failures = 2
+    expect(await forge.searchRepos('app', 1, 20)).toHaveLength(1)
+    expect(requests).toHaveLength(3)
+  })
+
+  it('should find issues of a group through runFindAgent', async () => {
+    const outputFile = join(mkdtempSync(join(tmpdir(), 'flaki-gitlab-')), 'find.json')
+    await runFindAgent({ org: 'acme', forge: 'gitlab', forgeUrl: baseUrl, months: 600, repoPages: 1, repoPerPage: 100, issuePages: 1, issuePerPage: 100, outputFile })
+    const results = JSON.parse(readFileSync(outputFile, 'utf-8'))
+    expect(results.map((result: { url: string }) => result.url).sort()).toEqual([
+      `${baseUrl}/acme/tools/app/-/issues/1`,
+      `${baseUrl}/acme/tools/app/-/issues/2`,
+    ])
+    await expect(runFindAgent({ org: 'acme', forge: 'gitlab', forgeUrl: baseUrl, sources: ['actions'], months: 6, repoPages: 1, repoPerPage: 100, issuePages: 1, issuePerPage: 100 }))
+      .rejects
+      .toThrow('The actions source is only available on GitHub')
+  })
+})
@@ -0,0 +1,66 @@
+import type { FindResult } from '../src/types'
+import { describe, expect, it } from 'vitest'
+import { filterFlakyTestIssues } from '../src/agents/filterer'
+import { heuristicAnalysis, scoreIssue, triageIssue } from '../src/heuristics'
+import { issue } from './fixtures'
+
+const genuine = issue('Flaky test: handles reconnect', [
+  'The test in src/client.test.ts fails randomly on GitHub Actions and passes on retry.',
+  '```',
+  'Error: expected 1 to be 2',
+  '    at Object.<anonymous> (src/client.test.ts:42:7)',
+  '```',
+].join('\n'), { labels: ['flaky-test'] })
+
+describe('heuristics', () => {
+  it('should explain the score of a genuine flaky test issue', () => {
+    expect(scoreIssue(genuine)).toEqual({
+      score: 13,
+      reasons: [
+        '+3 flaky wording in the title',
+        '+2 flaky wording in the description or comments',
+        '+3 flaky label',
+        '+2 mentions a test file',
+        '+1 mentions CI',
+        '+1 contains a stack trace',
+        '+1 mentions retrying or re-running',
+      ],
+    })
+  })
+
+  it('should reject flakiness that is not about tests', () => {
+    const result = triageIssue(issue('Flaky network on the docs website', 'The page often times out when loading.'))
+    expect(result).toMatchObject({ score: -2, decision: 'reject' })
+    expect(heuristicAnalysis(result)).toMatchObject({ isFlakyTestIssue: false, confidence: 65 })
+    expect(triageIssue(issue('Intermittent failures', 'Would be great to have a retry option'), { rejectBelow: 1 }).reasons).toContain('-2 never mentions tests')
+    expect(triageIssue(issue('Flaky network connection', 'Requests drop every few minutes.'))).toMatchObject({ score: -2, decision: 'reject' })
+    expect(triageIssue(issue('Flaky networking test')).reasons).not.toContain('-3 the title is about docs, websites, networks or hardware')
+  })
+
+  it('should only decide issues past the thresholds', () => {
+    expect(triageIssue(genuine).decision).toBe('undecided')
+    expect(triageIssue(genuine, { acceptAt: 10 }).decision).toBe('accept')
+    expect(triageIssue(genuine, { rejectBelow: 20 }).decision).toBe('reject')
+    expect(triageIssue(issue('Flaky test'), { only: true }).decision).toBe('accept')
+    expect(heuristicAnalysis(triageIssue(genuine, { only: true }))).toMatchObject({ isFlakyTestIssue: true, confidence: 95 })
+  })
+
+  it('should filter without an LLM provider', async () => {
+    const reported: FindResult = {
+      ...issue('auth > refreshes tokens'),
+      source: 'reports',
+      testId: 'auth > refreshes tokens',
+      file: 'test/auth.test.ts',
+      failureMessages: ['AssertionError: expected 401 to be 200'],
+      testStats: { runs: 10, failures: 2, flakeRate: 0.2 },
+    }
+    const results = []
+    for await (const result of filterFlakyTestIssues([reported], undefined))
+      results.push(result)
+
+    expect(results).toEqual([expect.objectContaining({
+      isFlakyTestIssue: true,
+      heuristic: expect.objectContaining({ decision: 'accept' }),
+    })])
+  })
+})
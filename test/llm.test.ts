@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest'
+import * as z from 'zod'
+import { createLlmProvider } from '../src/llm'
+import { toAnthropicTools, toOpenAITools } from '../src/llm/tools'
+import { defineAiFunction } from '../src/utils/defineAiFunction'
+
+const gemini = vi.hoisted(() => ({ chat: vi.fn() }))
+vi.mock('../src/llm/gemini', () => ({
+  createGeminiProvider: () => ({ name: 'gemini', model: 'gemini-test', chat: gemini.chat }),
+}))
+
+const readFile = defineAiFunction({
+  name: 'readFile',
+  description: 'Read a file',
+  parameters: z.object({
+    path: z.string().describe('The path to the file'),
+  }),
+  implementation: () => {},
+})
+
+describe('llm tools', () => {
+  it('should translate declarations to OpenAI function tools', () => {
+    expect(toOpenAITools([readFile.declaration])).toEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'readFile',
+          description: 'Read a file',
+          parameters: {
+            type: 'object',
+            properties: { path: { type: 'string', description: 'The path to the file' } },
+            required: ['path'],
+            additionalProperties: false,
+          },
+        },
+      },
+    ])
+  })
+
+  it('should translate declarations to Anthropic tools', () => {
+    expect(toAnthropicTools([readFile.declaration])).toEqual([
+      {
+        name: 'readFile',
+        description: 'Read a file',
+        input_schema: {
+          type: 'object',
+          properties: { path: { type: 'string', description: 'The path to the file' } },
+          required: ['path'],
+          additionalProperties: false,
+        },
+      },
+    ])
+  })
+
+  it('should fall back to an empty object schema', () => {
+    const [tool] = toOpenAITools([{ name: 'noop', description: 'Nothing' }])
+    expect(tool.function.parameters).toEqual({ type: 'object', properties: {} })
+  })
+})
+
+describe('llm provider', () => {
+  it('should retry requests that hit a rate limit', async () => {
+    const rateLimited = Object.assign(new Error('Resource exhausted'), { status: 429, headers: { 'retry-after': '0' } })
+    gemini.chat.mockRejectedValueOnce(rateLimited).mockResolvedValueOnce({ text: 'ok', toolCalls: [] })
+    const provider = createLlmProvider({ provider: 'gemini' })
+    expect(await provider.chat({ messages: [], tools: [] })).toEqual({ text: 'ok', toolCalls: [] })
+    expect(gemini.chat).toHaveBeenCalledTimes(2)
+
+    gemini.chat.mockRejectedValue(rateLimited)
+    await expect(provider.chat({ messages: [], tools: [] })).rejects.toThrow('Resource exhausted')
+    expect(gemini.chat).toHaveBeenCalledTimes(8)
+
+    gemini.chat.mockReset().mockRejectedValueOnce(new Error('Invalid API key'))
+    await expect(provider.chat({ messages: [], tools: [] })).rejects.toThrow('Invalid API key')
+    expect(gemini.chat).toHaveBeenCalledOnce()
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { cleanLog, createOutputBuffer, extractFailingTests, extractLogExcerpt, findActionsUrls, parseActionsUrl } from '../src/utils/logs'
+
+describe('logs', () => {
+  it('should strip timestamps and color codes', () => {
+    expect(cleanLog('2025-01-01T10:00:00.1234567Z \u001B[31mFAIL\u001B[0m test')).toBe('FAIL test')
+  })
+
+  it('should extract failing tests of common test runners', () => {
+    const log = [
+      '2025-01-01T10:00:00.0000000Z  FAIL  src/a.test.ts > suite > works',
+      '   × suite > times out 5012ms',
+      '  ● api › retries requests',
+      'FAILED tests/test_db.py::test_connect - AssertionError',
+      '--- FAIL: TestRace (0.01s)',
+      '[ERROR] com.acme.FooTest.bar -- Time elapsed: 0.1 s <<< FAILURE!',
+      '[ERROR] baz(com.acme.BarTest)  Time elapsed: 0.2 s  <<< ERROR!',
+      'FooTest > qux() FAILED',
+      'test net::tests::connects ... FAILED',
+      '   × suite > times out 5012ms',
+    ].join('\n')
+    expect(extractFailingTests(log)).toEqual([
+      'src/a.test.ts > suite > works',
+      'suite > times out',
+      'api › retries requests',
+      'tests/test_db.py::test_connect',
+      'TestRace',
+      'com.acme.FooTest.bar',
+      'baz(com.acme.BarTest)',
+      'FooTest > qux()',
+      'net::tests::connects',
+    ])
+  })
+
+  it('should excerpt the lines around the first failure', () => {
+    const log = [...Array.from({ length: 100 }, (_, i) => `line ${i}`), '##[error]Process completed with exit code 1.']
+    log.splice(50, 0, '--- FAIL: TestRace (0.01s)')
+    const excerpt = extractLogExcerpt(log.join('\n'), 10).split('\n')
+    expect(excerpt).toHaveLength(10)
+    expect(excerpt[0]).toBe('line 45')
+    expect(excerpt[5]).toBe('--- FAIL: TestRace (0.01s)')
+  })
+
+  it('should fall back to the end of the log', () => {
+    const log = Array.from({ length: 100 }, (_, i) => `line ${i}`).join('\n')
+    expect(extractLogExcerpt(log, 3)).toBe('line 97\nline 98\nline 99')
+  })
+
+  it('should excerpt the lines around a given text', () => {
+    const log = ['--- FAIL: TestA', ...Array.from({ length: 50 }, (_, i) => `line ${i}`), '--- FAIL: TestB'].join('\n')
+    expect(extractLogExcerpt(log, 6, 'TestB')).toBe('line 45\nline 46\nline 47\nline 48\nline 49\n--- FAIL: TestB')
+  })
+
+  it('should find links to GitHub Actions runs and jobs', () => {
+    const text = [
+      'Failed in https://github.com/owner/repo/actions/runs/123/job/456?pr=7 and',
+      'https://github.com/owner/repo/actions/runs/789/attempts/2, again https://github.com/owner/repo/actions/runs/789.',
+      'Not a run: https://github.com/owner/repo/actions/workflows/ci.yml',
+    ].join('\n')
+    expect(findActionsUrls(text)).toEqual([
+      'https://github.com/owner/repo/actions/runs/123/job/456',
+      'https://github.com/owner/repo/actions/runs/789',
+    ])
+    expect(parseActionsUrl('https://github.com/owner/my.repo/actions/runs/123/job/456')).toEqual({ owner: 'owner', repo: 'my.repo', runId: 123, jobId: 456 })
+    expect(parseActionsUrl('https://github.com/owner/repo/actions/runs/789')).toEqual({ owner: 'owner', repo: 'repo', runId: 789, jobId: undefined })
+    expect(parseActionsUrl('https://github.com/owner/repo/issues/1')).toBeUndefined()
+  })
+
+  it('should keep the beginning and end of long streamed output', () => {
+    const short = createOutputBuffer(10)
+    short.append('abc')
+    short.append('de')
+    expect([short.toString(), short.truncated]).toEqual(['abcde', false])
+
+    const long = createOutputBuffer(10)
+    for (const chunk of ['ab', 'cdefg', 'hijklmn', 'opq'])
+      long.append(chunk)
+    expect(long.truncated).toBe(true)
+    expect(long.toString()).toBe('abcde\n... [7 characters truncated] ...\nmnopq')
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest'
+import { bisectPolluters, createOrderFunctions, fillTests, shuffleCommand } from '../src/tools/order'
+
+// The victim fails when all of its polluters ran before it
+function pollutedBy(victim: string, polluters: string[]) {
+  return vi.fn(async (tests: string[]) => tests.at(-1) === victim && polluters.every(polluter => tests.includes(polluter)) && polluters.length > 0)
+}
+
+describe('test order', () => {
+  it('should append the framework\'s shuffle flags', () => {
+    expect(shuffleCommand('vitest', 'npx vitest run src/cache', 42)).toBe('npx vitest run src/cache --sequence.shuffle --sequence.seed=42')
+    expect(shuffleCommand('pytest', 'pytest tests', 7)).toBe('pytest tests -p randomly --randomly-seed=7')
+    expect(shuffleCommand('go', 'go test ./...', 7)).toBe('go test ./... -shuffle=7')
+    expect(shuffleCommand('junit', 'mvn test', 7)).toContain('-Djunit.jupiter.execution.order.random.seed=7')
+  })
+
+  it('should quote the tests filled into a command', () => {
+    expect(fillTests('pytest -p no:randomly {tests}', ['tests/a.py::test_a', 'tests/b.py::it\'s'])).toBe(`pytest -p no:randomly 'tests/a.py::test_a' 'tests/b.py::it'\\''s'`)
+    expect(() => fillTests('pytest', [])).toThrow('{tests} placeholder')
+  })
+
+  it('should bisect the predecessors down to the polluting test', async () => {
+    const predecessors = ['a', 'b', 'c', 'd', 'e', 'f', 'g']
+    const search = await bisectPolluters('victim', predecessors, pollutedBy('victim', ['f']))
+    expect(search).toMatchObject({ status: 'polluter-found', polluters: ['f'] })
+    expect(search.trials.slice(0, 2)).toEqual([{ tests: ['victim'], failed: false }, { tests: [...predecessors, 'victim'], failed: true }])
+    expect(search.trials.at(-1)).toEqual({ tests: ['f', 'victim'], failed: true })
+    expect(search.trials.length).toBeLessThanOrEqual(2 + 2 * Math.ceil(Math.log2(predecessors.length)))
+  })
+
+  it('should find polluters that only fail the victim together', async () => {
+    const search = await bisectPolluters('victim', ['a', 'b', 'c', 'd'], pollutedBy('victim', ['b', 'd']))
+    expect(search).toMatchObject({ status: 'polluters-found', polluters: ['b', 'd'] })
+  })
+
+  it('should tell victims that do not depend on the order apart', async () => {
+    expect(await bisectPolluters('victim', ['a'], vi.fn(async () => true))).toMatchObject({ status: 'fails-in-isolation', polluters: [] })
+    expect(await bisectPolluters('victim', ['a'], vi.fn(async () => false))).toMatchObject({ status: 'passes-with-predecessors', polluters: [] })
+  })
+
+  it('should record the seeds of failing orders and bisect with the container', async () => {
+    // Fails for odd seeds, and when the victim runs after test_b
+    const runCommand = vi.fn(async (command: string) => {
+      const failed = /seed=\d*[13579]\b/.test(command) || /'test_b'.*'test_victim'/.test(command)
+      return { output: failed ? 'FAILED test_victim - AssertionError' : 'passed', exitCode: failed ? 1 : 0, durationMs: 10 }
+    })
+    const { runShuffled, findPolluter } = createOrderFunctions(runCommand)
+
+    const shuffled = await runShuffled.implementation({ framework: 'pytest', command: 'pytest tests', seeds: [2, 3, 4, 5] })
+    expect(shuffled).toMatchObject({ runs: 4, failed: 2, passingSeeds: [2, 4] })
+    expect(shuffled.failures.map(({ seed, command }) => [seed, command])).toEqual([
+      [3, 'pytest tests -p randomly --randomly-seed=3'],
+      [5, 'pytest tests -p randomly --randomly-seed=5'],
+    ])
+    expect(shuffled.failures[0].excerpt).toContain('FAILED test_victim')
+    expect((await runShuffled.implementation({ framework: 'go', command: 'go test ./...', runs: 3 })).runs).toBe(3)
+
+    const search = await findPolluter.implementation({ command: 'pytest -p no:randomly {tests}', victim: 'test_victim', predecessors: ['test_a', 'test_b', 'test_c'] })
+    expect(search).toMatchObject({ status: 'polluter-found', polluters: ['test_b'] })
+    expect(runCommand).toHaveBeenLastCalledWith(`pytest -p no:randomly 'test_b' 'test_victim'`)
+  })
+})
@@ -0,0 +1,129 @@
+import type { RunOptions } from '../src/pipeline'
+import type { FilteredResult } from '../src/types'
+import { existsSync, mkdtempSync, readdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { reproduceIssue } from '../src/agents/reproducer'
+import { issueSlug, readManifest, resolveRunOptions, runPipeline, selectStages } from '../src/pipeline'
+
+vi.mock('../src/clients', () => ({ octokit: {} }))
+// Shutdown handlers are collected rather than installed, to interrupt runs without exiting
+const shutdownHandlers = vi.hoisted(() => new Set<() => void | Promise<void>>())
+vi.mock('../src/utils/shutdown', () => ({
+  onShutdown: (handler: () => void | Promise<void>) => {
+    shutdownHandlers.add(handler)
+    return () => shutdownHandlers.delete(handler)
+  },
+}))
+vi.mock('../src/agents/reproducer', () => ({
+  reproduceIssue: vi.fn(async (_provider, issue) => ({ issue, reproductionResult: null, stopReason: 'max-iterations' })),
+}))
+
+const options: RunOptions = {
+  sources: ['issues'],
+  maxRuns: 100,
+  months: 6,
+  repoPages: 1,
+  repoPerPage: 100,
+  issuePages: 1,
+  issuePerPage: 100,
+  filterMaxIterations: 10,
+  reproduceMaxIterations: 50,
+  minConfidence: 70,
+  concurrency: 2,
+  provider: 'openai',
+  baseUrl: 'http://localhost:11434/v1',
+}
+
+function filtered(number: number, isFlakyTestIssue: boolean, confidence: number): FilteredResult {
+  return {
+    title: `Issue ${number}`,
+    url: `https://github.com/owner/repo/issues/${number}`,
+    repo: 'owner/repo',
+    stars: 1,
+    comments: 0,
+    reactions: 0,
+    created: '2025-01-01',
+    isFlakyTestIssue,
+    confidence,
+    reasoning: 'test',
+  }
+}
+
+describe('pipeline', () => {
+  let workspace: string
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    workspace = mkdtempSync(join(tmpdir(), 'flaki-workspace-'))
+  })
+
+  it('should derive file names and stages', () => {
+    expect(issueSlug('https://github.com/owner/repo/issues/123')).toBe('owner_repo_123')
+    expect(selectStages('find', 'reproduce')).toEqual(['find', 'filter', 'reproduce'])
+    expect(selectStages('filter', 'filter')).toEqual(['filter'])
+    expect(() => selectStages('reproduce', 'find')).toThrow('comes after')
+  })
+
+  it('should prefer explicit options over saved ones', () => {
+    const saved = { ...options, repoQuery: 'stars:>1000', minConfidence: 90, months: 3 }
+    expect(resolveRunOptions({ ...options, minConfidence: 50 }, ['minConfidence'], saved))
+      .toEqual({ ...saved, minConfidence: 50 })
+    expect(resolveRunOptions(options, ['minConfidence'])).toEqual(options)
+  })
+
+  it('should reproduce confident flaky issues into the workspace', async () => {
+    writeFileSync(join(workspace, 'filtered.json'), JSON.stringify([
+      filtered(1, true, 90),
+      filtered(2, true, 50),
+      filtered(3, false, 95),
+    ]))
+
+    await runPipeline({ workspace, from: 'reproduce', to: 'reproduce', options })
+    expect(readdirSync(join(workspace, 'reproductions'))).toEqual(['owner_repo_1.json'])
+    expect(JSON.parse(readFileSync(join(workspace, 'reproductions', 'owner_repo_1.json'), 'utf-8')))
+      .toMatchObject({ issue: { url: 'https://github.com/owner/repo/issues/1' } })
+
+    // Lowering the threshold on a rerun only reproduces the newly selected issue
+    await runPipeline({ workspace, from: 'reproduce', to: 'reproduce', options: { ...options, minConfidence: 40 }, explicit: ['minConfidence'] })
+    expect(reproduceIssue).toHaveBeenCalledTimes(2)
+    expect(readdirSync(join(workspace, 'reproductions')).sort()).toEqual(['owner_repo_1.json', 'owner_repo_2.json'])
+
+    const manifest = readManifest(workspace)!
+    expect(manifest.options.minConfidence).toBe(40)
+    expect(manifest.runs).toMatchObject([
+      { stages: ['reproduce'], status: 'completed', options: { minConfidence: 70 } },
+      { stages: ['reproduce'], status: 'completed', options: { minConfidence: 40 } },
+    ])
+  })
+
+  it('should record failed runs and require earlier stage outputs', async () => {
+    await expect(runPipeline({ workspace, from: 'reproduce', to: 'reproduce', options })).rejects.toThrow('filtered.json does not exist')
+    await expect(runPipeline({ workspace, from: 'find', to: 'find', options })).rejects.toThrow('--repo-query')
+    expect(existsSync(join(workspace, 'manifest.json'))).toBe(false)
+
+    writeFileSync(join(workspace, 'filtered.json'), JSON.stringify([filtered(1, true, 90)]))
+    vi.mocked(reproduceIssue).mockRejectedValueOnce(new Error('docker is not running'))
+    await expect(runPipeline({ workspace, from: 'reproduce', to: 'reproduce', options })).rejects.toThrow('docker is not running')
+    expect(readManifest(workspace)!.runs).toMatchObject([{ status: 'failed', error: 'docker is not running' }])
+  })
+
+  it('should record runs whose filter stage fails', async () => {
+    writeFileSync(join(workspace, 'find.json'), JSON.stringify([{ title: 'Not a find result' }]))
+    await expect(runPipeline({ workspace, from: 'filter', to: 'filter', options })).rejects.toThrow('Invalid FindResult')
+    expect(readManifest(workspace)!.runs).toMatchObject([{ stages: ['filter'], status: 'failed', error: expect.stringContaining('Invalid FindResult') }])
+  })
+
+  it('should record interrupted runs', async () => {
+    writeFileSync(join(workspace, 'filtered.json'), JSON.stringify([filtered(1, true, 90)]))
+    vi.mocked(reproduceIssue).mockImplementationOnce(async () => {
+      for (const handler of shutdownHandlers)
+        await handler()
+      expect(readManifest(workspace)!.runs).toMatchObject([{ status: 'interrupted', finishedAt: expect.any(String) }])
+      throw new Error('interrupted')
+    })
+    await expect(runPipeline({ workspace, from: 'reproduce', to: 'reproduce', options })).rejects.toThrow('interrupted')
+    expect(shutdownHandlers.size).toBe(0)
+  })
+})
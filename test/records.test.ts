@@ -0,0 +1,34 @@
+import { mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { parseRecords, readRecords } from '../src/utils/records'
+
+async function readAll(content: string): Promise<unknown[]> {
+  const file = join(mkdtempSync(join(tmpdir(), 'flaki-records-')), 'input')
+  writeFileSync(file, content)
+  const records: unknown[] = []
+  for await (const record of readRecords(file))
+    records.push(record)
+  return records
+}
+
+describe('records', () => {
+  it('should read JSON arrays, single values and NDJSON', async () => {
+    expect(await readAll(JSON.stringify([{ a: 1 }, { a: 2 }], null, 2))).toEqual([{ a: 1 }, { a: 2 }])
+    expect(await readAll('[{"a":1},{"a":2}]')).toEqual([{ a: 1 }, { a: 2 }])
+    expect(await readAll(JSON.stringify({ a: 1 }, null, 2))).toEqual([{ a: 1 }])
+    expect(await readAll('{"a":1}\n\n{"a":2}\n')).toEqual([{ a: 1 }, { a: 2 }])
+    expect(await readAll('')).toEqual([])
+  })
+
+  it('should report the line of invalid NDJSON', async () => {
+    await expect(readAll('{"a":1}\n{"a":\n')).rejects.toThrow('Invalid JSON on line 2')
+  })
+
+  it('should parse complete documents in either format', () => {
+    expect(parseRecords('[{"a":1}]')).toEqual([{ a: 1 }])
+    expect(parseRecords('{"a":1}\n{"a":2}\n')).toEqual([{ a: 1 }, { a: 2 }])
+    expect(parseRecords('  ')).toEqual([])
+  })
+})
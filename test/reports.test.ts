@@ -0,0 +1,134 @@
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { findFlakyTests, parseTestReport, repoRelativePath, runReportsFind } from '../src/sources/reports'
+import { globFiles } from '../src/utils/glob'
+
+function junit(failing: boolean): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!-- generated -->
+<testsuites>
+  <testsuite name="FooTest" file="src/test/FooTest.java">
+    <testcase classname="com.acme.FooTest" name="bar" time="0.1">
+      ${failing ? '<failure message="expected 1 &gt; 2" type="AssertionError"><![CDATA[at FooTest.bar(FooTest.java:12) <flaky>]]></failure>' : ''}
+    </testcase>
+    <testcase classname="com.acme.FooTest" name="baz" time="0.1"/>
+    <testcase classname="com.acme.FooTest" name="qux"><skipped/></testcase>
+  </testsuite>
+</testsuites>`
+}
+
+function jestJson(status: string, name = 'src/a.test.ts'): string {
+  return JSON.stringify({
+    testResults: [{
+      name,
+      assertionResults: [
+        { fullName: 'suite retries', title: 'retries', status, failureMessages: status === 'failed' ? ['Error: timeout'] : [] },
+        { ancestorTitles: ['suite'], title: 'works', status: 'passed' },
+      ],
+    }],
+  })
+}
+
+describe('test reports', () => {
+  it('should parse JUnit XML reports', () => {
+    expect(parseTestReport(junit(true))).toEqual([
+      { testId: 'com.acme.FooTest > bar', file: 'src/test/FooTest.java', status: 'failed', message: 'at FooTest.bar(FooTest.java:12) <flaky>' },
+      { testId: 'com.acme.FooTest > baz', file: 'src/test/FooTest.java', status: 'passed', message: undefined },
+      { testId: 'com.acme.FooTest > qux', file: 'src/test/FooTest.java', status: 'skipped', message: undefined },
+    ])
+  })
+
+  it('should use the failure message attribute when the failure has no text', () => {
+    const [outcome] = parseTestReport('<testsuite><testcase name="a > b"><failure message="x &lt; y"/></testcase></testsuite>')
+    expect(outcome).toEqual({ testId: 'a > b', file: undefined, status: 'failed', message: 'x < y' })
+  })
+
+  it('should parse jest/vitest JSON reports', () => {
+    expect(parseTestReport(jestJson('failed'))).toEqual([
+      { testId: 'suite retries', file: 'src/a.test.ts', status: 'failed', message: 'Error: timeout' },
+      { testId: 'suite works', file: 'src/a.test.ts', status: 'passed', message: undefined },
+    ])
+  })
+
+  it('should reject unknown formats', () => {
+    expect(() => parseTestReport('{"foo": 1}', 'foo.json')).toThrow('Unrecognized test report format in foo.json')
+    expect(() => parseTestReport('<testsuite><testcase>', 'bad.xml')).toThrow('Unclosed element <testcase>')
+  })
+
+  it('should report tests with mixed outcomes and their flake rate', () => {
+    const runs = [junit(true), junit(false), junit(false), junit(true), junit(true)].map(report => parseTestReport(report))
+    const results = findFlakyTests(runs, { repo: 'acme/foo', commit: 'abcdef1234', created: '2025-01-01' })
+    expect(results).toEqual([{
+      title: 'Test "com.acme.FooTest > bar" failed in 3 of 5 runs of commit abcdef1',
+      url: 'https://github.com/acme/foo/blob/abcdef1234/src/test/FooTest.java#com.acme.FooTest%20%3E%20bar',
+      repo: 'acme/foo',
+      stars: 0,
+      comments: 0,
+      reactions: 0,
+      created: '2025-01-01',
+      source: 'reports',
+      commit: 'abcdef1234',
+      failingTests: ['com.acme.FooTest > bar'],
+      testId: 'com.acme.FooTest > bar',
+      file: 'src/test/FooTest.java',
+      failureMessages: ['at FooTest.bar(FooTest.java:12) <flaky>'],
+      testStats: { runs: 5, failures: 3, flakeRate: 0.6 },
+    }])
+  })
+
+  it('should make the paths of CI machines relative to the repository', () => {
+    expect(repoRelativePath('/home/runner/work/foo/foo/src/a.test.ts', 'acme/foo')).toBe('src/a.test.ts')
+    expect(repoRelativePath('/builds/acme/foo/src/a.test.ts', 'acme/foo')).toBe('src/a.test.ts')
+    expect(repoRelativePath('/ci/checkout/src/a.test.ts', 'acme/foo', '/ci/checkout/')).toBe('src/a.test.ts')
+    expect(repoRelativePath('./src/a.test.ts', 'acme/foo')).toBe('src/a.test.ts')
+    expect(repoRelativePath('/tmp/a.test.ts', 'acme/foo')).toBe('/tmp/a.test.ts')
+  })
+
+  it('should tell tests of the same name in different files apart', () => {
+    const runs = ['failed', 'passed'].map(status => [
+      ...parseTestReport(jestJson(status, '/home/runner/work/foo/foo/src/a.test.ts')),
+      ...parseTestReport(jestJson(status, '/home/runner/work/foo/foo/src/b.test.ts')),
+      ...parseTestReport(jestJson(status, '/tmp/a.test.ts')),
+      ...parseTestReport(jestJson(status, '/tmp/b.test.ts')),
+    ])
+    expect(findFlakyTests(runs, { repo: 'acme/foo', created: '2025-01-01' }).map(result => result.url)).toEqual([
+      'https://github.com/acme/foo/blob/HEAD/src/a.test.ts#suite%20retries',
+      'https://github.com/acme/foo/blob/HEAD/src/b.test.ts#suite%20retries',
+      'https://github.com/acme/foo#%2Ftmp%2Fa.test.ts%20%3E%20suite%20retries',
+      'https://github.com/acme/foo#%2Ftmp%2Fb.test.ts%20%3E%20suite%20retries',
+    ])
+  })
+
+  it('should link tests on the forge the repository is hosted on', () => {
+    const runs = [jestJson('failed'), jestJson('passed')].map(report => parseTestReport(report))
+    const [result] = findFlakyTests(runs, { repo: 'acme/foo', commit: 'abcdef1234', forge: { type: 'gitlab', baseUrl: 'https://gitlab.acme.dev' }, created: '2025-01-01' })
+    expect(result).toMatchObject({ url: 'https://gitlab.acme.dev/acme/foo/-/blob/abcdef1234/src/a.test.ts#suite%20retries', forge: 'gitlab' })
+  })
+
+  it('should not report tests that always fail', () => {
+    const runs = [jestJson('failed'), jestJson('failed')].map(report => parseTestReport(report))
+    expect(findFlakyTests(runs, { repo: 'acme/foo', created: '2025-01-01' })).toEqual([])
+  })
+
+  it('should find reports by glob and write the results', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'flaki-reports-'))
+    for (const [i, status] of ['passed', 'failed', 'passed'].entries()) {
+      mkdirSync(join(dir, `run-${i}`, 'reports'), { recursive: true })
+      writeFileSync(join(dir, `run-${i}`, 'reports', 'vitest.json'), jestJson(status))
+    }
+    writeFileSync(join(dir, 'run-0', 'notes.txt'), 'not a report')
+
+    expect(globFiles(`${dir}/**/*.{json,xml}`)).toEqual([0, 1, 2].map(i => `${dir}/run-${i}/reports/vitest.json`))
+    expect(globFiles(`${dir}/run-?/reports/vitest.json`)).toHaveLength(3)
+    expect(globFiles(`${dir}/run-0/reports/vitest.json`)).toHaveLength(1)
+
+    const outputFile = join(dir, 'find.json')
+    await runReportsFind({ patterns: [`${dir}/run-*/**/*.json`], repo: 'acme/foo', outputFile })
+    const results = JSON.parse(readFileSync(outputFile, 'utf-8'))
+    expect(results).toHaveLength(1)
+    expect(results[0]).toMatchObject({ testId: 'suite retries', testStats: { runs: 3, failures: 1 } })
+    expect(results[0].url).toBe('https://github.com/acme/foo/blob/HEAD/src/a.test.ts#suite%20retries')
+  })
+})
@@ -0,0 +1,143 @@
+import type { ChatResponse, LlmProvider } from '../src/llm'
+import { describe, expect, it, vi } from 'vitest'
+import * as z from 'zod'
+import { runAgent } from '../src/agents/runtime'
+import { defineAiFunction } from '../src/utils/defineAiFunction'
+
+function scriptedProvider(responses: ChatResponse[]): LlmProvider {
+  return {
+    name: 'openai',
+    model: 'test-model',
+    chat: vi.fn(async () => responses.shift() ?? { toolCalls: [] }),
+  }
+}
+
+const echo = defineAiFunction({
+  name: 'echo',
+  description: 'Echo the input',
+  parameters: z.object({ value: z.string() }),
+  response: z.string(),
+  implementation: ({ value }) => {
+    if (value === 'boom')
+      throw new Error('exploded')
+    return value
+  },
+})
+
+const finalAnswer = {
+  name: 'answer',
+  description: 'Give the final answer',
+  parameters: z.object({ value: z.number().min(0) }),
+}
+
+describe('agent runtime', () => {
+  it('should run tools until the final answer is given', async () => {
+    const provider = scriptedProvider([
+      {
+        text: 'Let me check',
+        toolCalls: [
+          { id: '1', name: 'echo', args: { value: 'hi' } },
+          { id: '2', name: 'echo', args: { value: 'boom' } },
+        ],
+        usage: { inputTokens: 10, outputTokens: 5 },
+      },
+      { toolCalls: [{ id: '3', name: 'answer', args: { value: 42 } }], usage: { inputTokens: 20, outputTokens: 5 } },
+    ])
+    const hooks = {
+      onModelResponse: vi.fn(),
+      onToolCall: vi.fn(),
+      onToolResult: vi.fn(),
+      onFinish: vi.fn(),
+    }
+
+    const transcript = await runAgent({
+      provider,
+      system: 'system',
+      prompt: 'prompt',
+      tools: [echo],
+      finalAnswer,
+      budget: { maxIterations: 5 },
+      hooks,
+    })
+
+    expect(transcript).toMatchObject({
+      result: { value: 42 },
+      stopReason: 'final',
+      iterations: 2,
+      usage: { inputTokens: 30, outputTokens: 10 },
+      responses: [{ iteration: 1, text: 'Let me check' }],
+      toolCalls: [
+        { iteration: 1, name: 'echo', args: { value: 'hi' }, result: 'hi', key: 'output' },
+        { iteration: 1, name: 'echo', args: { value: 'boom' }, result: 'Error: exploded', key: 'error' },
+        { iteration: 2, name: 'answer', args: { value: 42 }, result: { value: 42 }, key: 'output' },
+      ],
+    })
+    expect(hooks.onModelResponse).toHaveBeenCalledTimes(2)
+    expect(hooks.onToolCall).toHaveBeenCalledTimes(3)
+    expect(hooks.onToolResult).toHaveBeenCalledTimes(3)
+    expect(hooks.onFinish).toHaveBeenCalledWith(transcript)
+
+    // Tool results are sent back in the next request
+    const [, [secondRequest]] = vi.mocked(provider.chat).mock.calls
+    expect(secondRequest.messages.at(-1)).toEqual({
+      role: 'tool',
+      results: [
+        { id: '1', name: 'echo', response: { output: 'hi' } },
+        { id: '2', name: 'echo', response: { error: 'Error: exploded' } },
+      ],
+    })
+    expect(secondRequest.tools.map(tool => tool.name)).toEqual(['echo', 'answer'])
+  })
+
+  it('should let the model correct an invalid final answer', async () => {
+    const provider = scriptedProvider([
+      { toolCalls: [{ id: '1', name: 'answer', args: { value: -1 } }] },
+      { toolCalls: [{ id: '2', name: 'answer', args: { value: 1 } }] },
+    ])
+
+    const transcript = await runAgent({
+      provider,
+      system: 'system',
+      prompt: 'prompt',
+      tools: [],
+      finalAnswer,
+      budget: { maxIterations: 5 },
+    })
+
+    expect(transcript.result).toEqual({ value: 1 })
+    expect(transcript.toolCalls[0]).toMatchObject({ key: 'error', result: expect.stringContaining('Invalid arguments for answer') })
+  })
+
+  it('should stop when a budget is exhausted', async () => {
+    const looping = (): LlmProvider => ({
+      name: 'openai',
+      model: 'test-model',
+      chat: vi.fn(async () => ({
+        toolCalls: [{ id: '1', name: 'echo', args: { value: 'again' } }],
+        usage: { inputTokens: 100, outputTokens: 0 },
+      })),
+    })
+    const options = { system: 'system', prompt: 'prompt', tools: [echo], finalAnswer }
+
+    const byIterations = await runAgent({ ...options, provider: looping(), budget: { maxIterations: 3 } })
+    expect(byIterations).toMatchObject({ result: null, stopReason: 'max-iterations', iterations: 3 })
+
+    const byTokens = await runAgent({ ...options, provider: looping(), budget: { maxIterations: 10, maxTokens: 250 } })
+    expect(byTokens).toMatchObject({ result: null, stopReason: 'token-budget', iterations: 3 })
+
+    const byTime = await runAgent({ ...options, provider: looping(), budget: { maxIterations: 10, maxDurationMs: 0 } })
+    expect(byTime).toMatchObject({ result: null, stopReason: 'timeout', iterations: 0 })
+  })
+
+  it('should stop when the model answers without calling a tool', async () => {
+    const transcript = await runAgent({
+      provider: scriptedProvider([{ text: 'I give up', toolCalls: [] }]),
+      system: ({ remainingIterations }) => `${remainingIterations} left`,
+      prompt: 'prompt',
+      tools: [],
+      finalAnswer,
+      budget: { maxIterations: 5 },
+    })
+    expect(transcript).toMatchObject({ result: null, stopReason: 'no-tool-call', responses: [{ iteration: 1, text: 'I give up' }] })
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createLimiter, mapConcurrent, rateLimitDelay } from '../src/utils/scheduler'
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>(r => resolve = r)
+  return { promise, resolve }
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of iterable)
+    items.push(item)
+  return items
+}
+
+describe('scheduler', () => {
+  it('should limit concurrent tasks', async () => {
+    const limiter = createLimiter('llm', 2)
+    let active = 0
+    let peak = 0
+    const task = async () => {
+      peak = Math.max(peak, ++active)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      active--
+    }
+    await Promise.all(Array.from({ length: 6 }, () => limiter.run(task)))
+    expect(peak).toBe(2)
+  })
+
+  it('should pause and shrink after a rate limit', async () => {
+    vi.useFakeTimers()
+    try {
+      const limiter = createLimiter('github-rest', 4)
+      limiter.backoff(1000)
+      expect(limiter.concurrency).toBe(2)
+
+      const started = vi.fn()
+      const done = limiter.run(async () => started())
+      await vi.advanceTimersByTimeAsync(999)
+      expect(started).not.toHaveBeenCalled()
+      await vi.advanceTimersByTimeAsync(1)
+      await done
+      expect(started).toHaveBeenCalled()
+
+      // Concurrency grows back as requests succeed again
+      await limiter.run(async () => {})
+      expect(limiter.concurrency).toBe(3)
+    }
+    finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should detect rate limit errors', () => {
+    const now = Date.now()
+    expect(rateLimitDelay({ status: 429, response: { headers: { 'retry-after': '3' } } }, 60_000)).toBe(3000)
+    expect(rateLimitDelay({ status: 429, headers: new Headers() }, 10_000)).toBe(10_000)
+    expect(rateLimitDelay({
+      status: 403,
+      response: { headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(Math.floor(now / 1000) + 30) } },
+    }, 60_000)).toBeGreaterThan(28_000)
+    expect(rateLimitDelay({ status: 403, message: 'You have exceeded a secondary rate limit' }, 60_000)).toBe(60_000)
+    expect(rateLimitDelay({ status: 403, message: 'Resource not accessible by integration' }, 60_000)).toBeUndefined()
+    expect(rateLimitDelay({ status: 500 }, 60_000)).toBeUndefined()
+  })
+
+  it('should yield results as soon as they finish', async () => {
+    const gates = [deferred(), deferred(), deferred()]
+    const started: number[] = []
+    const results = collect(mapConcurrent([0, 1, 2], 2, async (item, index) => {
+      started.push(index)
+      await gates[item].promise
+      return item * 10
+    }))
+
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(started).toEqual([0, 1])
+    // A finished item frees its slot even while an earlier one is still running
+    gates[1].resolve()
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(started).toEqual([0, 1, 2])
+    gates[2].resolve()
+    await new Promise(resolve => setTimeout(resolve, 0))
+    gates[0].resolve()
+    expect(await results).toEqual([10, 20, 0])
+  })
+
+  it('should propagate errors in order', async () => {
+    async function* items() {
+      yield 1
+      yield 2
+      throw new Error('bad input')
+    }
+    const seen: number[] = []
+    await expect(async () => {
+      for await (const item of mapConcurrent(items(), 2, async item => item))
+        seen.push(item)
+    }).rejects.toThrow('bad input')
+    expect(seen).toEqual([1, 2])
+    await expect(collect(mapConcurrent([1, 2], 2, async (item) => {
+      if (item === 1)
+        throw new Error('task failed')
+      return item
+    }))).rejects.toThrow('task failed')
+  })
+})
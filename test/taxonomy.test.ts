@@ -0,0 +1,77 @@
+import type { LlmProvider } from '../src/llm'
+import type { FilteredResult, FindResult } from '../src/types'
+import { describe, expect, it, vi } from 'vitest'
+import { filterFlakyTestIssues } from '../src/agents/filterer'
+import { classifyRootCause, countRootCauses } from '../src/taxonomy'
+import { FilteredResultSchema } from '../src/types'
+import { issue } from './fixtures'
+
+const reported: FindResult = {
+  title: 'scheduler > runs daily jobs',
+  url: 'https://github.com/owner/repo/blob/HEAD/test/scheduler.test.ts#scheduler',
+  repo: 'owner/repo',
+  stars: 0,
+  comments: 0,
+  reactions: 0,
+  created: '2025-01-01',
+  source: 'reports',
+  testId: 'scheduler > runs daily jobs',
+  testStats: { runs: 10, failures: 1, flakeRate: 0.1 },
+  failureMessages: ['Expected next run on 2025-03-10 but got 2025-03-09, the machine is in a DST time zone'],
+}
+
+async function filter(result: FindResult, provider?: LlmProvider): Promise<FilteredResult> {
+  const results = []
+  for await (const filtered of filterFlakyTestIssues([result], provider))
+    results.push(filtered)
+  return results[0]
+}
+
+describe('root cause taxonomy', () => {
+  it('should classify an issue by the category mentioned on most lines and quote it', () => {
+    const classified = classifyRootCause(issue('Flaky test: cache spec', [
+      'The spec fails when run after the session tests, but passes in isolation.',
+      'Looks like a test order problem: with --sequence.shuffle it fails every few runs.',
+      'Maybe we need to wait for the cache to load?',
+    ].join('\n')))
+    expect(classified).toEqual({ category: 'test-order-dependency', quote: 'The spec fails when run after the session tests, but passes in isolation.' })
+  })
+
+  it('should read comments and logs and leave unexplained issues unclassified', () => {
+    expect(classifyRootCause(issue('Flaky test', '', {
+      commentsList: [{ author: 'dev', body: 'Only fails on Windows runners', createdAt: '2025-01-02' }],
+    }))?.category).toBe('platform')
+    expect(classifyRootCause(issue('Flaky test', '', { logExcerpt: 'Error: connect ECONNREFUSED 127.0.0.1:5432' }))?.category).toBe('network')
+    expect(classifyRootCause(issue('Flaky test in CI', 'It fails sometimes.'))).toBeUndefined()
+  })
+
+  it('should count results by category', () => {
+    const rootCause = (category: 'time' | 'concurrency') => ({ rootCause: { category, quote: '' } })
+    expect(countRootCauses([rootCause('time'), {}, rootCause('concurrency'), rootCause('concurrency')])).toEqual([['concurrency', 2], ['time', 1]])
+  })
+
+  it('should only accept categories of the taxonomy', () => {
+    const result = { ...reported, isFlakyTestIssue: true, confidence: 90, reasoning: '' }
+    expect(FilteredResultSchema.safeParse({ ...result, rootCause: { category: 'time', quote: 'DST' } }).success).toBe(true)
+    expect(FilteredResultSchema.safeParse({ ...result, rootCause: { category: 'cosmic rays', quote: 'bit flip' } }).success).toBe(false)
+  })
+
+  it('should classify flaky results decided by heuristics by their wording', async () => {
+    expect((await filter(reported)).rootCause).toEqual({
+      category: 'time',
+      quote: 'Expected next run on 2025-03-10 but got 2025-03-09, the machine is in a DST time zone',
+    })
+  })
+
+  it('should keep the model\'s classification of flaky issues only', async () => {
+    const analyzing = (isFlakyTestIssue: boolean): LlmProvider => ({
+      name: 'gemini',
+      model: 'test-model',
+      chat: vi.fn(async () => ({
+        toolCalls: [{ id: 'call_0', name: 'analyzeIssue', args: { isFlakyTestIssue, confidence: 90, reasoning: 'DST', rootCause: { category: 'time', quote: 'DST time zone' } } }],
+      })),
+    })
+    expect((await filter(reported, analyzing(true))).rootCause).toEqual({ category: 'time', quote: 'DST time zone' })
+    expect((await filter(reported, analyzing(false))).rootCause).toBeUndefined()
+  })
+})
@@ -0,0 +1,139 @@
+import type { ReproductionOutput } from '../src/agents/reproducer'
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { summarizeRuns } from '../src/tools/docker'
+import { runVerify, verifyReproduction } from '../src/verify'
+
+const docker = vi.hoisted(() => ({
+  buildImage: vi.fn(),
+  createContainer: vi.fn(),
+  runCommand: vi.fn(),
+  // Exit codes of the repeated runs of the failing step
+  exitCodes: [] as number[],
+  cleanup: vi.fn(),
+}))
+
+vi.mock('../src/clients', () => ({ octokit: {} }))
+vi.mock('../src/tools/docker', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/tools/docker')>(),
+  createDockerFunctions: () => ({
+    buildImage: { implementation: docker.buildImage },
+    createContainer: { implementation: docker.createContainer },
+    runCommand: docker.runCommand,
+    runRepeated: {
+      implementation: async ({ command }: { command: string }) => summarizeRuns(command, docker.exitCodes.map(exitCode => ({
+        output: exitCode ? 'Error: Test timed out in 5000ms' : 'Tests  1 passed (1)',
+        exitCode,
+        durationMs: 100,
+      }))),
+    },
+    cleanup: docker.cleanup,
+  }),
+}))
+
+function reproduction(n: number, steps = ['npm ci', 'npx vitest run queue']): ReproductionOutput {
+  return {
+    issue: {
+      title: `Issue ${n}`,
+      url: `https://github.com/owner/repo/issues/${n}`,
+      repo: 'owner/repo',
+      stars: 0,
+      comments: 0,
+      reactions: 0,
+      created: '2025-01-01',
+      isFlakyTestIssue: true,
+      confidence: 90,
+      reasoning: '',
+    },
+    maxIterations: 50,
+    reproductionResult: { status: 'success', reason: 'Times out under load', dockerFile: 'FROM node:20', reproductionSteps: steps },
+    measurements: [],
+    shuffles: [],
+    polluterSearches: [],
+    stopReason: 'final',
+    usage: { inputTokens: 0, outputTokens: 0 },
+    functionCallHistory: [],
+    agentResponses: [],
+  }
+}
+
+describe('verify', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    docker.runCommand.mockResolvedValue({ output: '', exitCode: 0, durationMs: 10 })
+    docker.exitCodes = [0, 1, 0, 0]
+  })
+
+  it('should verify a reproduction whose failing step both passes and fails', async () => {
+    const verification = await verifyReproduction(reproduction(1), { runs: 4 })
+    expect(verification).toMatchObject({ status: 'verified', statistics: { command: 'npx vitest run queue', runs: 4, failed: 1 } })
+    expect(verification.evidence).toEqual([
+      'The Dockerfile built from scratch',
+      'Steps 1 to 1 succeeded',
+      expect.stringContaining('failed in 1 of 4 runs, a flake rate of 25.0%'),
+    ])
+    expect(docker.buildImage).toHaveBeenCalledWith({ dockerfile: 'FROM node:20', imageName: expect.any(String), nocache: true })
+    expect(docker.runCommand).toHaveBeenCalledExactlyOnceWith('npm ci')
+    expect(docker.cleanup).toHaveBeenCalled()
+  })
+
+  it('should replay reproductions under the constraints they were measured with', async () => {
+    const constrained = reproduction(1)
+    constrained.reproductionResult!.constraints = { cpus: 1, stress: { cpu: 2 } }
+    const verification = await verifyReproduction(constrained)
+    expect(docker.createContainer).toHaveBeenCalledWith({ imageName: expect.any(String), constraints: { cpus: 1, stress: { cpu: 2 } } })
+    expect(verification.evidence).toContain('The container ran with 1 CPU, 2 CPU stressors')
+  })
+
+  it('should tell failing steps that never or always fail apart', async () => {
+    docker.exitCodes = [0, 0]
+    expect((await verifyReproduction(reproduction(1))).status).toBe('not-reproducible')
+    docker.exitCodes = [1, 1]
+    const verification = await verifyReproduction(reproduction(1))
+    expect(verification.status).toBe('unverified')
+    expect(verification.evidence.at(-1)).toContain('fails consistently')
+  })
+
+  it('should leave reproductions that cannot be replayed unverified', async () => {
+    const incomplete = reproduction(1, [])
+    expect(await verifyReproduction(incomplete)).toMatchObject({ status: 'unverified', evidence: [expect.stringContaining('no Dockerfile')] })
+
+    docker.buildImage.mockRejectedValueOnce(new Error('npm ERR! 404'))
+    expect(await verifyReproduction(reproduction(1))).toMatchObject({ status: 'unverified', evidence: ['The Dockerfile failed to build: npm ERR! 404'] })
+
+    docker.runCommand.mockResolvedValueOnce({ output: 'npm ERR! missing lockfile', exitCode: 1, durationMs: 10 })
+    const verification = await verifyReproduction(reproduction(1))
+    expect(verification.status).toBe('unverified')
+    expect(verification.evidence.at(-1)).toContain('Step 1 (npm ci) exited with code 1')
+    expect(docker.cleanup).toHaveBeenCalledTimes(2)
+  })
+
+  it('should leave reproductions unverified when replaying them breaks down', async () => {
+    docker.createContainer.mockRejectedValueOnce(new Error('no such image'))
+    expect(await verifyReproduction(reproduction(1))).toMatchObject({ status: 'unverified', evidence: [expect.anything(), 'Replaying the reproduction failed: no such image'] })
+
+    docker.runCommand.mockRejectedValueOnce(new Error('container exited'))
+    expect((await verifyReproduction(reproduction(1))).evidence.at(-1)).toBe('Replaying the reproduction failed: container exited')
+    expect(docker.cleanup).toHaveBeenCalledTimes(2)
+
+    // One broken replay does not stop the others
+    const dir = mkdtempSync(join(tmpdir(), 'flaki-verify-'))
+    writeFileSync(join(dir, 'reproductions.json'), JSON.stringify([reproduction(1), reproduction(2)]))
+    docker.createContainer.mockRejectedValueOnce(new Error('no such image'))
+    await runVerify(join(dir, 'reproductions.json'), join(dir, 'verified.json'), { runs: 4 })
+    const verified: ReproductionOutput[] = JSON.parse(readFileSync(join(dir, 'verified.json'), 'utf-8'))
+    expect(verified.map(output => output.verification?.status)).toEqual(['unverified', 'verified'])
+  })
+
+  it('should verify saved reproduction results', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'flaki-verify-'))
+    writeFileSync(join(dir, 'reproductions.json'), JSON.stringify([reproduction(1), reproduction(2, [])]))
+
+    await runVerify(join(dir, 'reproductions.json'), join(dir, 'verified.json'), { runs: 4 })
+    const verified: ReproductionOutput[] = JSON.parse(readFileSync(join(dir, 'verified.json'), 'utf-8'))
+    expect(verified.map(output => [output.issue.url.slice(-1), output.verification?.status])).toEqual([['1', 'verified'], ['2', 'unverified']])
+    expect(verified[0].reproductionResult).toEqual(reproduction(1).reproductionResult)
+  })
+})
@@ -0,0 +1,79 @@
+import type { LlmProvider, ProviderName } from '../src/llm'
+import type { FilteredResult, FindResult } from '../src/types'
+import { mkdtempSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, expect, it, vi } from 'vitest'
+import { filterFlakyTestIssues } from '../src/agents/filterer'
+import { createCassette } from '../src/utils/cassette'
+
+function voter(name: ProviderName, isFlakyTestIssue: boolean, confidence: number, temperature?: number): LlmProvider {
+  return {
+    name,
+    model: `${name}-model`,
+    temperature,
+    chat: vi.fn(async () => ({
+      toolCalls: [{ id: 'call_0', name: 'analyzeIssue', args: { isFlakyTestIssue, confidence, reasoning: `${name} says ${isFlakyTestIssue}` } }],
+    })),
+  }
+}
+
+// Test report records need no forge access and always go to the LLM with the default thresholds
+const reported: FindResult = {
+  title: 'auth > refreshes tokens',
+  url: 'https://github.com/owner/repo/blob/HEAD/test/auth.test.ts#auth',
+  repo: 'owner/repo',
+  stars: 0,
+  comments: 0,
+  reactions: 0,
+  created: '2025-01-01',
+  source: 'reports',
+  testId: 'auth > refreshes tokens',
+  testStats: { runs: 10, failures: 2, flakeRate: 0.2 },
+}
+
+async function filter(voters: LlmProvider[], options: Parameters<typeof filterFlakyTestIssues>[2] = {}): Promise<FilteredResult> {
+  const results = []
+  for await (const result of filterFlakyTestIssues([reported], voters[0], { ...options, voters }))
+    results.push(result)
+  return results[0]
+}
+
+describe('filter voting', () => {
+  it('should decide by majority with agreement as confidence', async () => {
+    const result = await filter([voter('gemini', true, 90, 0), voter('openai', false, 99, 0.7), voter('anthropic', true, 60)])
+
+    expect(result).toMatchObject({ isFlakyTestIssue: true, confidence: 67, reasoning: 'gemini says true', needsReview: true })
+    expect(result.votes).toEqual([
+      { provider: 'gemini', model: 'gemini-model', temperature: 0, isFlakyTestIssue: true, confidence: 90, reasoning: 'gemini says true' },
+      { provider: 'openai', model: 'openai-model', temperature: 0.7, isFlakyTestIssue: false, confidence: 99, reasoning: 'openai says false' },
+      { provider: 'anthropic', model: 'anthropic-model', temperature: undefined, isFlakyTestIssue: true, confidence: 60, reasoning: 'anthropic says true' },
+    ])
+  })
+
+  it('should resolve ties conservatively and skip failed votes', async () => {
+    const failing = voter('openai', true, 100)
+    vi.mocked(failing.chat).mockRejectedValue(new Error('overloaded'))
+
+    const result = await filter([voter('gemini', true, 80), failing, voter('anthropic', false, 70)])
+    expect(result).toMatchObject({ isFlakyTestIssue: false, confidence: 50, needsReview: true })
+    expect(result.votes).toHaveLength(2)
+  })
+
+  it('should not flag unanimous votes', async () => {
+    const result = await filter([voter('gemini', false, 80), voter('gemini', false, 95, 1)])
+    expect(result).toMatchObject({ isFlakyTestIssue: false, confidence: 100, needsReview: false, reasoning: 'gemini says false' })
+  })
+
+  it('should replay votes of different providers from a cassette', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'flaki-voting-')), 'cassette.json')
+    const recorder = createCassette({ mode: 'record', file })
+    const voters = [voter('gemini', true, 90), voter('openai', false, 80), voter('gemini', true, 70, 1)]
+    recorder.setProvider(voters[0])
+    const recorded = await filter(voters, { cassette: recorder })
+
+    const player = createCassette({ mode: 'replay', file, strict: true })
+    const replayVoters = [player.replayProvider(), player.replayProvider({ provider: 'openai', model: 'openai-model' }), player.replayProvider({ temperature: 1 })]
+    expect(await filter(replayVoters, { cassette: player })).toEqual(recorded)
+  })
+})